@@ -0,0 +1,258 @@
+import { Contract, ZeroAddress, type Provider, type Signer } from "ethers";
+
+import {
+  ERC20_ABI,
+  GameStatus,
+  LOBBY_TOPICS,
+  SECRET_DICE_ABI,
+  secretDiceInterface,
+  type GameView,
+  type RevealFn,
+} from "./contract";
+import { evaluateLobby, type HousePolicy } from "./policy";
+import type { BotStore, Seat } from "./store";
+
+export interface HouseBotOptions {
+  signer: Signer;
+  contractAddress: string;
+  store: BotStore;
+  policy: HousePolicy;
+  // First block to scan for lobbies, usually the deployment block
+  startBlock?: number;
+  // Blocks per getLogs request
+  batchSize?: number;
+  // Finalizes reveals of the bot's games; without it the bot waits for another player to reveal
+  reveal?: RevealFn;
+  log?: (message: string) => void;
+}
+
+function describeError(error: unknown) {
+  const { shortMessage, message } = error as { shortMessage?: string; message?: string };
+  return shortMessage ?? message ?? String(error);
+}
+
+export class HouseBot {
+  private readonly signer: Signer;
+  private readonly provider: Provider;
+  private readonly contract: Contract;
+  private readonly contractAddress: string;
+  private readonly store: BotStore;
+  private readonly policy: HousePolicy;
+  private readonly startBlock: number;
+  private readonly batchSize: number;
+  private readonly reveal?: RevealFn;
+  private readonly log: (message: string) => void;
+
+  constructor(options: HouseBotOptions) {
+    if (!options.signer.provider) {
+      throw new Error("The house bot signer must be connected to a provider");
+    }
+    this.signer = options.signer;
+    this.provider = options.signer.provider;
+    this.contract = new Contract(options.contractAddress, SECRET_DICE_ABI, options.signer);
+    this.contractAddress = options.contractAddress;
+    this.store = options.store;
+    this.policy = options.policy;
+    this.startBlock = options.startBlock ?? 0;
+    this.batchSize = options.batchSize ?? 2000;
+    this.reveal = options.reveal;
+    this.log = options.log ?? (() => undefined);
+  }
+
+  // Runs one pass: settles interrupted joins, picks up new lobbies, joins the ones the policy allows and moves
+  // every open game forward by at most one step
+  async tick() {
+    const self = await this.signer.getAddress();
+
+    await this.reconcileJoins(self);
+    await this.scanLobbies();
+
+    const block = await this.provider.getBlock("latest");
+    const now = BigInt(block?.timestamp ?? 0);
+    await this.fillLobbies(self, now);
+    await this.playGames(self, now);
+
+    this.store.save();
+  }
+
+  private async readGame(gameId: string): Promise<GameView> {
+    return (await this.contract.getGame(gameId)) as GameView;
+  }
+
+  private async send(method: string, ...args: unknown[]) {
+    const tx = await this.contract.getFunction(method)(...args);
+    await tx.wait();
+  }
+
+  // A `joining` seat outlived the process that sent its transaction; the chain decides whether it took
+  private async reconcileJoins(self: string) {
+    for (const gameId of this.store.openSeats()) {
+      const seat = this.store.getSeat(gameId)!;
+      if (seat.state !== "joining") {
+        continue;
+      }
+      const game = await this.readGame(gameId);
+      if (game.players.includes(self)) {
+        this.store.setSeat(gameId, { ...seat, state: "active" });
+      } else {
+        this.store.removeSeat(gameId);
+        this.store.addLobby(gameId);
+      }
+    }
+  }
+
+  // GameCreated announces new lobbies and PlayerJoined surfaces lobbies created before the start block
+  private async scanLobbies() {
+    const latest = await this.provider.getBlockNumber();
+    let from = Math.max(this.startBlock, (this.store.lastBlock ?? -1) + 1);
+
+    while (from <= latest) {
+      const to = Math.min(latest, from + this.batchSize - 1);
+      const logs = await this.provider.getLogs({
+        address: this.contractAddress,
+        fromBlock: from,
+        toBlock: to,
+        topics: [LOBBY_TOPICS],
+      });
+      for (const log of logs) {
+        const parsed = secretDiceInterface.parseLog({ topics: [...log.topics], data: log.data });
+        if (parsed) {
+          this.store.addLobby(parsed.args.gameId.toString());
+        }
+      }
+      this.store.lastBlock = to;
+      from = to + 1;
+    }
+  }
+
+  private async fillLobbies(self: string, now: bigint) {
+    for (const gameId of [...this.store.lobbies]) {
+      const game = await this.readGame(gameId);
+      if (
+        game.status !== GameStatus.WaitingForPlayers ||
+        BigInt(game.players.length) >= game.capacity ||
+        now > game.joinDeadline
+      ) {
+        this.store.dropLobby(gameId);
+        continue;
+      }
+
+      const decision = evaluateLobby(this.policy, game, this.store.exposure(), self);
+      if (!decision.join) {
+        if (!decision.retry) {
+          this.store.dropLobby(gameId);
+        }
+        continue;
+      }
+
+      await this.join(self, gameId, game);
+    }
+  }
+
+  private async join(self: string, gameId: string, game: GameView) {
+    const stake = game.stake.toString();
+    this.store.setSeat(gameId, { state: "joining", stake });
+    this.store.save();
+
+    try {
+      const isNative = game.stakeToken === ZeroAddress;
+      if (!isNative) {
+        const token = new Contract(game.stakeToken, ERC20_ABI, this.signer);
+        if ((await token.allowance(self, this.contractAddress)) < game.stake) {
+          await (await token.approve(this.contractAddress, game.stake)).wait();
+        }
+      }
+      await this.send("joinGame", gameId, { value: isNative ? game.stake : 0n });
+      this.store.setSeat(gameId, { state: "active", stake });
+      this.log(`Joined game ${gameId} with a stake of ${stake}`);
+    } catch (error) {
+      // Usually another player took the last seat first; the next pass reconciles the seat with the chain
+      this.log(`Could not join game ${gameId}: ${describeError(error)}`);
+    }
+    this.store.save();
+  }
+
+  private async playGames(self: string, now: bigint) {
+    for (const gameId of this.store.openSeats()) {
+      const seat = this.store.getSeat(gameId)!;
+      if (seat.state !== "active") {
+        continue;
+      }
+      try {
+        await this.advance(self, gameId, seat, now);
+      } catch (error) {
+        this.log(`Game ${gameId}: ${describeError(error)}`);
+      }
+      this.store.save();
+    }
+  }
+
+  private settle(gameId: string, seat: Seat, result: NonNullable<Seat["result"]>) {
+    this.store.setSeat(gameId, { ...seat, state: "settled", result });
+    this.log(`Settled game ${gameId}: ${result}`);
+  }
+
+  private async advance(self: string, gameId: string, seat: Seat, now: bigint) {
+    const game = await this.readGame(gameId);
+    const index = game.players.indexOf(self);
+    const unpaid = game.credits[index] > 0n && !game.payoutClaimed[index];
+
+    switch (game.status) {
+      case GameStatus.WaitingForPlayers:
+        // The table never filled; cancelling credits every stake and pays the bot's back
+        if (now > game.joinDeadline) {
+          await this.send("cancelGame", gameId);
+          this.settle(gameId, seat, "refunded");
+        }
+        return;
+
+      case GameStatus.WaitingForRolls:
+        if (now <= game.rollDeadline) {
+          if (!game.rolled[index]) {
+            await this.send("rollDice", gameId);
+            this.log(`Rolled in game ${gameId}`);
+          }
+        } else if (game.rolled[index]) {
+          await this.send("claimForfeit", gameId);
+          this.settle(gameId, seat, "won");
+        } else if (!game.rolled.includes(true)) {
+          await this.send("reclaimStake", gameId);
+          this.settle(gameId, seat, "refunded");
+        } else {
+          // Another seat rolled in time, so the bot's stake goes to them whenever the forfeit is claimed
+          this.settle(gameId, seat, "lost");
+        }
+        return;
+
+      case GameStatus.AwaitingReveal:
+        if (now > game.revealDeadline) {
+          await this.send("reclaimStake", gameId);
+          this.settle(gameId, seat, "refunded");
+        } else if (game.revealPending && this.reveal) {
+          const handles: string[] = [...(await this.contract.getRevealHandles(gameId))];
+          const decryption = await this.reveal(handles);
+          await this.send("finalizeReveal", gameId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+          this.log(`Revealed game ${gameId}`);
+        }
+        return;
+
+      case GameStatus.Completed:
+      case GameStatus.Forfeited: {
+        const draw = game.status === GameStatus.Completed && game.winners.length === game.players.length;
+        if (unpaid) {
+          await this.send(draw ? "claimDrawRefund" : "claimReward", gameId);
+        }
+        this.settle(gameId, seat, game.credits[index] === 0n ? "lost" : draw ? "draw" : "won");
+        return;
+      }
+
+      case GameStatus.Cancelled:
+      case GameStatus.Expired:
+        if (unpaid) {
+          await this.send("reclaimStake", gameId);
+        }
+        this.settle(gameId, seat, "refunded");
+        return;
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { Interface } from "ethers";
+
+// The slice of the SecretDice ABI the bot reads and calls
+export const SECRET_DICE_ABI = [
+  "event GameCreated(uint256 indexed gameId, address indexed creator, address indexed stakeToken, uint256 stake)",
+  "event PlayerJoined(uint256 indexed gameId, address indexed player)",
+  "function getGame(uint256 gameId) view returns (tuple(uint8 status, address creator, address stakeToken, uint256 stake, uint8 capacity, uint8 diceCount, uint8 faces, bool sealedResult, uint8 bestOf, uint8 currentRound, uint8 maxTieRerolls, uint8 tieRounds, uint16 feeBps, uint256 fee, uint256 maxBet, uint256[] bets, uint8 turn, address[] players, bool[] rolled, uint32[] revealedRolls, uint32 revealedOutcome, bool[] payoutClaimed, uint256[] credits, address[] winners, uint8[] scores, tuple(uint32[] rolls, uint32 winnerMask)[] rounds, bool revealPending, uint64 joinDeadline, uint64 rollDeadline, uint64 revealDeadline, uint64 betDeadline))",
+  "function getRevealHandles(uint256 gameId) view returns (bytes32[])",
+  "function joinGame(uint256 gameId) payable",
+  "function rollDice(uint256 gameId)",
+  "function finalizeReveal(uint256 gameId, bytes cleartexts, bytes decryptionProof)",
+  "function claimReward(uint256 gameId)",
+  "function claimDrawRefund(uint256 gameId)",
+  "function claimForfeit(uint256 gameId)",
+  "function cancelGame(uint256 gameId)",
+  "function reclaimStake(uint256 gameId)",
+];
+
+export const ERC20_ABI = [
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function decimals() view returns (uint8)",
+];
+
+export const secretDiceInterface = new Interface(SECRET_DICE_ABI);
+
+// Topic filter matching the lobby events the bot watches
+export const LOBBY_TOPICS = [
+  secretDiceInterface.getEvent("GameCreated")!.topicHash,
+  secretDiceInterface.getEvent("PlayerJoined")!.topicHash,
+];
+
+export const GameStatus = {
+  WaitingForPlayers: 0n,
+  WaitingForRolls: 1n,
+  AwaitingReveal: 2n,
+  Completed: 3n,
+  Cancelled: 4n,
+  Forfeited: 5n,
+  Expired: 6n,
+  Betting: 7n,
+} as const;
+
+// The fields of `SecretDice.getGame` the bot acts on, as decoded by ethers
+export interface GameView {
+  status: bigint;
+  stakeToken: string;
+  stake: bigint;
+  capacity: bigint;
+  maxBet: bigint;
+  players: string[];
+  rolled: boolean[];
+  payoutClaimed: boolean[];
+  credits: bigint[];
+  winners: string[];
+  revealPending: boolean;
+  joinDeadline: bigint;
+  rollDeadline: bigint;
+  revealDeadline: bigint;
+}
+
+// Public decryption of a game's reveal handles: the FHEVM mock in tests, the Zama relayer on live networks
+export type RevealFn = (handles: string[]) => Promise<{ abiEncodedClearValues: string; decryptionProof: string }>;
@@ -0,0 +1,92 @@
+import { SepoliaConfig, createInstance } from "@zama-fhe/relayer-sdk/node";
+import * as dotenv from "dotenv";
+import { Contract, JsonRpcProvider, Wallet, ZeroAddress, formatUnits, parseUnits } from "ethers";
+import fs from "fs";
+import path from "path";
+
+import { HouseBot } from "./bot";
+import { ERC20_ABI, type RevealFn } from "./contract";
+import { BotStore } from "./store";
+
+dotenv.config();
+
+const RPC_URL = process.env.BOT_RPC_URL ?? "http://127.0.0.1:8545";
+const NETWORK = process.env.BOT_NETWORK ?? "localhost";
+const PRIVATE_KEY = process.env.BOT_PRIVATE_KEY;
+const STAKE_TOKEN = process.env.BOT_STAKE_TOKEN ?? ZeroAddress;
+const MAX_GAMES = Number(process.env.BOT_MAX_GAMES ?? 3);
+const POLL_INTERVAL_MS = Number(process.env.BOT_POLL_INTERVAL_MS ?? 4000);
+
+// Falls back to the hardhat-deploy record of the network for the address and deployment block
+function readDeployment() {
+  const deploymentPath = path.join(__dirname, "..", "..", "deployments", NETWORK, "SecretDice.json");
+  if (!fs.existsSync(deploymentPath)) {
+    return null;
+  }
+  const deployment = JSON.parse(fs.readFileSync(deploymentPath, "utf8"));
+  return { address: deployment.address as string, blockNumber: deployment.receipt?.blockNumber as number | undefined };
+}
+
+// Only Sepolia has a Zama relayer; elsewhere the bot leaves reveals to the other players
+async function createReveal(): Promise<RevealFn | undefined> {
+  if (NETWORK !== "sepolia") {
+    return undefined;
+  }
+  const instance = await createInstance({ ...SepoliaConfig, network: RPC_URL });
+  return (handles) => instance.publicDecrypt(handles);
+}
+
+async function main() {
+  if (!PRIVATE_KEY) {
+    throw new Error("Set BOT_PRIVATE_KEY to the house account's private key");
+  }
+  const deployment = readDeployment();
+  const contractAddress = process.env.BOT_CONTRACT_ADDRESS ?? deployment?.address;
+  if (!contractAddress) {
+    throw new Error(`Set BOT_CONTRACT_ADDRESS or deploy SecretDice to ${NETWORK} first`);
+  }
+
+  const provider = new JsonRpcProvider(RPC_URL);
+  const signer = new Wallet(PRIVATE_KEY, provider);
+  const decimals =
+    STAKE_TOKEN === ZeroAddress ? 18 : Number(await new Contract(STAKE_TOKEN, ERC20_ABI, provider).decimals());
+  const policy = {
+    stakeToken: STAKE_TOKEN,
+    minStake: parseUnits(process.env.BOT_MIN_STAKE ?? "0", decimals),
+    maxStake: parseUnits(process.env.BOT_MAX_STAKE ?? "0.001", decimals),
+    maxConcurrentGames: MAX_GAMES,
+    bankroll: parseUnits(process.env.BOT_BANKROLL ?? "0.003", decimals),
+  };
+
+  const storePath =
+    process.env.BOT_STORE_PATH ?? path.join(__dirname, "..", "data", `${NETWORK}-${signer.address.toLowerCase()}.json`);
+  const bot = new HouseBot({
+    signer,
+    contractAddress,
+    store: new BotStore(contractAddress, signer.address, storePath),
+    policy,
+    startBlock: Number(process.env.BOT_START_BLOCK ?? deployment?.blockNumber ?? 0),
+    reveal: await createReveal(),
+    log: (message) => console.log(message),
+  });
+
+  console.log(`House bot ${signer.address} playing SecretDice at ${contractAddress} on ${NETWORK}`);
+  console.log(
+    `Stakes ${formatUnits(policy.minStake, decimals)}-${formatUnits(policy.maxStake, decimals)}, at most ${MAX_GAMES} games and ${formatUnits(policy.bankroll, decimals)} at stake`,
+  );
+
+  const poll = async () => {
+    try {
+      await bot.tick();
+    } catch (error) {
+      console.error("Tick failed", error);
+    }
+    setTimeout(poll, POLL_INTERVAL_MS);
+  };
+  await poll();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
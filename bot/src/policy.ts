@@ -0,0 +1,48 @@
+import type { GameView } from "./contract";
+
+export interface HousePolicy {
+  // `address(0)` for native ETH or an allowlisted ERC-20; lobbies in other assets are ignored
+  stakeToken: string;
+  minStake: bigint;
+  maxStake: bigint;
+  // Most unsettled games the bot may sit in at once
+  maxConcurrentGames: number;
+  // Most stake the bot may have locked in unsettled games at once
+  bankroll: bigint;
+}
+
+export interface Exposure {
+  games: number;
+  staked: bigint;
+}
+
+export type LobbyDecision =
+  | { join: true }
+  // `retry` lobbies may become joinable later, the rest are dropped for good
+  | { join: false; reason: string; retry: boolean };
+
+// The bot only fills tables someone is already waiting at, and never plays bluff games since it cannot bet
+export function evaluateLobby(policy: HousePolicy, game: GameView, exposure: Exposure, self: string): LobbyDecision {
+  if (game.stakeToken.toLowerCase() !== policy.stakeToken.toLowerCase()) {
+    return { join: false, reason: "other stake asset", retry: false };
+  }
+  if (game.stake < policy.minStake || game.stake > policy.maxStake) {
+    return { join: false, reason: "stake out of range", retry: false };
+  }
+  if (game.maxBet > 0n) {
+    return { join: false, reason: "bluff game", retry: false };
+  }
+  if (game.players.some((player) => player.toLowerCase() === self.toLowerCase())) {
+    return { join: false, reason: "already seated", retry: false };
+  }
+  if (game.players.length === 0) {
+    return { join: false, reason: "empty table", retry: true };
+  }
+  if (exposure.games >= policy.maxConcurrentGames) {
+    return { join: false, reason: "concurrent game limit", retry: true };
+  }
+  if (exposure.staked + game.stake > policy.bankroll) {
+    return { join: false, reason: "bankroll limit", retry: true };
+  }
+  return { join: true };
+}
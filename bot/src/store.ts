@@ -0,0 +1,110 @@
+import fs from "fs";
+import path from "path";
+
+import type { Exposure } from "./policy";
+
+// `joining` is written before the join transaction is sent, so a crash mid-join is reconciled against the chain
+// on the next start instead of joining twice or forgetting the stake
+export type SeatState = "joining" | "active" | "settled";
+
+export interface Seat {
+  state: SeatState;
+  stake: string;
+  // How the game ended for the bot, once settled
+  result?: "won" | "lost" | "draw" | "refunded";
+}
+
+interface StoreState {
+  contract: string;
+  player: string;
+  // Last block whose lobby events were processed, or null before the first scan
+  lastBlock: number | null;
+  // Lobbies that may still become joinable
+  lobbies: string[];
+  seats: Record<string, Seat>;
+}
+
+// Bot state kept in memory and mirrored to a JSON file after every change, when a path is given
+export class BotStore {
+  private state: StoreState;
+
+  constructor(
+    contract: string,
+    player: string,
+    private readonly filePath?: string,
+  ) {
+    this.state = {
+      contract: contract.toLowerCase(),
+      player: player.toLowerCase(),
+      lastBlock: null,
+      lobbies: [],
+      seats: {},
+    };
+
+    if (filePath && fs.existsSync(filePath)) {
+      const saved = JSON.parse(fs.readFileSync(filePath, "utf8")) as StoreState;
+      // State written for another deployment or account is discarded rather than mixed with this one
+      if (saved.contract === this.state.contract && saved.player === this.state.player) {
+        this.state = saved;
+      }
+    }
+  }
+
+  get lastBlock(): number | null {
+    return this.state.lastBlock;
+  }
+
+  set lastBlock(blockNumber: number) {
+    this.state.lastBlock = blockNumber;
+  }
+
+  get lobbies(): readonly string[] {
+    return this.state.lobbies;
+  }
+
+  addLobby(gameId: string) {
+    if (!this.state.lobbies.includes(gameId) && !this.state.seats[gameId]) {
+      this.state.lobbies.push(gameId);
+    }
+  }
+
+  dropLobby(gameId: string) {
+    this.state.lobbies = this.state.lobbies.filter((lobby) => lobby !== gameId);
+  }
+
+  getSeat(gameId: string): Seat | undefined {
+    return this.state.seats[gameId];
+  }
+
+  setSeat(gameId: string, seat: Seat) {
+    this.state.seats[gameId] = seat;
+    this.dropLobby(gameId);
+  }
+
+  removeSeat(gameId: string) {
+    delete this.state.seats[gameId];
+  }
+
+  // Games the bot has joined, or may have joined, that are not settled yet
+  openSeats(): string[] {
+    return Object.keys(this.state.seats).filter((gameId) => this.state.seats[gameId].state !== "settled");
+  }
+
+  exposure(): Exposure {
+    const open = this.openSeats();
+    return {
+      games: open.length,
+      staked: open.reduce((sum, gameId) => sum + BigInt(this.state.seats[gameId].stake), 0n),
+    };
+  }
+
+  save() {
+    if (!this.filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.state), "utf8");
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
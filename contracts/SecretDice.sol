@@ -3,70 +3,191 @@ pragma solidity ^0.8.24;
 
 import {FHE, euint32} from "@fhevm/solidity/lib/FHE.sol";
 import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {IERC20} from "./interfaces/IERC20.sol";
+import {DiceRolls} from "./libraries/DiceRolls.sol";
+import {PlayerRanking} from "./libraries/PlayerRanking.sol";
 
 /// @title SecretDice
-/// @notice Two-player dice game using Zama FHE-powered randomness
+/// @notice Multiplayer dice game using Zama FHE-powered randomness
 contract SecretDice is ZamaEthereumConfig {
-    uint256 public constant ENTRY_FEE = 0.0001 ether;
-    uint256 public constant REWARD_AMOUNT = ENTRY_FEE * 2;
+    uint256 public immutable MIN_STAKE;
+    uint256 public immutable MAX_STAKE;
+    uint256 public constant JOIN_TIMEOUT = 1 days;
+    uint256 public constant ROLL_TIMEOUT = 12 hours;
+    uint256 public constant REVEAL_TIMEOUT = 1 days;
+    uint256 public constant BET_TIMEOUT = 12 hours;
+    uint8 public constant MIN_PLAYERS = 2;
+    uint8 public constant MAX_PLAYERS = 8;
+    uint8 public constant MAX_DICE = 5;
+    uint8 public constant MAX_SERIES_LENGTH = 7;
+    uint8 public constant MAX_TIE_REROLLS = 10;
+    uint16 public constant MAX_FEE_BPS = 1000;
+    uint16 private constant BPS_DENOMINATOR = 10_000;
 
     enum GameStatus {
         WaitingForPlayers,
         WaitingForRolls,
         AwaitingReveal,
-        Completed
+        Completed,
+        Cancelled,
+        Forfeited,
+        Expired,
+        Betting
+    }
+
+    /// @dev Wins break ties on net profit and net profit breaks ties on wins
+    enum LeaderboardOrder {
+        Wins,
+        NetProfit
+    }
+
+    struct StakeLimits {
+        uint256 minStake;
+        uint256 maxStake;
+    }
+
+    struct TokenConfig {
+        address token;
+        uint256 minStake;
+        uint256 maxStake;
+    }
+
+    struct GameRules {
+        uint8 capacity;
+        uint8 diceCount;
+        uint8 faces;
+        bool sealedResult;
+        uint8 bestOf;
+        uint8 maxTieRerolls;
+        uint256 maxBet;
+    }
+
+    struct RoundResult {
+        uint32[] rolls;
+        uint32 winnerMask;
     }
 
     struct Game {
         address creator;
-        address[2] players;
-        bool[2] hasRolled;
-        euint32[2] encryptedRolls;
-        uint32[2] revealedRolls;
+        address stakeToken;
+        uint256 stake;
+        uint8 capacity;
+        uint8 diceCount;
+        uint8 faces;
+        bool sealedResult;
+        uint8 bestOf;
+        uint8 currentRound;
+        uint8 maxTieRerolls;
+        uint8 tieRounds;
+        uint16 feeBps;
+        uint8 rollCount;
+        uint8 turn;
+        uint8 betActions;
         GameStatus status;
-        address winner;
-        bool rewardClaimed;
-        bool[2] drawRefundClaimed;
         bool decryptionPending;
-        uint256 pendingRequestId;
+        uint32 revealedOutcome;
+        uint64 joinDeadline;
+        uint64 rollDeadline;
+        uint64 revealDeadline;
+        uint64 betDeadline;
+        uint256 maxBet;
+        uint256 betTotal;
+        uint256 fee;
+        uint256 credited;
+        address[] players;
+        bool[] hasRolled;
+        euint32[] encryptedRolls;
+        uint32[] revealedRolls;
+        bool[] payoutClaimed;
+        uint256[] credits;
+        uint256[] bets;
+        address[] winners;
+        euint32 encryptedOutcome;
+        uint8[] scores;
+        RoundResult[] rounds;
     }
 
     struct GameView {
         GameStatus status;
         address creator;
-        address playerOne;
-        address playerTwo;
-        bool playerOneRolled;
-        bool playerTwoRolled;
-        uint32 playerOneRevealed;
-        uint32 playerTwoRevealed;
-        address winner;
-        bool rewardAlreadyClaimed;
-        bool playerOneDrawRefunded;
-        bool playerTwoDrawRefunded;
+        address stakeToken;
+        uint256 stake;
+        uint8 capacity;
+        uint8 diceCount;
+        uint8 faces;
+        bool sealedResult;
+        uint8 bestOf;
+        uint8 currentRound;
+        uint8 maxTieRerolls;
+        uint8 tieRounds;
+        uint16 feeBps;
+        uint256 fee;
+        uint256 maxBet;
+        uint256[] bets;
+        uint8 turn;
+        address[] players;
+        bool[] rolled;
+        uint32[] revealedRolls;
+        uint32 revealedOutcome;
+        bool[] payoutClaimed;
+        uint256[] credits;
+        address[] winners;
+        uint8[] scores;
+        RoundResult[] rounds;
         bool revealPending;
+        uint64 joinDeadline;
+        uint64 rollDeadline;
+        uint64 revealDeadline;
+        uint64 betDeadline;
     }
 
+    address public owner;
+    address public pendingOwner;
+    uint16 public feeBps;
+    mapping(address => uint256) public treasuryBalance;
+    /// @notice Withdrawable winnings and refunds per player and stake asset
+    mapping(address => mapping(address => uint256)) public balances;
+    mapping(address => mapping(address => PlayerRanking.PlayerStats)) private _playerStats;
+    /// @dev Top players per stake asset by wins and by net profit, re-ranked as each of their games is recorded
+    mapping(address => PlayerRanking.Leaderboard) private _leaderboards;
+
     uint256 public nextGameId;
     mapping(uint256 => Game) private games;
-    mapping(uint256 => uint256) private requestToGame;
+    /// @dev Ids of every game a player has joined, in join order
+    mapping(address => uint256[]) private _playerGames;
+    mapping(address => StakeLimits) public tokenStakeLimits;
+    address[] private _allowedTokens;
 
     bool private _claimLock;
 
-    event GameCreated(uint256 indexed gameId, address indexed creator);
+    event GameCreated(uint256 indexed gameId, address indexed creator, address indexed stakeToken, uint256 stake);
     event PlayerJoined(uint256 indexed gameId, address indexed player);
-    event GameReady(uint256 indexed gameId, address indexed playerOne, address indexed playerTwo);
-    event DiceRolled(uint256 indexed gameId, address indexed player);
-    event RevealRequested(uint256 indexed gameId, uint256 requestId);
-    event DiceRevealed(uint256 indexed gameId, uint32 playerOneValue, uint32 playerTwoValue);
-    event GameResolved(
-        uint256 indexed gameId,
-        address indexed winner,
-        uint32 playerOneValue,
-        uint32 playerTwoValue
-    );
+    event GameReady(uint256 indexed gameId, address[] players);
+    event DiceRolled(uint256 indexed gameId, uint8 indexed round, address indexed player);
+    event RevealRequested(uint256 indexed gameId, uint8 indexed round, bytes32[] handles);
+    event DiceRevealed(uint256 indexed gameId, uint8 indexed round, uint32[] values);
+    event OutcomeRevealed(uint256 indexed gameId, uint8 indexed round, uint32 winnerMask);
+    event RoundResolved(uint256 indexed gameId, uint8 indexed round, uint32 winnerMask, uint8[] scores);
+    event RoundStarted(uint256 indexed gameId, uint8 indexed round);
+    event TieRound(uint256 indexed gameId, uint8 indexed round, uint8 tieRounds);
+    event GameResolved(uint256 indexed gameId, address[] winners, uint32 topRoll);
+    event SealedGameResolved(uint256 indexed gameId, address[] winners);
     event RewardClaimed(uint256 indexed gameId, address indexed winner, uint256 amount);
     event DrawRefundClaimed(uint256 indexed gameId, address indexed player, uint256 amount);
+    event GameCancelled(uint256 indexed gameId, address indexed cancelledBy);
+    event GameForfeited(uint256 indexed gameId, address[] winners);
+    event StakeReclaimed(uint256 indexed gameId, address indexed player, uint256 amount);
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event FeeUpdated(uint16 previousFeeBps, uint16 newFeeBps);
+    event FeeCollected(uint256 indexed gameId, address indexed stakeToken, uint256 amount);
+    event TreasuryWithdrawn(address indexed stakeToken, address indexed to, uint256 amount);
+    event BalanceCredited(uint256 indexed gameId, address indexed player, address indexed stakeToken, uint256 amount);
+    event Withdrawn(address indexed player, address indexed stakeToken, uint256 amount);
+    event BettingOpened(uint256 indexed gameId, address indexed firstToAct);
+    event BetRaised(uint256 indexed gameId, address indexed player, uint256 bet);
+    event BetCalled(uint256 indexed gameId, address indexed player, uint256 bet);
+    event PlayerFolded(uint256 indexed gameId, address indexed player);
 
     error GameDoesNotExist();
     error GameNotReady();
@@ -75,6 +196,17 @@ contract SecretDice is ZamaEthereumConfig {
     error NotParticipant();
     error AlreadyRolled();
     error IncorrectEntryFee();
+    error InvalidStake();
+    error InvalidCapacity();
+    error InvalidDiceConfig();
+    error InvalidSeriesLength();
+    error InvalidTieRerolls();
+    error InvalidBetRules();
+    error InvalidBet();
+    error NotYourTurn();
+    error InvalidStakeBounds();
+    error InvalidToken();
+    error TokenNotAllowed();
     error GameNotCompleted();
     error RewardAlreadyClaimed();
     error GameDrawn();
@@ -82,68 +214,205 @@ contract SecretDice is ZamaEthereumConfig {
     error RefundAlreadyClaimed();
     error InvalidPlayerIndex();
     error RevealInProgress();
-    error UnknownDecryptionRequest();
+    error RevealNotPending();
+    error DeadlinePassed();
+    error DeadlineNotReached();
+    error ForfeitNotAvailable();
+    error ReclaimNotAvailable();
+    error NotOwner();
+    error NotPendingOwner();
+    error InvalidOwner();
+    error FeeTooHigh();
+    error InvalidRecipient();
+    error InsufficientTreasury();
+    error InsufficientBalance();
+
+    /// @param minStake Smallest ETH stake a game creator may choose
+    /// @param maxStake Largest ETH stake a game creator may choose
+    /// @param tokens ERC-20 tokens allowed as stake assets, with their own stake bounds in token units
+    /// @param initialFeeBps Protocol fee taken from decisive pots, in basis points (at most `MAX_FEE_BPS`)
+    /// @param initialOwner Account that administers the fee and withdraws the treasury
+    constructor(
+        uint256 minStake,
+        uint256 maxStake,
+        TokenConfig[] memory tokens,
+        uint16 initialFeeBps,
+        address initialOwner
+    ) {
+        if (minStake == 0 || minStake > maxStake) {
+            revert InvalidStakeBounds();
+        }
+        MIN_STAKE = minStake;
+        MAX_STAKE = maxStake;
+
+        if (initialOwner == address(0)) {
+            revert InvalidOwner();
+        }
+        owner = initialOwner;
+        emit OwnershipTransferred(address(0), initialOwner);
+
+        _setFee(initialFeeBps);
+
+        for (uint256 i = 0; i < tokens.length; i++) {
+            TokenConfig memory config = tokens[i];
+            if (config.token == address(0) || config.token.code.length == 0) {
+                revert InvalidToken();
+            }
+            if (config.minStake == 0 || config.minStake > config.maxStake) {
+                revert InvalidStakeBounds();
+            }
+            if (tokenStakeLimits[config.token].maxStake != 0) {
+                revert InvalidToken();
+            }
+            tokenStakeLimits[config.token] = StakeLimits(config.minStake, config.maxStake);
+            _allowedTokens.push(config.token);
+        }
+    }
 
     modifier gameExists(uint256 gameId) {
+        _requireGame(gameId);
+        _;
+    }
+
+    function _requireGame(uint256 gameId) private view {
         if (gameId >= nextGameId) {
             revert GameDoesNotExist();
         }
+    }
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) {
+            revert NotOwner();
+        }
         _;
     }
 
     modifier nonReentrant() {
+        _lock();
+        _;
+        _claimLock = false;
+    }
+
+    function _lock() private {
         if (_claimLock) {
             revert("ReentrancyGuard: reentrant call");
         }
         _claimLock = true;
-        _;
-        _claimLock = false;
     }
 
     /// @notice Create a new dice game lobby
+    /// @param stakeToken Stake asset: `address(0)` for native ETH or an allowlisted ERC-20
+    /// @param stake Amount each player must pay to join, within the asset's stake bounds
+    /// @param rules Table size (`MIN_PLAYERS`-`MAX_PLAYERS`), dice per player (1-`MAX_DICE`), faces per die
+    ///        (4, 6, 8, 10, 12 or 20), whether only the encrypted outcome is ever revealed, the series
+    ///        length (best of 1, 3, 5 or 7 rounds) and how many sudden-death re-rolls a draw may trigger
+    ///        (up to `MAX_TIE_REROLLS`, 0 refunds draws immediately). A non-zero `maxBet` turns a heads-up,
+    ///        single-round table into a bluff game with a betting round capped at `maxBet` extra per player.
     /// @return gameId Identifier of the newly created game
-    function createGame() external returns (uint256 gameId) {
+    function createGame(
+        address stakeToken,
+        uint256 stake,
+        GameRules calldata rules
+    ) external returns (uint256 gameId) {
+        (uint256 minStake, uint256 maxStake) = getStakeLimits(stakeToken);
+
+        if (stake < minStake || stake > maxStake) {
+            revert InvalidStake();
+        }
+
+        if (rules.capacity < MIN_PLAYERS || rules.capacity > MAX_PLAYERS) {
+            revert InvalidCapacity();
+        }
+
+        if (rules.diceCount == 0 || rules.diceCount > MAX_DICE || !DiceRolls.isSupportedDie(rules.faces)) {
+            revert InvalidDiceConfig();
+        }
+
+        if (rules.bestOf == 0 || rules.bestOf > MAX_SERIES_LENGTH || rules.bestOf % 2 == 0) {
+            revert InvalidSeriesLength();
+        }
+
+        if (rules.maxTieRerolls > MAX_TIE_REROLLS) {
+            revert InvalidTieRerolls();
+        }
+
+        if (
+            rules.maxBet > 0 &&
+            (rules.capacity != 2 || rules.bestOf != 1 || rules.maxTieRerolls != 0 || rules.maxBet > maxStake)
+        ) {
+            revert InvalidBetRules();
+        }
+
         gameId = nextGameId;
         nextGameId += 1;
 
         Game storage game = games[gameId];
         game.creator = msg.sender;
+        game.stakeToken = stakeToken;
+        game.stake = stake;
+        game.capacity = rules.capacity;
+        game.diceCount = rules.diceCount;
+        game.faces = rules.faces;
+        game.sealedResult = rules.sealedResult;
+        game.bestOf = rules.bestOf;
+        game.currentRound = 1;
+        game.maxTieRerolls = rules.maxTieRerolls;
+        game.maxBet = rules.maxBet;
+        game.feeBps = feeBps;
         game.status = GameStatus.WaitingForPlayers;
+        game.joinDeadline = uint64(block.timestamp + JOIN_TIMEOUT);
 
-        emit GameCreated(gameId, msg.sender);
+        emit GameCreated(gameId, msg.sender, stakeToken, stake);
     }
 
-    /// @notice Join an existing game by paying the entry fee
+    /// @notice Join an existing game by paying its stake
+    /// @dev Token games pull the stake with `transferFrom`, so the caller must approve it first
     /// @param gameId Identifier of the game to join
-    function joinGame(uint256 gameId) external payable gameExists(gameId) {
+    function joinGame(uint256 gameId) external payable nonReentrant gameExists(gameId) {
         Game storage game = games[gameId];
 
-        if (msg.value != ENTRY_FEE) {
-            revert IncorrectEntryFee();
-        }
-
         if (game.status != GameStatus.WaitingForPlayers) {
             revert GameNotReady();
         }
 
-        if (game.players[0] == msg.sender || game.players[1] == msg.sender) {
-            revert AlreadyJoined();
+        if (block.timestamp > game.joinDeadline) {
+            revert DeadlinePassed();
         }
 
-        if (game.players[0] == address(0)) {
-            game.players[0] = msg.sender;
-        } else if (game.players[1] == address(0)) {
-            game.players[1] = msg.sender;
-            game.status = GameStatus.WaitingForRolls;
-            emit GameReady(gameId, game.players[0], game.players[1]);
-        } else {
+        if (game.players.length >= game.capacity) {
             revert GameFull();
         }
 
+        for (uint256 i = 0; i < game.players.length; i++) {
+            if (game.players[i] == msg.sender) {
+                revert AlreadyJoined();
+            }
+        }
+
+        game.players.push(msg.sender);
+        _playerGames[msg.sender].push(gameId);
+        game.hasRolled.push(false);
+        game.encryptedRolls.push();
+        game.revealedRolls.push(0);
+        game.payoutClaimed.push(false);
+        game.credits.push(0);
+        game.bets.push(0);
+        game.scores.push(0);
+
+        if (game.players.length == game.capacity) {
+            game.status = GameStatus.WaitingForRolls;
+            game.rollDeadline = uint64(block.timestamp + ROLL_TIMEOUT);
+            emit GameReady(gameId, game.players);
+        }
+
+        _collectPayment(game.stakeToken, game.stake);
+
         emit PlayerJoined(gameId, msg.sender);
     }
 
-    /// @notice Roll the dice for the calling player
+    /// @notice Roll the dice for the calling player in the current round
+    /// @dev Each die is drawn independently and the total is summed homomorphically, so only totals are revealed.
+    ///      Only the contract and the roller may decrypt the total before the reveal.
     /// @param gameId Identifier of the game to roll in
     function rollDice(uint256 gameId) external gameExists(gameId) {
         Game storage game = games[gameId];
@@ -152,63 +421,123 @@ contract SecretDice is ZamaEthereumConfig {
             revert GameNotReady();
         }
 
+        if (block.timestamp > game.rollDeadline) {
+            revert DeadlinePassed();
+        }
+
         uint256 playerIndex = _playerIndex(game, msg.sender);
 
         if (game.hasRolled[playerIndex]) {
             revert AlreadyRolled();
         }
 
-        euint32 randomValue = FHE.randEuint32();
-        euint32 diceRoll = FHE.add(FHE.rem(randomValue, 6), FHE.asEuint32(1));
+        euint32 diceRoll = _drawRoll(gameId, playerIndex, game.diceCount, game.faces);
 
         FHE.allowThis(diceRoll);
-        FHE.allow(diceRoll, game.players[playerIndex]);
-
-        address opponent = playerIndex == 0 ? game.players[1] : game.players[0];
-        if (opponent != address(0)) {
-            FHE.allow(diceRoll, opponent);
-        }
+        FHE.allow(diceRoll, msg.sender);
 
         game.encryptedRolls[playerIndex] = diceRoll;
         game.hasRolled[playerIndex] = true;
+        game.rollCount += 1;
+
+        emit DiceRolled(gameId, game.currentRound, msg.sender);
+
+        if (game.rollCount == game.capacity) {
+            if (game.maxBet > 0) {
+                game.status = GameStatus.Betting;
+                game.betDeadline = uint64(block.timestamp + BET_TIMEOUT);
+                emit BettingOpened(gameId, game.players[0]);
+            } else {
+                _initiateReveal(gameId);
+            }
+        }
+    }
 
-        emit DiceRolled(gameId, msg.sender);
+    /// @notice Raise the bet in a bluff game after privately checking your own roll
+    /// @dev The caller pays whatever is needed to match the opponent's bet plus `amount`; a player's total bet
+    ///      may not exceed the game's `maxBet`. Token games pull the payment with `transferFrom`.
+    /// @param gameId Identifier of the game
+    /// @param amount Amount to raise above the opponent's current bet
+    function raiseBet(uint256 gameId, uint256 amount) external payable nonReentrant gameExists(gameId) {
+        Game storage game = games[gameId];
+        (uint256 playerIndex, uint256 opponentIndex) = _requireTurn(game);
+
+        uint256 bet = game.bets[opponentIndex] + amount;
+        if (amount == 0 || bet > game.maxBet) {
+            revert InvalidBet();
+        }
+
+        _placeBet(game, playerIndex, bet);
+        game.betActions += 1;
+        game.turn = uint8(opponentIndex);
+        game.betDeadline = uint64(block.timestamp + BET_TIMEOUT);
 
-        if (game.hasRolled[0] && game.hasRolled[1]) {
+        emit BetRaised(gameId, msg.sender, bet);
+    }
+
+    /// @notice Match the opponent's bet in a bluff game
+    /// @dev Opening with nothing to match is a check that passes the turn; any other call closes the betting and
+    ///      requests the reveal
+    /// @param gameId Identifier of the game
+    function callBet(uint256 gameId) external payable nonReentrant gameExists(gameId) {
+        Game storage game = games[gameId];
+        (uint256 playerIndex, uint256 opponentIndex) = _requireTurn(game);
+
+        uint256 bet = game.bets[opponentIndex];
+        _placeBet(game, playerIndex, bet);
+
+        emit BetCalled(gameId, msg.sender, bet);
+
+        if (game.betActions == 0 && bet == 0) {
+            game.betActions = 1;
+            game.turn = uint8(opponentIndex);
+            game.betDeadline = uint64(block.timestamp + BET_TIMEOUT);
+        } else {
             _initiateReveal(gameId);
         }
     }
 
-    /// @notice Claim the accumulated reward when the caller wins the game
+    /// @notice Concede a bluff game; the opponent takes the pot and no roll is ever revealed
+    /// @param gameId Identifier of the game
+    function fold(uint256 gameId) external nonReentrant gameExists(gameId) {
+        Game storage game = games[gameId];
+        (uint256 playerIndex, ) = _requireTurn(game);
+
+        _fold(gameId, game, playerIndex);
+    }
+
+    /// @notice Withdraw the caller's share of one game
+    /// @dev Compatibility shim: shares are credited to `balances` when the game resolves, so this pays the
+    ///      game's credit out of the caller's balance. Reverts once that balance has already been withdrawn.
     /// @param gameId Identifier of the game to claim against
     function claimReward(uint256 gameId) external nonReentrant gameExists(gameId) {
         Game storage game = games[gameId];
 
-        if (game.status != GameStatus.Completed) {
+        if (game.status != GameStatus.Completed && game.status != GameStatus.Forfeited) {
             revert GameNotCompleted();
         }
 
-        if (game.rewardClaimed) {
-            revert RewardAlreadyClaimed();
-        }
-
-        if (game.winner == address(0)) {
+        if (game.status == GameStatus.Completed && game.winners.length == game.players.length) {
             revert GameDrawn();
         }
 
-        if (msg.sender != game.winner) {
+        if (!_isWinner(game, msg.sender)) {
             revert NotWinner();
         }
 
-        game.rewardClaimed = true;
+        uint256 playerIndex = _playerIndex(game, msg.sender);
 
-        (bool success, ) = msg.sender.call{value: REWARD_AMOUNT}("");
-        require(success, "Transfer failed");
+        if (game.payoutClaimed[playerIndex]) {
+            revert RewardAlreadyClaimed();
+        }
+
+        uint256 reward = _payCredit(game, playerIndex);
 
-        emit RewardClaimed(gameId, msg.sender, REWARD_AMOUNT);
+        emit RewardClaimed(gameId, msg.sender, reward);
     }
 
-    /// @notice Claim a refund when the game ends in a draw
+    /// @notice Withdraw the caller's refund when every player tied for the top roll
+    /// @dev Compatibility shim over `balances`, see `claimReward`
     /// @param gameId Identifier of the game
     function claimDrawRefund(uint256 gameId) external nonReentrant gameExists(gameId) {
         Game storage game = games[gameId];
@@ -217,22 +546,116 @@ contract SecretDice is ZamaEthereumConfig {
             revert GameNotCompleted();
         }
 
-        if (game.winner != address(0)) {
+        if (game.winners.length != game.players.length) {
             revert GameDrawn();
         }
 
         uint256 playerIndex = _playerIndex(game, msg.sender);
 
-        if (game.drawRefundClaimed[playerIndex]) {
+        if (game.payoutClaimed[playerIndex]) {
             revert RefundAlreadyClaimed();
         }
 
-        game.drawRefundClaimed[playerIndex] = true;
+        uint256 refund = _payCredit(game, playerIndex);
+
+        emit DrawRefundClaimed(gameId, msg.sender, refund);
+    }
+
+    /// @notice Cancel a lobby that did not fill before its join deadline
+    /// @dev Credits every seated player's stake to `balances` and pays the caller out when they hold a seat
+    /// @param gameId Identifier of the game to cancel
+    function cancelGame(uint256 gameId) external nonReentrant gameExists(gameId) {
+        Game storage game = games[gameId];
+
+        if (game.status != GameStatus.WaitingForPlayers) {
+            revert GameNotReady();
+        }
+
+        if (block.timestamp <= game.joinDeadline) {
+            revert DeadlineNotReached();
+        }
+
+        (bool seated, uint256 playerIndex) = _findPlayer(game, msg.sender);
+        if (msg.sender != game.creator && !seated) {
+            revert NotParticipant();
+        }
+
+        game.status = GameStatus.Cancelled;
+
+        emit GameCancelled(gameId, msg.sender);
+
+        _finalizeGame(gameId, game);
+
+        if (seated) {
+            emit StakeReclaimed(gameId, msg.sender, _payCredit(game, playerIndex));
+        }
+    }
+
+    /// @notice Win by forfeit when other players did not roll before the roll deadline
+    /// @dev Every player who rolled in time shares the pot; shares are credited to `balances` and the caller's
+    ///      share is paid immediately. In a bluff game, a player who misses the betting deadline folds.
+    /// @param gameId Identifier of the game
+    function claimForfeit(uint256 gameId) external nonReentrant gameExists(gameId) {
+        Game storage game = games[gameId];
+
+        if (game.status == GameStatus.Betting) {
+            _claimBettingForfeit(gameId, game);
+            return;
+        }
+
+        if (game.status != GameStatus.WaitingForRolls) {
+            revert GameNotReady();
+        }
+
+        if (block.timestamp <= game.rollDeadline) {
+            revert DeadlineNotReached();
+        }
 
-        (bool success, ) = msg.sender.call{value: ENTRY_FEE}("");
-        require(success, "Transfer failed");
+        uint256 playerIndex = _playerIndex(game, msg.sender);
 
-        emit DrawRefundClaimed(gameId, msg.sender, ENTRY_FEE);
+        if (!game.hasRolled[playerIndex]) {
+            revert ForfeitNotAvailable();
+        }
+
+        game.status = GameStatus.Forfeited;
+        for (uint256 i = 0; i < game.players.length; i++) {
+            if (game.hasRolled[i]) {
+                game.winners.push(game.players[i]);
+            }
+        }
+
+        emit GameForfeited(gameId, game.winners);
+
+        _finalizeGame(gameId, game);
+
+        uint256 reward = _payCredit(game, playerIndex);
+
+        emit RewardClaimed(gameId, msg.sender, reward);
+    }
+
+    /// @notice Reclaim the stake when a game was cancelled or expired without a result
+    /// @dev Available once the reveal deadline passes without a reveal, or once the roll deadline passes
+    ///      without any player rolling. Expiring a game credits every stake to `balances`; this pays the caller's.
+    /// @param gameId Identifier of the game
+    function reclaimStake(uint256 gameId) external nonReentrant gameExists(gameId) {
+        Game storage game = games[gameId];
+
+        if (game.status != GameStatus.Expired && game.status != GameStatus.Cancelled) {
+            if (!_isExpired(game)) {
+                revert ReclaimNotAvailable();
+            }
+            game.status = GameStatus.Expired;
+            game.decryptionPending = false;
+            _finalizeGame(gameId, game);
+        }
+
+        uint256 playerIndex = _playerIndex(game, msg.sender);
+
+        if (game.payoutClaimed[playerIndex]) {
+            revert RefundAlreadyClaimed();
+        }
+
+        emit StakeReclaimed(gameId, msg.sender, _payCredit(game, playerIndex));
     }
 
     /// @notice Fetch human-readable information about a game
@@ -241,65 +664,238 @@ contract SecretDice is ZamaEthereumConfig {
 
         viewData.status = game.status;
         viewData.creator = game.creator;
-        viewData.playerOne = game.players[0];
-        viewData.playerTwo = game.players[1];
-        viewData.playerOneRolled = game.hasRolled[0];
-        viewData.playerTwoRolled = game.hasRolled[1];
-        viewData.playerOneRevealed = game.revealedRolls[0];
-        viewData.playerTwoRevealed = game.revealedRolls[1];
-        viewData.winner = game.winner;
-        viewData.rewardAlreadyClaimed = game.rewardClaimed;
-        viewData.playerOneDrawRefunded = game.drawRefundClaimed[0];
-        viewData.playerTwoDrawRefunded = game.drawRefundClaimed[1];
+        viewData.stakeToken = game.stakeToken;
+        viewData.stake = game.stake;
+        viewData.capacity = game.capacity;
+        viewData.diceCount = game.diceCount;
+        viewData.faces = game.faces;
+        viewData.sealedResult = game.sealedResult;
+        viewData.bestOf = game.bestOf;
+        viewData.currentRound = game.currentRound;
+        viewData.maxTieRerolls = game.maxTieRerolls;
+        viewData.tieRounds = game.tieRounds;
+        viewData.feeBps = game.feeBps;
+        viewData.fee = game.fee;
+        viewData.maxBet = game.maxBet;
+        viewData.bets = game.bets;
+        viewData.turn = game.turn;
+        viewData.players = game.players;
+        viewData.rolled = game.hasRolled;
+        viewData.revealedRolls = game.revealedRolls;
+        viewData.revealedOutcome = game.revealedOutcome;
+        viewData.payoutClaimed = game.payoutClaimed;
+        viewData.credits = game.credits;
+        viewData.winners = game.winners;
+        viewData.scores = game.scores;
+        viewData.rounds = game.rounds;
         viewData.revealPending = game.decryptionPending;
+        viewData.joinDeadline = game.joinDeadline;
+        viewData.rollDeadline = game.rollDeadline;
+        viewData.revealDeadline = game.revealDeadline;
+        viewData.betDeadline = game.betDeadline;
+    }
+
+    /// @notice Stored status of a game, cheap enough for `SecretDiceLens` to scan many games per call
+    /// @param gameId Identifier of the game
+    function getGameStatus(uint256 gameId) external view gameExists(gameId) returns (GameStatus) {
+        return games[gameId].status;
+    }
+
+    /// @notice Ids of every game a player has joined, oldest first
+    /// @param player Player address
+    function getPlayerGames(address player) external view returns (uint256[] memory) {
+        return _playerGames[player];
     }
 
     /// @notice Get the encrypted roll for a player index
     /// @param gameId Identifier of the game
-    /// @param playerIndex Player position (0 or 1)
+    /// @param playerIndex Seat position, in join order
     function getEncryptedRoll(uint256 gameId, uint8 playerIndex)
         external
         view
         gameExists(gameId)
         returns (bytes32)
     {
-        if (playerIndex > 1) {
+        Game storage game = games[gameId];
+
+        if (playerIndex >= game.players.length) {
             revert InvalidPlayerIndex();
         }
 
-        Game storage game = games[gameId];
         return FHE.toBytes32(game.encryptedRolls[playerIndex]);
     }
 
-    /// @notice Total ETH currently locked inside a game pot
+    /// @notice Handles that must be publicly decrypted and passed to `finalizeReveal`
+    /// @dev One roll handle per seat, or the single encrypted outcome handle for sealed-result games
+    /// @param gameId Identifier of the game
+    function getRevealHandles(uint256 gameId) external view gameExists(gameId) returns (bytes32[] memory) {
+        return _revealHandles(games[gameId]);
+    }
+
+    /// @notice Stake bounds for an asset
+    /// @param stakeToken `address(0)` for native ETH or an allowlisted ERC-20
+    /// @return minStake Smallest allowed stake
+    /// @return maxStake Largest allowed stake
+    function getStakeLimits(address stakeToken) public view returns (uint256 minStake, uint256 maxStake) {
+        if (stakeToken == address(0)) {
+            return (MIN_STAKE, MAX_STAKE);
+        }
+
+        StakeLimits storage limits = tokenStakeLimits[stakeToken];
+        if (limits.maxStake == 0) {
+            revert TokenNotAllowed();
+        }
+        return (limits.minStake, limits.maxStake);
+    }
+
+    /// @notice ERC-20 tokens that can be used as stake assets
+    function getAllowedTokens() external view returns (address[] memory) {
+        return _allowedTokens;
+    }
+
+    /// @notice Amount of the game's stake asset still held for an unresolved game
+    /// @dev Drops to zero once the game resolves: shares move to `balances` and fees to `treasuryBalance`
     /// @param gameId Identifier of the game
     function getGamePot(uint256 gameId) external view gameExists(gameId) returns (uint256) {
         Game storage game = games[gameId];
+        return _grossPot(game) - game.fee - game.credited;
+    }
+
+    /// @notice Lifetime results of a player in one stake asset
+    /// @param player Player address
+    /// @param stakeToken `address(0)` for native ETH or an allowlisted ERC-20
+    function getPlayerStats(
+        address player,
+        address stakeToken
+    ) external view returns (PlayerRanking.PlayerStats memory) {
+        return _playerStats[player][stakeToken];
+    }
+
+    /// @notice One page of a stake asset's leaderboard, best first
+    /// @param stakeToken `address(0)` for native ETH or an allowlisted ERC-20
+    /// @param order Ranking to read
+    /// @param offset Number of ranked players to skip
+    /// @param limit Maximum number of players to return
+    /// @return players Ranked players on the page
+    /// @return total Number of ranked players, at most `PlayerRanking.MAX_RANKED`
+    function getLeaderboard(
+        address stakeToken,
+        LeaderboardOrder order,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory players, uint256 total) {
+        return PlayerRanking.page(_leaderboards[stakeToken], order == LeaderboardOrder.NetProfit, offset, limit);
+    }
+
+    /// @notice Withdraw part of the caller's credited winnings and refunds
+    /// @param stakeToken `address(0)` for native ETH or an allowlisted ERC-20
+    /// @param amount Amount to withdraw
+    function withdraw(address stakeToken, uint256 amount) external nonReentrant {
+        _withdraw(stakeToken, msg.sender, amount);
+    }
 
-        uint256 playerCount;
-        if (game.players[0] != address(0)) {
-            playerCount += 1;
+    /// @notice Withdraw the caller's whole balance of one stake asset
+    /// @param stakeToken `address(0)` for native ETH or an allowlisted ERC-20
+    /// @return amount Amount paid out
+    function withdrawAll(address stakeToken) external nonReentrant returns (uint256 amount) {
+        amount = balances[msg.sender][stakeToken];
+        _withdraw(stakeToken, msg.sender, amount);
+    }
+
+    /// @notice Start a two-step ownership transfer; the new owner must call `acceptOwnership`
+    /// @param newOwner Proposed owner, or `address(0)` to cancel a pending transfer
+    function transferOwnership(address newOwner) external onlyOwner {
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
+    }
+
+    /// @notice Complete a pending ownership transfer
+    function acceptOwnership() external {
+        if (msg.sender != pendingOwner) {
+            revert NotPendingOwner();
+        }
+        emit OwnershipTransferred(owner, msg.sender);
+        owner = msg.sender;
+        pendingOwner = address(0);
+    }
+
+    /// @notice Update the protocol fee applied to games created from now on
+    /// @param newFeeBps Fee in basis points, at most `MAX_FEE_BPS`
+    function setFee(uint16 newFeeBps) external onlyOwner {
+        _setFee(newFeeBps);
+    }
+
+    /// @notice Withdraw accrued protocol fees of one stake asset
+    /// @param stakeToken Asset to withdraw: `address(0)` for ETH or an ERC-20 stake token
+    /// @param to Recipient of the fees
+    /// @param amount Amount to withdraw, at most `treasuryBalance[stakeToken]`
+    function withdrawTreasury(address stakeToken, address to, uint256 amount) external onlyOwner nonReentrant {
+        if (to == address(0)) {
+            revert InvalidRecipient();
         }
-        if (game.players[1] != address(0)) {
-            playerCount += 1;
+        if (amount > treasuryBalance[stakeToken]) {
+            revert InsufficientTreasury();
         }
 
-        if (game.status == GameStatus.Completed && game.winner != address(0) && game.rewardClaimed) {
-            return 0;
+        treasuryBalance[stakeToken] -= amount;
+        _transferAsset(stakeToken, to, amount);
+
+        emit TreasuryWithdrawn(stakeToken, to, amount);
+    }
+
+    /// @notice Submit the public decryption of the reveal handles and score the current round
+    /// @dev `cleartexts` and `decryptionProof` come from the relayer public decryption of the handles
+    ///      returned by `getRevealHandles`, in order. The game resolves once a player clinches the series,
+    ///      otherwise the next round opens for rolling.
+    /// @param gameId Identifier of the game awaiting reveal
+    /// @param cleartexts ABI-encoded decrypted values: one roll total per seat, or the winner bitmask for sealed games
+    /// @param decryptionProof KMS signatures proving the decryption
+    function finalizeReveal(
+        uint256 gameId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external gameExists(gameId) {
+        Game storage game = games[gameId];
+
+        if (game.status != GameStatus.AwaitingReveal || !game.decryptionPending) {
+            revert RevealNotPending();
         }
 
-        if (game.status == GameStatus.Completed && game.winner == address(0)) {
-            uint256 refundsClaimed;
-            if (game.drawRefundClaimed[0]) {
-                refundsClaimed += 1;
-            }
-            if (game.drawRefundClaimed[1]) {
-                refundsClaimed += 1;
-            }
-            return (playerCount - refundsClaimed) * ENTRY_FEE;
+        if (block.timestamp > game.revealDeadline) {
+            revert DeadlinePassed();
         }
 
-        return playerCount * ENTRY_FEE;
+        uint32[] memory rolls = DiceRolls.verifyReveal(_revealHandles(game), cleartexts, decryptionProof);
+
+        game.decryptionPending = false;
+
+        uint32 winnerMask;
+        uint32 topRoll;
+
+        if (game.sealedResult) {
+            winnerMask = rolls[0];
+            rolls = new uint32[](game.players.length);
+            game.revealedOutcome = winnerMask;
+
+            emit OutcomeRevealed(gameId, game.currentRound, winnerMask);
+        } else {
+            (winnerMask, topRoll) = DiceRolls.topRollMask(rolls);
+            game.revealedRolls = rolls;
+
+            emit DiceRevealed(gameId, game.currentRound, rolls);
+        }
+
+        _scoreRound(gameId, game, rolls, winnerMask, topRoll);
+    }
+
+    /// @dev Draws a seat's encrypted total for the current round; virtual so the test harness can inject known rolls
+    function _drawRoll(
+        uint256 /* gameId */,
+        uint256 /* playerIndex */,
+        uint8 diceCount,
+        uint8 faces
+    ) internal virtual returns (euint32) {
+        return DiceRolls.roll(diceCount, faces);
     }
 
     function _initiateReveal(uint256 gameId) private {
@@ -309,76 +905,327 @@ contract SecretDice is ZamaEthereumConfig {
             revert RevealInProgress();
         }
 
-        bytes32[] memory handles = new bytes32[](2);
-        handles[0] = FHE.toBytes32(game.encryptedRolls[0]);
-        handles[1] = FHE.toBytes32(game.encryptedRolls[1]);
-
-        // uint256 requestId = FHE.requestDecryption(handles, this.onDiceDecrypted.selector);
-        FHE.makePubliclyDecryptable(game.encryptedRolls[0]);
-        FHE.makePubliclyDecryptable(game.encryptedRolls[1]);
+        if (game.sealedResult) {
+            game.encryptedOutcome = DiceRolls.winnerMask(game.encryptedRolls);
+            FHE.allowThis(game.encryptedOutcome);
+            FHE.makePubliclyDecryptable(game.encryptedOutcome);
+        } else {
+            for (uint256 i = 0; i < game.encryptedRolls.length; i++) {
+                FHE.makePubliclyDecryptable(game.encryptedRolls[i]);
+            }
+        }
         game.status = GameStatus.AwaitingReveal;
         game.decryptionPending = true;
-        // game.pendingRequestId = requestId;
-        // requestToGame[requestId] = gameId + 1;
+        game.revealDeadline = uint64(block.timestamp + REVEAL_TIMEOUT);
 
-        // emit RevealRequested(gameId, requestId);
+        emit RevealRequested(gameId, game.currentRound, _revealHandles(game));
     }
 
-    function onDiceDecrypted(uint256 requestId, bytes memory cleartexts, bytes memory decryptionProof) public returns (bool) {
-        uint256 stored = requestToGame[requestId];
-        if (stored == 0) {
-            revert UnknownDecryptionRequest();
+    /// @dev Every top roll of a round scores a point. The series ends as soon as a player reaches a majority of
+    ///      `bestOf` rounds or every round has been played; the highest scores then share the pot. A full draw
+    ///      opens a sudden-death round instead while `maxTieRerolls` allows it.
+    function _scoreRound(
+        uint256 gameId,
+        Game storage game,
+        uint32[] memory rolls,
+        uint32 winnerMask,
+        uint32 topRoll
+    ) private {
+        uint8 target = game.bestOf / 2 + 1;
+        uint8 topScore;
+        for (uint256 i = 0; i < game.players.length; i++) {
+            if ((uint256(winnerMask) >> i) & 1 == 1) {
+                game.scores[i] += 1;
+            }
+            if (game.scores[i] > topScore) {
+                topScore = game.scores[i];
+            }
         }
 
-        unchecked {
-            stored -= 1;
+        game.rounds.push(RoundResult(rolls, winnerMask));
+
+        emit RoundResolved(gameId, game.currentRound, winnerMask, game.scores);
+
+        if (topScore < target && game.currentRound < game.bestOf) {
+            _startNextRound(gameId, game);
+            return;
         }
 
-        Game storage game = games[stored];
-        if (!game.decryptionPending || game.pendingRequestId != requestId) {
-            revert UnknownDecryptionRequest();
+        if (_startTieRound(gameId, game, topScore)) {
+            return;
         }
 
-        // FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+        _resolveSeries(gameId, game, topScore, topRoll);
+    }
 
-        uint32[2] memory results = abi.decode(cleartexts, (uint32[2]));
+    /// @dev Opens a sudden-death round when every seat shares the top score and re-rolls remain
+    function _startTieRound(uint256 gameId, Game storage game, uint8 topScore) private returns (bool) {
+        for (uint256 i = 0; i < game.players.length; i++) {
+            if (game.scores[i] != topScore) {
+                return false;
+            }
+        }
 
-        game.revealedRolls[0] = results[0];
-        game.revealedRolls[1] = results[1];
-        game.decryptionPending = false;
-        game.pendingRequestId = 0;
+        if (game.tieRounds >= game.maxTieRerolls) {
+            return false;
+        }
 
-        delete requestToGame[requestId];
+        game.tieRounds += 1;
+        emit TieRound(gameId, game.currentRound, game.tieRounds);
+        _startNextRound(gameId, game);
+        return true;
+    }
 
-        emit DiceRevealed(stored, results[0], results[1]);
+    /// @dev Completes the game with every seat on the top score as a winner and credits the pot
+    function _resolveSeries(uint256 gameId, Game storage game, uint8 topScore, uint32 topRoll) private {
+        for (uint256 i = 0; i < game.players.length; i++) {
+            if (game.scores[i] == topScore) {
+                game.winners.push(game.players[i]);
+            }
+        }
 
-        _finalizeGame(stored, game, results[0], results[1]);
+        game.status = GameStatus.Completed;
 
-        return true;
-    }
+        _finalizeGame(gameId, game);
 
-    function _finalizeGame(uint256 gameId, Game storage game, uint32 playerOneRoll, uint32 playerTwoRoll) private {
-        if (playerOneRoll > playerTwoRoll) {
-            game.winner = game.players[0];
-        } else if (playerTwoRoll > playerOneRoll) {
-            game.winner = game.players[1];
+        if (game.sealedResult) {
+            emit SealedGameResolved(gameId, game.winners);
         } else {
-            game.winner = address(0);
+            emit GameResolved(gameId, game.winners, topRoll);
         }
+    }
 
-        game.status = GameStatus.Completed;
+    function _startNextRound(uint256 gameId, Game storage game) private {
+        game.currentRound += 1;
+        game.rollCount = 0;
+        for (uint256 i = 0; i < game.players.length; i++) {
+            game.hasRolled[i] = false;
+        }
+        game.status = GameStatus.WaitingForRolls;
+        game.rollDeadline = uint64(block.timestamp + ROLL_TIMEOUT);
 
-        emit GameResolved(gameId, game.winner, playerOneRoll, playerTwoRoll);
+        emit RoundStarted(gameId, game.currentRound);
     }
 
-    function _playerIndex(Game storage game, address player) private view returns (uint256) {
-        if (game.players[0] == player) {
-            return 0;
+    function _revealHandles(Game storage game) private view returns (bytes32[] memory handles) {
+        if (game.sealedResult) {
+            handles = new bytes32[](1);
+            handles[0] = FHE.toBytes32(game.encryptedOutcome);
+            return handles;
+        }
+
+        handles = new bytes32[](game.encryptedRolls.length);
+        for (uint256 i = 0; i < handles.length; i++) {
+            handles[i] = FHE.toBytes32(game.encryptedRolls[i]);
+        }
+    }
+
+    function _setFee(uint16 newFeeBps) private {
+        if (newFeeBps > MAX_FEE_BPS) {
+            revert FeeTooHigh();
         }
-        if (game.players[1] == player) {
-            return 1;
+        emit FeeUpdated(feeBps, newFeeBps);
+        feeBps = newFeeBps;
+    }
+
+    /// @dev Only decisive results pay the fee; full draws, cancellations and expiries refund every stake untouched
+    function _collectFee(uint256 gameId, Game storage game) private {
+        if (game.winners.length == 0 || game.winners.length == game.players.length || game.feeBps == 0) {
+            return;
+        }
+
+        uint256 fee = (_grossPot(game) * game.feeBps) / BPS_DENOMINATOR;
+        game.fee = fee;
+        treasuryBalance[game.stakeToken] += fee;
+
+        emit FeeCollected(gameId, game.stakeToken, fee);
+    }
+
+    /// @dev Moves the pot into `balances`: winners split it after the fee, with the last winner in seat order
+    ///      taking any rounding dust; a game without winners refunds every stake and bet
+    function _finalizeGame(uint256 gameId, Game storage game) private {
+        _collectFee(gameId, game);
+
+        uint256 total = _grossPot(game) - game.fee;
+        bool refund = game.winners.length == 0;
+        uint256 unpaidWinners = game.winners.length;
+
+        for (uint256 i = 0; i < game.players.length; i++) {
+            uint256 amount;
+            if (refund) {
+                amount = game.stake + game.bets[i];
+            } else if (_isWinner(game, game.players[i])) {
+                unpaidWinners -= 1;
+                amount = unpaidWinners == 0 ? total - game.credited : total / game.winners.length;
+            } else {
+                continue;
+            }
+
+            game.credits[i] = amount;
+            game.credited += amount;
+            balances[game.players[i]][game.stakeToken] += amount;
+
+            emit BalanceCredited(gameId, game.players[i], game.stakeToken, amount);
+        }
+
+        if (!refund) {
+            _recordStats(game);
+        }
+    }
+
+    /// @dev A full draw counts as a draw for every seat; otherwise credited seats score a win and the rest a loss
+    function _recordStats(Game storage game) private {
+        bool draw = game.winners.length == game.players.length;
+
+        for (uint256 i = 0; i < game.players.length; i++) {
+            PlayerRanking.record(
+                _playerStats[game.players[i]][game.stakeToken],
+                _leaderboards[game.stakeToken],
+                game.players[i],
+                game.stake + game.bets[i],
+                game.credits[i],
+                draw
+            );
+        }
+    }
+
+    function _grossPot(Game storage game) private view returns (uint256) {
+        return game.stake * game.players.length + game.betTotal;
+    }
+
+    /// @dev Checks that the caller is the heads-up player to act before the betting deadline
+    function _requireTurn(Game storage game) private view returns (uint256 playerIndex, uint256 opponentIndex) {
+        if (game.status != GameStatus.Betting) {
+            revert GameNotReady();
+        }
+
+        if (block.timestamp > game.betDeadline) {
+            revert DeadlinePassed();
+        }
+
+        playerIndex = _playerIndex(game, msg.sender);
+        if (playerIndex != game.turn) {
+            revert NotYourTurn();
+        }
+        opponentIndex = 1 - playerIndex;
+    }
+
+    /// @dev Raises the seat's bet to `bet`, taking the difference from the caller
+    function _placeBet(Game storage game, uint256 playerIndex, uint256 bet) private {
+        uint256 payment = bet - game.bets[playerIndex];
+
+        game.bets[playerIndex] = bet;
+        game.betTotal += payment;
+
+        _collectPayment(game.stakeToken, payment);
+    }
+
+    /// @dev Takes `amount` of the stake asset from the caller: ETH must be sent as `msg.value`, tokens are pulled
+    function _collectPayment(address stakeToken, uint256 amount) private {
+        if (msg.value != (stakeToken == address(0) ? amount : 0)) {
+            revert IncorrectEntryFee();
+        }
+
+        if (stakeToken != address(0) && amount > 0) {
+            _pullToken(stakeToken, msg.sender, amount);
+        }
+    }
+
+    /// @dev Folds the player to act once the betting deadline has passed and pays the caller, their opponent
+    function _claimBettingForfeit(uint256 gameId, Game storage game) private {
+        if (block.timestamp <= game.betDeadline) {
+            revert DeadlineNotReached();
+        }
+
+        uint256 winnerIndex = _playerIndex(game, msg.sender);
+        if (winnerIndex == game.turn) {
+            revert ForfeitNotAvailable();
+        }
+
+        _fold(gameId, game, game.turn);
+        emit RewardClaimed(gameId, msg.sender, _payCredit(game, winnerIndex));
+    }
+
+    function _fold(uint256 gameId, Game storage game, uint256 playerIndex) private {
+        game.status = GameStatus.Forfeited;
+        game.winners.push(game.players[1 - playerIndex]);
+
+        emit PlayerFolded(gameId, game.players[playerIndex]);
+        emit GameForfeited(gameId, game.winners);
+
+        _finalizeGame(gameId, game);
+    }
+
+    /// @dev Pays one seat's credit out of its balance for the per-game claim shims
+    function _payCredit(Game storage game, uint256 playerIndex) private returns (uint256 amount) {
+        game.payoutClaimed[playerIndex] = true;
+        amount = game.credits[playerIndex];
+        _withdraw(game.stakeToken, game.players[playerIndex], amount);
+    }
+
+    function _withdraw(address stakeToken, address player, uint256 amount) private {
+        if (amount == 0 || amount > balances[player][stakeToken]) {
+            revert InsufficientBalance();
+        }
+
+        balances[player][stakeToken] -= amount;
+        _transferAsset(stakeToken, player, amount);
+
+        emit Withdrawn(player, stakeToken, amount);
+    }
+
+    function _transferAsset(address stakeToken, address to, uint256 amount) private {
+        if (stakeToken == address(0)) {
+            (bool success, ) = to.call{value: amount}("");
+            require(success, "Transfer failed");
+            return;
+        }
+
+        (bool tokenSuccess, bytes memory data) = stakeToken.call(abi.encodeCall(IERC20.transfer, (to, amount)));
+        require(tokenSuccess && (data.length == 0 || abi.decode(data, (bool))), "Transfer failed");
+    }
+
+    function _pullToken(address token, address from, uint256 amount) private {
+        (bool success, bytes memory data) = token.call(
+            abi.encodeCall(IERC20.transferFrom, (from, address(this), amount))
+        );
+        require(success && (data.length == 0 || abi.decode(data, (bool))), "Transfer failed");
+    }
+
+    function _isExpired(Game storage game) private view returns (bool) {
+        if (game.status == GameStatus.AwaitingReveal) {
+            return block.timestamp > game.revealDeadline;
+        }
+        if (game.status == GameStatus.WaitingForRolls) {
+            return block.timestamp > game.rollDeadline && game.rollCount == 0;
+        }
+        return false;
+    }
+
+    function _isWinner(Game storage game, address player) private view returns (bool) {
+        for (uint256 i = 0; i < game.winners.length; i++) {
+            if (game.winners[i] == player) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    function _findPlayer(Game storage game, address player) private view returns (bool found, uint256 index) {
+        for (uint256 i = 0; i < game.players.length; i++) {
+            if (game.players[i] == player) {
+                return (true, i);
+            }
+        }
+        return (false, 0);
+    }
+
+    function _playerIndex(Game storage game, address player) private view returns (uint256) {
+        (bool found, uint256 index) = _findPlayer(game, player);
+        if (!found) {
+            revert NotParticipant();
         }
-        revert NotParticipant();
+        return index;
     }
 
     receive() external payable {
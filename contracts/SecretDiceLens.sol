@@ -0,0 +1,157 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {SecretDice} from "./SecretDice.sol";
+import {PlayerRanking} from "./libraries/PlayerRanking.sol";
+
+/// @title SecretDiceLens
+/// @notice Read-only leaderboard and batched game queries over a SecretDice deployment
+/// @dev Lives outside SecretDice to keep the game contract under the 24KB contract size limit; every function is
+///      meant for `eth_call`, so loops are bounded by the RPC gas cap rather than the block gas limit
+contract SecretDiceLens {
+    struct LeaderboardEntry {
+        address player;
+        PlayerRanking.PlayerStats stats;
+    }
+
+    struct GameSummary {
+        uint256 gameId;
+        SecretDice.GameView game;
+        uint256 pot;
+    }
+
+    SecretDice public immutable secretDice;
+
+    constructor(SecretDice secretDice_) {
+        secretDice = secretDice_;
+    }
+
+    /// @notice One page of a stake asset's leaderboard with each player's stats
+    /// @dev The ranking itself is kept by SecretDice as games are recorded, so a page costs one stats read per entry
+    /// @param stakeToken `address(0)` for native ETH or an allowlisted ERC-20
+    /// @param order Ranking key
+    /// @param offset Number of ranked players to skip
+    /// @param limit Maximum number of entries to return
+    /// @return entries Ranked players with their stats, best first
+    /// @return total Number of ranked players, at most `SecretDice.LEADERBOARD_SIZE`
+    function getLeaderboard(
+        address stakeToken,
+        SecretDice.LeaderboardOrder order,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (LeaderboardEntry[] memory entries, uint256 total) {
+        address[] memory players;
+        (players, total) = secretDice.getLeaderboard(stakeToken, order, offset, limit);
+
+        entries = new LeaderboardEntry[](players.length);
+        for (uint256 i = 0; i < players.length; i++) {
+            entries[i] = LeaderboardEntry(players[i], secretDice.getPlayerStats(players[i], stakeToken));
+        }
+    }
+
+    /// @notice One page of every game with its pot, newest first
+    /// @param offset Number of games to skip, counting from the newest
+    /// @param limit Maximum number of games to return
+    /// @return games Game views with their ids and pots
+    /// @return total Number of games ever created
+    function getGames(uint256 offset, uint256 limit) external view returns (GameSummary[] memory games, uint256 total) {
+        total = secretDice.nextGameId();
+        uint256 count = _pageSize(total, offset, limit);
+
+        games = new GameSummary[](count);
+        for (uint256 i = 0; i < count; i++) {
+            games[i] = _summary(total - 1 - offset - i);
+        }
+    }
+
+    /// @notice Games in one stored status, newest first
+    /// @dev Scans game ids downwards from `cursor` until `limit` games match, so sparse statuses stay cheap to page
+    ///      through. Games past a deadline keep their stored status until someone acts on them.
+    /// @param status Status to match
+    /// @param cursor Scan ids below this value; pass 0 to start from the newest game
+    /// @param limit Maximum number of games to return
+    /// @return games Matching game views with their ids and pots
+    /// @return nextCursor Cursor for the following page, 0 once every game has been scanned
+    function getGamesByStatus(
+        SecretDice.GameStatus status,
+        uint256 cursor,
+        uint256 limit
+    ) external view returns (GameSummary[] memory games, uint256 nextCursor) {
+        return _scan(status, false, cursor, limit);
+    }
+
+    /// @notice Lobbies that can still be joined, newest first
+    /// @dev Same paging as `getGamesByStatus`, skipping lobbies whose join deadline has passed
+    /// @param cursor Scan ids below this value; pass 0 to start from the newest game
+    /// @param limit Maximum number of lobbies to return
+    /// @return games Open lobby views with their ids and pots
+    /// @return nextCursor Cursor for the following page, 0 once every game has been scanned
+    function getOpenLobbies(
+        uint256 cursor,
+        uint256 limit
+    ) external view returns (GameSummary[] memory games, uint256 nextCursor) {
+        return _scan(SecretDice.GameStatus.WaitingForPlayers, true, cursor, limit);
+    }
+
+    /// @notice One page of the games a player has joined, newest first
+    /// @param player Player address
+    /// @param offset Number of games to skip, counting from the most recently joined
+    /// @param limit Maximum number of games to return
+    /// @return games Game views with their ids and pots
+    /// @return total Number of games the player has joined
+    function getPlayerGames(
+        address player,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (GameSummary[] memory games, uint256 total) {
+        uint256[] memory gameIds = secretDice.getPlayerGames(player);
+        total = gameIds.length;
+        uint256 count = _pageSize(total, offset, limit);
+
+        games = new GameSummary[](count);
+        for (uint256 i = 0; i < count; i++) {
+            games[i] = _summary(gameIds[total - 1 - offset - i]);
+        }
+    }
+
+    function _scan(
+        SecretDice.GameStatus status,
+        bool joinableOnly,
+        uint256 cursor,
+        uint256 limit
+    ) private view returns (GameSummary[] memory games, uint256 nextCursor) {
+        uint256 gameId = cursor == 0 ? secretDice.nextGameId() : cursor;
+        GameSummary[] memory found = new GameSummary[](limit);
+        uint256 count;
+
+        while (gameId > 0 && count < limit) {
+            gameId--;
+            if (secretDice.getGameStatus(gameId) != status) {
+                continue;
+            }
+
+            GameSummary memory summary = _summary(gameId);
+            if (joinableOnly && block.timestamp > summary.game.joinDeadline) {
+                continue;
+            }
+            found[count++] = summary;
+        }
+
+        games = new GameSummary[](count);
+        for (uint256 i = 0; i < count; i++) {
+            games[i] = found[i];
+        }
+        nextCursor = gameId;
+    }
+
+    function _summary(uint256 gameId) private view returns (GameSummary memory) {
+        return GameSummary(gameId, secretDice.getGame(gameId), secretDice.getGamePot(gameId));
+    }
+
+    function _pageSize(uint256 total, uint256 offset, uint256 limit) private pure returns (uint256 count) {
+        count = offset >= total ? 0 : total - offset;
+        if (count > limit) {
+            count = limit;
+        }
+    }
+}
@@ -0,0 +1,565 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint32} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {DiceRolls} from "./libraries/DiceRolls.sol";
+
+/// @title SecretDiceTournament
+/// @notice Single-elimination SecretDice brackets paid from a shared prize pool of ETH buy-ins
+contract SecretDiceTournament is ZamaEthereumConfig {
+    uint256 public constant REGISTRATION_TIMEOUT = 1 days;
+    uint256 public constant MATCH_TIMEOUT = 12 hours;
+    uint256 public constant REVEAL_TIMEOUT = 1 days;
+    uint8 public constant MAX_DICE = 5;
+    uint16 public constant MAX_RUNNER_UP_BPS = 5000;
+    uint16 private constant BPS_DENOMINATOR = 10_000;
+
+    enum TournamentStatus {
+        Registration,
+        InProgress,
+        Completed,
+        Cancelled
+    }
+
+    struct Match {
+        address[2] players;
+        bool[2] rolled;
+        euint32[2] rolls;
+        uint32[2] revealedRolls;
+        address winner;
+        bool revealPending;
+        uint8 tieRounds;
+        uint64 rollDeadline;
+        uint64 revealDeadline;
+    }
+
+    struct Tournament {
+        address organizer;
+        TournamentStatus status;
+        uint8 size;
+        uint8 diceCount;
+        uint8 faces;
+        uint16 runnerUpBps;
+        uint64 registrationDeadline;
+        uint256 buyIn;
+        address champion;
+        address runnerUp;
+        address[] players;
+        Match[] matches;
+    }
+
+    struct MatchView {
+        address[2] players;
+        bool[2] rolled;
+        uint32[2] revealedRolls;
+        address winner;
+        bool revealPending;
+        uint8 tieRounds;
+        uint64 rollDeadline;
+        uint64 revealDeadline;
+    }
+
+    struct TournamentView {
+        address organizer;
+        TournamentStatus status;
+        uint8 size;
+        uint8 diceCount;
+        uint8 faces;
+        uint16 runnerUpBps;
+        uint64 registrationDeadline;
+        uint256 buyIn;
+        address champion;
+        address runnerUp;
+        address[] players;
+    }
+
+    uint256 public nextTournamentId;
+    mapping(uint256 => Tournament) private tournaments;
+    /// @notice Withdrawable prizes and refunds per player
+    mapping(address => uint256) public balances;
+
+    bool private _claimLock;
+
+    event TournamentCreated(uint256 indexed tournamentId, address indexed organizer, uint8 size, uint256 buyIn);
+    event PlayerRegistered(uint256 indexed tournamentId, address indexed player);
+    event TournamentStarted(uint256 indexed tournamentId, address[] players);
+    event MatchReady(uint256 indexed tournamentId, uint256 indexed matchId, address[2] players);
+    event MatchRolled(uint256 indexed tournamentId, uint256 indexed matchId, address indexed player);
+    event MatchRevealRequested(uint256 indexed tournamentId, uint256 indexed matchId, bytes32[] handles);
+    event MatchRevealed(uint256 indexed tournamentId, uint256 indexed matchId, uint32[] rolls);
+    event MatchTied(uint256 indexed tournamentId, uint256 indexed matchId, uint8 tieRounds);
+    event MatchRevealExpired(uint256 indexed tournamentId, uint256 indexed matchId);
+    event MatchRollExpired(uint256 indexed tournamentId, uint256 indexed matchId);
+    event MatchForfeited(uint256 indexed tournamentId, uint256 indexed matchId, address indexed winner);
+    event MatchWon(uint256 indexed tournamentId, uint256 indexed matchId, address indexed winner);
+    event TournamentCompleted(uint256 indexed tournamentId, address indexed champion, address indexed runnerUp);
+    event TournamentCancelled(uint256 indexed tournamentId, address indexed cancelledBy);
+    event PrizeCredited(uint256 indexed tournamentId, address indexed player, uint256 amount);
+    event Withdrawn(address indexed player, uint256 amount);
+
+    error TournamentDoesNotExist();
+    error InvalidBracketSize();
+    error InvalidBuyIn();
+    error InvalidDiceConfig();
+    error InvalidPayoutSplit();
+    error RegistrationClosed();
+    error IncorrectBuyIn();
+    error AlreadyRegistered();
+    error TournamentNotActive();
+    error MatchNotReady();
+    error NotInMatch();
+    error AlreadyRolled();
+    error RevealInProgress();
+    error RevealNotPending();
+    error DeadlinePassed();
+    error DeadlineNotReached();
+    error NothingToWithdraw();
+
+    modifier tournamentExists(uint256 tournamentId) {
+        _requireTournament(tournamentId);
+        _;
+    }
+
+    function _requireTournament(uint256 tournamentId) private view {
+        if (tournamentId >= nextTournamentId) {
+            revert TournamentDoesNotExist();
+        }
+    }
+
+    modifier nonReentrant() {
+        _lock();
+        _;
+        _claimLock = false;
+    }
+
+    function _lock() private {
+        if (_claimLock) {
+            revert("ReentrancyGuard: reentrant call");
+        }
+        _claimLock = true;
+    }
+
+    /// @notice Open a bracket for registration
+    /// @param size Number of players: 4, 8 or 16
+    /// @param buyIn ETH each player pays to register; every buy-in goes to the prize pool
+    /// @param diceCount Dice each player rolls per match (1-`MAX_DICE`)
+    /// @param faces Faces per die (4, 6, 8, 10, 12 or 20)
+    /// @param runnerUpBps Share of the prize pool paid to the losing finalist, up to `MAX_RUNNER_UP_BPS`
+    /// @return tournamentId Identifier of the new tournament
+    function createTournament(
+        uint8 size,
+        uint256 buyIn,
+        uint8 diceCount,
+        uint8 faces,
+        uint16 runnerUpBps
+    ) external returns (uint256 tournamentId) {
+        if (size != 4 && size != 8 && size != 16) {
+            revert InvalidBracketSize();
+        }
+
+        if (buyIn == 0) {
+            revert InvalidBuyIn();
+        }
+
+        if (diceCount == 0 || diceCount > MAX_DICE || !DiceRolls.isSupportedDie(faces)) {
+            revert InvalidDiceConfig();
+        }
+
+        if (runnerUpBps > MAX_RUNNER_UP_BPS) {
+            revert InvalidPayoutSplit();
+        }
+
+        tournamentId = nextTournamentId;
+        nextTournamentId += 1;
+
+        Tournament storage tournament = tournaments[tournamentId];
+        tournament.organizer = msg.sender;
+        tournament.size = size;
+        tournament.diceCount = diceCount;
+        tournament.faces = faces;
+        tournament.runnerUpBps = runnerUpBps;
+        tournament.buyIn = buyIn;
+        tournament.registrationDeadline = uint64(block.timestamp + REGISTRATION_TIMEOUT);
+
+        emit TournamentCreated(tournamentId, msg.sender, size, buyIn);
+    }
+
+    /// @notice Register for a tournament by paying its buy-in
+    /// @dev The last registration seeds the bracket in registration order: player 1 meets player 2, 3 meets 4, ...
+    /// @param tournamentId Identifier of the tournament
+    function register(uint256 tournamentId) external payable tournamentExists(tournamentId) {
+        Tournament storage tournament = tournaments[tournamentId];
+
+        if (tournament.status != TournamentStatus.Registration) {
+            revert RegistrationClosed();
+        }
+
+        if (block.timestamp > tournament.registrationDeadline) {
+            revert DeadlinePassed();
+        }
+
+        if (msg.value != tournament.buyIn) {
+            revert IncorrectBuyIn();
+        }
+
+        for (uint256 i = 0; i < tournament.players.length; i++) {
+            if (tournament.players[i] == msg.sender) {
+                revert AlreadyRegistered();
+            }
+        }
+
+        tournament.players.push(msg.sender);
+
+        emit PlayerRegistered(tournamentId, msg.sender);
+
+        if (tournament.players.length == tournament.size) {
+            _seed(tournamentId, tournament);
+        }
+    }
+
+    /// @notice Cancel a bracket that is still registering and refund every buy-in to `balances`
+    /// @dev The organizer can cancel at any time during registration, anyone else once the deadline has passed
+    /// @param tournamentId Identifier of the tournament
+    function cancelTournament(uint256 tournamentId) external tournamentExists(tournamentId) {
+        Tournament storage tournament = tournaments[tournamentId];
+
+        if (tournament.status != TournamentStatus.Registration) {
+            revert RegistrationClosed();
+        }
+
+        if (msg.sender != tournament.organizer && block.timestamp <= tournament.registrationDeadline) {
+            revert DeadlineNotReached();
+        }
+
+        tournament.status = TournamentStatus.Cancelled;
+
+        emit TournamentCancelled(tournamentId, msg.sender);
+
+        for (uint256 i = 0; i < tournament.players.length; i++) {
+            _credit(tournamentId, tournament.players[i], tournament.buyIn);
+        }
+    }
+
+    /// @notice Roll the caller's encrypted dice in their current match
+    /// @dev Only the contract and the roller may decrypt the total before both players have rolled
+    /// @param tournamentId Identifier of the tournament
+    /// @param matchId Match index in the bracket (first-round matches first, the final last)
+    function rollMatch(uint256 tournamentId, uint256 matchId) external tournamentExists(tournamentId) {
+        Match storage matchData = _activeMatch(tournaments[tournamentId], matchId);
+
+        if (block.timestamp > matchData.rollDeadline) {
+            revert DeadlinePassed();
+        }
+
+        uint256 seat;
+        if (matchData.players[1] == msg.sender) {
+            seat = 1;
+        } else if (matchData.players[0] != msg.sender) {
+            revert NotInMatch();
+        }
+
+        if (matchData.rolled[seat]) {
+            revert AlreadyRolled();
+        }
+
+        euint32 diceRoll = DiceRolls.roll(tournaments[tournamentId].diceCount, tournaments[tournamentId].faces);
+        FHE.allowThis(diceRoll);
+        FHE.allow(diceRoll, msg.sender);
+
+        matchData.rolls[seat] = diceRoll;
+        matchData.rolled[seat] = true;
+
+        emit MatchRolled(tournamentId, matchId, msg.sender);
+
+        if (matchData.rolled[1 - seat]) {
+            FHE.makePubliclyDecryptable(matchData.rolls[0]);
+            FHE.makePubliclyDecryptable(matchData.rolls[1]);
+            matchData.revealPending = true;
+            matchData.revealDeadline = uint64(block.timestamp + REVEAL_TIMEOUT);
+
+            emit MatchRevealRequested(tournamentId, matchId, _revealHandles(matchData));
+        }
+    }
+
+    /// @notice Submit the public decryption of both match rolls and advance the winner
+    /// @dev A tie clears both rolls and the players roll again. Must happen before the match's reveal deadline,
+    ///      after which the match can only be re-rolled through `rerollMatch`.
+    /// @param tournamentId Identifier of the tournament
+    /// @param matchId Match index in the bracket
+    /// @param cleartexts ABI-encoded roll values in seat order
+    /// @param decryptionProof KMS signatures over the cleartexts
+    function finalizeMatch(
+        uint256 tournamentId,
+        uint256 matchId,
+        bytes calldata cleartexts,
+        bytes calldata decryptionProof
+    ) external tournamentExists(tournamentId) {
+        Tournament storage tournament = tournaments[tournamentId];
+        Match storage matchData = _pendingMatch(tournament, matchId);
+
+        if (block.timestamp > matchData.revealDeadline) {
+            revert DeadlinePassed();
+        }
+
+        uint32[] memory rolls = DiceRolls.verifyReveal(_revealHandles(matchData), cleartexts, decryptionProof);
+        matchData.revealedRolls = [rolls[0], rolls[1]];
+        matchData.revealPending = false;
+
+        emit MatchRevealed(tournamentId, matchId, rolls);
+
+        if (rolls[0] == rolls[1]) {
+            matchData.tieRounds += 1;
+            _reopenMatch(matchData);
+
+            emit MatchTied(tournamentId, matchId, matchData.tieRounds);
+            return;
+        }
+
+        _advance(tournamentId, tournament, matchId, rolls[0] > rolls[1] ? 0 : 1);
+    }
+
+    /// @notice Re-open a match for rolling when nobody submitted its decryption before the reveal deadline
+    /// @dev Callable by anyone so a stalled reveal cannot lock the bracket; both players roll again under a fresh
+    ///      `MATCH_TIMEOUT`, and a player who then misses it can be knocked out through `claimMatchForfeit`
+    /// @param tournamentId Identifier of the tournament
+    /// @param matchId Match index in the bracket
+    function rerollMatch(uint256 tournamentId, uint256 matchId) external tournamentExists(tournamentId) {
+        Match storage matchData = _pendingMatch(tournaments[tournamentId], matchId);
+
+        if (block.timestamp <= matchData.revealDeadline) {
+            revert DeadlineNotReached();
+        }
+
+        matchData.revealPending = false;
+        _reopenMatch(matchData);
+
+        emit MatchRevealExpired(tournamentId, matchId);
+    }
+
+    /// @notice Advance a player whose opponent missed the match roll deadline
+    /// @dev Callable by anyone to keep the bracket moving. When neither player rolled, nobody advances without having
+    ///      played: the match reopens with a fresh roll deadline instead.
+    /// @param tournamentId Identifier of the tournament
+    /// @param matchId Match index in the bracket
+    function claimMatchForfeit(uint256 tournamentId, uint256 matchId) external tournamentExists(tournamentId) {
+        Tournament storage tournament = tournaments[tournamentId];
+        Match storage matchData = _activeMatch(tournament, matchId);
+
+        if (block.timestamp <= matchData.rollDeadline) {
+            revert DeadlineNotReached();
+        }
+
+        if (!matchData.rolled[0] && !matchData.rolled[1]) {
+            _reopenMatch(matchData);
+
+            emit MatchRollExpired(tournamentId, matchId);
+            return;
+        }
+
+        uint256 winnerSeat = matchData.rolled[1] && !matchData.rolled[0] ? 1 : 0;
+
+        emit MatchForfeited(tournamentId, matchId, matchData.players[winnerSeat]);
+
+        _advance(tournamentId, tournament, matchId, winnerSeat);
+    }
+
+    /// @notice Withdraw the caller's prizes and refunds
+    function withdraw() external nonReentrant {
+        uint256 amount = balances[msg.sender];
+        if (amount == 0) {
+            revert NothingToWithdraw();
+        }
+
+        balances[msg.sender] = 0;
+
+        (bool success, ) = msg.sender.call{value: amount}("");
+        require(success, "Transfer failed");
+
+        emit Withdrawn(msg.sender, amount);
+    }
+
+    /// @notice Fetch human-readable information about a tournament
+    function getTournament(
+        uint256 tournamentId
+    ) external view tournamentExists(tournamentId) returns (TournamentView memory viewData) {
+        Tournament storage tournament = tournaments[tournamentId];
+
+        viewData.organizer = tournament.organizer;
+        viewData.status = tournament.status;
+        viewData.size = tournament.size;
+        viewData.diceCount = tournament.diceCount;
+        viewData.faces = tournament.faces;
+        viewData.runnerUpBps = tournament.runnerUpBps;
+        viewData.registrationDeadline = tournament.registrationDeadline;
+        viewData.buyIn = tournament.buyIn;
+        viewData.champion = tournament.champion;
+        viewData.runnerUp = tournament.runnerUp;
+        viewData.players = tournament.players;
+    }
+
+    /// @notice Every match of a seeded bracket: first-round matches first, the final last
+    /// @dev Match `m` of a round feeds seat `m % 2` of match `size / 2 + m / 2`. Empty before seeding.
+    function getBracket(
+        uint256 tournamentId
+    ) external view tournamentExists(tournamentId) returns (MatchView[] memory) {
+        Match[] storage matches = tournaments[tournamentId].matches;
+
+        MatchView[] memory bracket = new MatchView[](matches.length);
+        for (uint256 i = 0; i < matches.length; i++) {
+            Match storage matchData = matches[i];
+            bracket[i] = MatchView(
+                matchData.players,
+                matchData.rolled,
+                matchData.revealedRolls,
+                matchData.winner,
+                matchData.revealPending,
+                matchData.tieRounds,
+                matchData.rollDeadline,
+                matchData.revealDeadline
+            );
+        }
+        return bracket;
+    }
+
+    /// @notice Get the encrypted roll of one seat in a match
+    function getMatchRoll(
+        uint256 tournamentId,
+        uint256 matchId,
+        uint8 seat
+    ) external view tournamentExists(tournamentId) returns (bytes32) {
+        Tournament storage tournament = tournaments[tournamentId];
+        if (matchId >= tournament.matches.length || seat > 1) {
+            revert MatchNotReady();
+        }
+        return FHE.toBytes32(tournament.matches[matchId].rolls[seat]);
+    }
+
+    /// @notice Handles to publicly decrypt and pass to `finalizeMatch`, in seat order
+    function getMatchRevealHandles(
+        uint256 tournamentId,
+        uint256 matchId
+    ) external view tournamentExists(tournamentId) returns (bytes32[] memory) {
+        Tournament storage tournament = tournaments[tournamentId];
+        if (matchId >= tournament.matches.length) {
+            revert MatchNotReady();
+        }
+        return _revealHandles(tournament.matches[matchId]);
+    }
+
+    function _seed(uint256 tournamentId, Tournament storage tournament) private {
+        tournament.status = TournamentStatus.InProgress;
+
+        emit TournamentStarted(tournamentId, tournament.players);
+
+        uint256 firstRound = tournament.size / 2;
+        for (uint256 i = 0; i < tournament.size - 1; i++) {
+            Match storage matchData = tournament.matches.push();
+            if (i < firstRound) {
+                matchData.players = [tournament.players[2 * i], tournament.players[2 * i + 1]];
+                matchData.rollDeadline = uint64(block.timestamp + MATCH_TIMEOUT);
+
+                emit MatchReady(tournamentId, i, matchData.players);
+            }
+        }
+    }
+
+    /// @dev Records the match winner and seats them in the next round, or pays out the prize pool after the final
+    function _advance(
+        uint256 tournamentId,
+        Tournament storage tournament,
+        uint256 matchId,
+        uint256 winnerSeat
+    ) private {
+        Match storage matchData = tournament.matches[matchId];
+        address winner = matchData.players[winnerSeat];
+        matchData.winner = winner;
+
+        emit MatchWon(tournamentId, matchId, winner);
+
+        if (matchId == tournament.matches.length - 1) {
+            address runnerUp = matchData.players[1 - winnerSeat];
+            tournament.champion = winner;
+            tournament.runnerUp = runnerUp;
+            tournament.status = TournamentStatus.Completed;
+
+            emit TournamentCompleted(tournamentId, winner, runnerUp);
+
+            uint256 prizePool = tournament.buyIn * tournament.size;
+            uint256 runnerUpPrize = (prizePool * tournament.runnerUpBps) / BPS_DENOMINATOR;
+            _credit(tournamentId, winner, prizePool - runnerUpPrize);
+            if (runnerUpPrize > 0) {
+                _credit(tournamentId, runnerUp, runnerUpPrize);
+            }
+            return;
+        }
+
+        uint256 nextMatchId = tournament.size / 2 + matchId / 2;
+        Match storage nextMatch = tournament.matches[nextMatchId];
+        nextMatch.players[matchId % 2] = winner;
+
+        if (nextMatch.players[0] != address(0) && nextMatch.players[1] != address(0)) {
+            nextMatch.rollDeadline = uint64(block.timestamp + MATCH_TIMEOUT);
+
+            emit MatchReady(tournamentId, nextMatchId, nextMatch.players);
+        }
+    }
+
+    /// @dev A match accepts rolls and forfeits once both seats are filled, until it is decided or being revealed
+    function _activeMatch(
+        Tournament storage tournament,
+        uint256 matchId
+    ) private view returns (Match storage matchData) {
+        if (tournament.status != TournamentStatus.InProgress) {
+            revert TournamentNotActive();
+        }
+
+        if (matchId >= tournament.matches.length) {
+            revert MatchNotReady();
+        }
+
+        matchData = tournament.matches[matchId];
+        if (matchData.rollDeadline == 0 || matchData.winner != address(0)) {
+            revert MatchNotReady();
+        }
+
+        if (matchData.revealPending) {
+            revert RevealInProgress();
+        }
+    }
+
+    function _pendingMatch(
+        Tournament storage tournament,
+        uint256 matchId
+    ) private view returns (Match storage matchData) {
+        if (matchId >= tournament.matches.length) {
+            revert MatchNotReady();
+        }
+
+        matchData = tournament.matches[matchId];
+        if (!matchData.revealPending) {
+            revert RevealNotPending();
+        }
+    }
+
+    /// @dev Clears both rolls so the players roll the match again
+    function _reopenMatch(Match storage matchData) private {
+        matchData.rolled = [false, false];
+        matchData.rollDeadline = uint64(block.timestamp + MATCH_TIMEOUT);
+    }
+
+    function _revealHandles(Match storage matchData) private view returns (bytes32[] memory handles) {
+        handles = new bytes32[](2);
+        handles[0] = FHE.toBytes32(matchData.rolls[0]);
+        handles[1] = FHE.toBytes32(matchData.rolls[1]);
+    }
+
+    function _credit(uint256 tournamentId, address player, uint256 amount) private {
+        balances[player] += amount;
+        emit PrizeCredited(tournamentId, player, amount);
+    }
+
+    receive() external payable {
+        revert("Direct payments not accepted");
+    }
+}
@@ -0,0 +1,82 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint32} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title DiceRolls
+/// @notice Encrypted roll and reveal helpers shared by SecretDice games and tournaments
+/// @dev `roll`, `winnerMask` and `verifyReveal` are public so they are deployed once and linked instead of being
+///      inlined into every contract; they run through `delegatecall`, so FHE access rights stay with the caller
+library DiceRolls {
+    error InvalidCleartexts();
+
+    /// @dev Each die is drawn independently and the total is summed homomorphically, so only totals are revealed
+    function roll(uint8 diceCount, uint8 faces) public returns (euint32 total) {
+        total = FHE.asEuint32(diceCount);
+        for (uint256 i = 0; i < diceCount; i++) {
+            total = FHE.add(total, FHE.rem(FHE.randEuint32(), faces));
+        }
+    }
+
+    /// @dev Bit `i` of the result is set when seat `i` holds the top roll; every bit set means a full draw
+    function winnerMask(euint32[] memory rolls) public returns (euint32 mask) {
+        euint32 topRoll = rolls[0];
+        for (uint256 i = 1; i < rolls.length; i++) {
+            ebool higher = FHE.gt(rolls[i], topRoll);
+            topRoll = FHE.select(higher, rolls[i], topRoll);
+        }
+
+        euint32 zero = FHE.asEuint32(0);
+        mask = zero;
+        for (uint256 i = 0; i < rolls.length; i++) {
+            ebool isTop = FHE.eq(rolls[i], topRoll);
+            mask = FHE.add(mask, FHE.select(isTop, FHE.asEuint32(uint32(1 << i)), zero));
+        }
+    }
+
+    function isSupportedDie(uint8 faces) internal pure returns (bool) {
+        return faces == 4 || faces == 6 || faces == 8 || faces == 10 || faces == 12 || faces == 20;
+    }
+
+    /// @dev Bit `i` of `winnerMask` is set when seat `i` holds the top roll
+    function topRollMask(uint32[] memory rolls) internal pure returns (uint32 winnerMask, uint32 topRoll) {
+        for (uint256 i = 0; i < rolls.length; i++) {
+            if (rolls[i] > topRoll) {
+                topRoll = rolls[i];
+            }
+        }
+
+        for (uint256 i = 0; i < rolls.length; i++) {
+            if (rolls[i] == topRoll) {
+                winnerMask |= uint32(1) << uint32(i);
+            }
+        }
+    }
+
+    /// @dev Checks the KMS signatures over a public decryption of `handles` and decodes one cleartext per handle
+    function verifyReveal(
+        bytes32[] memory handles,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) public returns (uint32[] memory) {
+        FHE.checkSignatures(handles, cleartexts, decryptionProof);
+        return decode(cleartexts, handles.length);
+    }
+
+    /// @dev Decodes `count` ABI-encoded uint32 cleartexts returned by the public decryption
+    function decode(bytes memory cleartexts, uint256 count) internal pure returns (uint32[] memory rolls) {
+        if (cleartexts.length != count * 32) {
+            revert InvalidCleartexts();
+        }
+
+        rolls = new uint32[](count);
+        for (uint256 i = 0; i < count; i++) {
+            uint256 word;
+            // solhint-disable-next-line no-inline-assembly
+            assembly {
+                word := mload(add(cleartexts, mul(add(i, 1), 32)))
+            }
+            rolls[i] = uint32(word);
+        }
+    }
+}
@@ -0,0 +1,145 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title PlayerRanking
+/// @notice Lifetime player stats and bounded top lists of players by wins and by net profit, kept sorted one game
+///         at a time
+/// @dev Public so it is deployed once and linked into SecretDice instead of adding to its bytecode. A player moves
+///      one place at a time from their old position, so an update costs a step per place gained or lost and never
+///      more than the length of the list.
+library PlayerRanking {
+    /// @notice Maximum number of players in each ranking
+    uint256 internal constant MAX_RANKED = 50;
+
+    /// @notice Lifetime results of one player in one stake asset; cancelled and expired games are not counted
+    struct PlayerStats {
+        uint32 played;
+        uint32 wins;
+        uint32 losses;
+        uint32 draws;
+        uint256 wagered;
+        int256 net;
+    }
+
+    /// @dev Players are ordered by `primary`, then by `secondary`; ties keep the player who got there first on top
+    struct Score {
+        int256 primary;
+        int256 secondary;
+    }
+
+    struct Ranking {
+        address[] players;
+        // Index in `players` plus one, 0 for players outside the list
+        mapping(address => uint256) position;
+        mapping(address => Score) scores;
+    }
+
+    struct Leaderboard {
+        Ranking byWins;
+        Ranking byNet;
+    }
+
+    /// @notice Count one decided game in a player's stats and re-rank them on both rankings of a leaderboard
+    /// @dev A draw is a draw whatever the credit; otherwise a credited seat scores a win and the rest a loss. Each
+    ///      ranking breaks ties on the other key. A player outside a full list only enters it by outranking the last
+    ///      entry, who drops out; a listed player whose score falls stays listed until someone outranks them.
+    /// @param stats The player's stats in the game's stake asset
+    /// @param leaderboard Leaderboard of the game's stake asset
+    /// @param player Player whose game was decided
+    /// @param wagered Stake and bet the player put into the game
+    /// @param credit Amount credited to the player by the game
+    /// @param draw Whether every seat drew
+    function record(
+        PlayerStats storage stats,
+        Leaderboard storage leaderboard,
+        address player,
+        uint256 wagered,
+        uint256 credit,
+        bool draw
+    ) public {
+        // Counters cannot realistically overflow, and amounts are bounded by the ETH or tokens held
+        unchecked {
+            stats.played += 1;
+            stats.wagered += wagered;
+            stats.net += int256(credit) - int256(wagered);
+
+            if (draw) {
+                stats.draws += 1;
+            } else if (credit > 0) {
+                stats.wins += 1;
+            } else {
+                stats.losses += 1;
+            }
+        }
+
+        int256 wins = int256(uint256(stats.wins));
+        _update(leaderboard.byWins, player, Score(wins, stats.net));
+        _update(leaderboard.byNet, player, Score(stats.net, wins));
+    }
+
+    /// @notice One page of either ranking of a leaderboard, best first
+    /// @param leaderboard Leaderboard to read
+    /// @param byNet Whether to read the ranking by net profit rather than by wins
+    /// @param offset Number of listed players to skip
+    /// @param limit Maximum number of players to return
+    /// @return players Listed players on the page
+    /// @return total Number of listed players
+    function page(
+        Leaderboard storage leaderboard,
+        bool byNet,
+        uint256 offset,
+        uint256 limit
+    ) public view returns (address[] memory players, uint256 total) {
+        Ranking storage ranking = byNet ? leaderboard.byNet : leaderboard.byWins;
+        total = ranking.players.length;
+        uint256 count = offset >= total ? 0 : total - offset;
+        if (count > limit) {
+            count = limit;
+        }
+
+        players = new address[](count);
+        for (uint256 i = 0; i < count; i++) {
+            players[i] = ranking.players[offset + i];
+        }
+    }
+
+    function _update(Ranking storage ranking, address player, Score memory score) private {
+        address[] storage players = ranking.players;
+        uint256 index = ranking.position[player];
+
+        if (index == 0) {
+            if (players.length < MAX_RANKED) {
+                players.push(player);
+            } else {
+                address last = players[players.length - 1];
+                if (!_above(score, ranking.scores[last])) {
+                    return;
+                }
+                delete ranking.position[last];
+                delete ranking.scores[last];
+            }
+            index = players.length;
+        }
+        index -= 1;
+        ranking.scores[player] = score;
+
+        while (index > 0 && _above(score, ranking.scores[players[index - 1]])) {
+            _place(ranking, players[index - 1], index);
+            index--;
+        }
+        while (index + 1 < players.length && _above(ranking.scores[players[index + 1]], score)) {
+            _place(ranking, players[index + 1], index);
+            index++;
+        }
+        _place(ranking, player, index);
+    }
+
+    function _place(Ranking storage ranking, address player, uint256 index) private {
+        ranking.players[index] = player;
+        ranking.position[player] = index + 1;
+    }
+
+    function _above(Score memory a, Score memory b) private pure returns (bool) {
+        return a.primary != b.primary ? a.primary > b.primary : a.secondary > b.secondary;
+    }
+}
@@ -0,0 +1,50 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint32, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
+import {SecretDice} from "../SecretDice.sol";
+
+/// @title SecretDiceHarness
+/// @notice SecretDice with injectable rolls so tests can play out specific results
+/// @dev Test-only; it inherits every SecretDice feature, so it has to stay under the 24KB limit like SecretDice itself
+contract SecretDiceHarness is SecretDice {
+    mapping(uint256 => mapping(uint256 => euint32[])) private _queuedRolls;
+    mapping(uint256 => mapping(uint256 => uint256)) private _nextQueuedRoll;
+
+    constructor(
+        uint256 minStake,
+        uint256 maxStake,
+        TokenConfig[] memory tokens,
+        uint16 initialFeeBps,
+        address initialOwner
+    ) SecretDice(minStake, maxStake, tokens, initialFeeBps, initialOwner) {}
+
+    /// @notice Queue the encrypted total a seat rolls next; queued totals are used one per roll, in order, before
+    ///         the seat falls back to random rolls
+    /// @param gameId Identifier of the game
+    /// @param playerIndex Seat position, in join order
+    /// @param roll Encrypted total, created for this contract and the caller
+    /// @param inputProof Proof for the encrypted input
+    function queueRoll(uint256 gameId, uint256 playerIndex, externalEuint32 roll, bytes calldata inputProof) external {
+        euint32 total = FHE.fromExternal(roll, inputProof);
+        FHE.allowThis(total);
+        _queuedRolls[gameId][playerIndex].push(total);
+    }
+
+    function _drawRoll(
+        uint256 gameId,
+        uint256 playerIndex,
+        uint8 diceCount,
+        uint8 faces
+    ) internal override returns (euint32) {
+        euint32[] storage queued = _queuedRolls[gameId][playerIndex];
+        uint256 next = _nextQueuedRoll[gameId][playerIndex];
+
+        if (next == queued.length) {
+            return super._drawRoll(gameId, playerIndex, diceCount, faces);
+        }
+
+        _nextQueuedRoll[gameId][playerIndex] = next + 1;
+        return queued[next];
+    }
+}
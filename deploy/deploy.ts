@@ -1,17 +1,60 @@
 import { DeployFunction } from "hardhat-deploy/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
+const MIN_STAKE = process.env.SECRET_DICE_MIN_STAKE ?? "0.0001";
+const MAX_STAKE = process.env.SECRET_DICE_MAX_STAKE ?? "1";
+// Comma-separated `tokenAddress:minStake:maxStake` entries, amounts in whole tokens
+const STAKE_TOKENS = process.env.SECRET_DICE_STAKE_TOKENS ?? "";
+
+// Per-network settings: `SECRET_DICE_FEE_BPS_SEPOLIA` takes precedence over `SECRET_DICE_FEE_BPS`
+function networkEnv(name: string, network: string) {
+  return process.env[`${name}_${network.toUpperCase()}`] ?? process.env[name];
+}
+
+async function parseStakeTokens(hre: HardhatRuntimeEnvironment) {
+  const entries = STAKE_TOKENS.split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+
+  return Promise.all(
+    entries.map(async (entry) => {
+      const [token, minStake, maxStake] = entry.split(":");
+      if (!token || !minStake || !maxStake) {
+        throw new Error(`Invalid SECRET_DICE_STAKE_TOKENS entry "${entry}"`);
+      }
+      const erc20 = await hre.ethers.getContractAt(["function decimals() view returns (uint8)"], token);
+      const decimals = Number(await erc20.decimals());
+      return {
+        token,
+        minStake: hre.ethers.parseUnits(minStake, decimals),
+        maxStake: hre.ethers.parseUnits(maxStake, decimals),
+      };
+    }),
+  );
+}
+
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
-  const { deploy } = hre.deployments;
+  const { deploy, get } = hre.deployments;
+
+  const stakeTokens = await parseStakeTokens(hre);
+  // Fee in basis points taken from decisive pots; the treasury account owns the contract and withdraws fees
+  const feeBps = Number(networkEnv("SECRET_DICE_FEE_BPS", hre.network.name) ?? "0");
+  const treasury = networkEnv("SECRET_DICE_TREASURY", hre.network.name) ?? deployer;
 
+  const diceRolls = await get("DiceRolls");
+  const playerRanking = await get("PlayerRanking");
   const deployedSecretDice = await deploy("SecretDice", {
     from: deployer,
+    args: [hre.ethers.parseEther(MIN_STAKE), hre.ethers.parseEther(MAX_STAKE), stakeTokens, feeBps, treasury],
+    libraries: { DiceRolls: diceRolls.address, PlayerRanking: playerRanking.address },
     log: true,
   });
 
   console.log(`SecretDice contract: `, deployedSecretDice.address);
+  console.log(`SecretDice fee: ${feeBps} bps, treasury owner: ${treasury}`);
 };
 export default func;
 func.id = "deploy_secret_dice"; // id required to prevent reexecution
 func.tags = ["SecretDice"];
+func.dependencies = ["DiceRolls", "PlayerRanking"];
@@ -0,0 +1,17 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  const deployedDiceRolls = await deploy("DiceRolls", {
+    from: deployer,
+    log: true,
+  });
+
+  console.log(`DiceRolls library: `, deployedDiceRolls.address);
+};
+export default func;
+func.id = "deploy_dice_rolls"; // id required to prevent reexecution
+func.tags = ["DiceRolls"];
@@ -0,0 +1,20 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, get } = hre.deployments;
+
+  const secretDice = await get("SecretDice");
+  const deployedLens = await deploy("SecretDiceLens", {
+    from: deployer,
+    args: [secretDice.address],
+    log: true,
+  });
+
+  console.log(`SecretDiceLens contract: `, deployedLens.address);
+};
+export default func;
+func.id = "deploy_secret_dice_lens"; // id required to prevent reexecution
+func.tags = ["SecretDiceLens"];
+func.dependencies = ["SecretDice"];
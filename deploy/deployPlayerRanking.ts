@@ -0,0 +1,17 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  const deployedPlayerRanking = await deploy("PlayerRanking", {
+    from: deployer,
+    log: true,
+  });
+
+  console.log(`PlayerRanking library: `, deployedPlayerRanking.address);
+};
+export default func;
+func.id = "deploy_player_ranking"; // id required to prevent reexecution
+func.tags = ["PlayerRanking"];
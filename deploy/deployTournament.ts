@@ -0,0 +1,20 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, get } = hre.deployments;
+
+  const diceRolls = await get("DiceRolls");
+  const deployedTournament = await deploy("SecretDiceTournament", {
+    from: deployer,
+    libraries: { DiceRolls: diceRolls.address },
+    log: true,
+  });
+
+  console.log(`SecretDiceTournament contract: `, deployedTournament.address);
+};
+export default func;
+func.id = "deploy_secret_dice_tournament"; // id required to prevent reexecution
+func.tags = ["SecretDiceTournament"];
+func.dependencies = ["DiceRolls"];
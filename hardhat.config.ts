@@ -12,6 +12,7 @@ import * as dotenv from "dotenv";
 
 import "./tasks/accounts";
 import "./tasks/secretDice";
+import "./tasks/secretDiceTournament";
 
 dotenv.config();
 
@@ -77,9 +78,11 @@ const config: HardhatUserConfig = {
       },
       // Disable the optimizer when debugging
       // https://hardhat.org/hardhat-network/#solidity-optimizer-support
+      // runs is 200 rather than 800 because SecretDiceHarness, which inherits all of SecretDice, goes over the 24KB
+      // limit at 800; SecretDice also links DiceRolls and PlayerRanking to stay under it
       optimizer: {
         enabled: true,
-        runs: 800,
+        runs: 200,
       },
       evmVersion: "cancun",
     },
@@ -6,19 +6,67 @@ import '@rainbow-me/rainbowkit/styles.css';
 import { config } from './config/wagmi';
 import { Header } from './components/Header';
 import { DiceApp } from './components/DiceApp';
+import { TournamentApp } from './components/TournamentApp';
+import { Leaderboard } from './components/Leaderboard';
+import { GameDetail } from './components/GameDetail';
+import { UnsupportedNetwork } from './components/UnsupportedNetwork';
+import { useContracts } from './hooks/useContracts';
+import { navigate, routePath, useRoute } from './hooks/useRoute';
 import './App.css';
 
 const queryClient = new QueryClient();
 
+type View = 'games' | 'tournaments' | 'leaderboard';
+
+function AppContent() {
+  const route = useRoute();
+  const { chainId, isSupported } = useContracts();
+  // A game detail page keeps the Games tab selected
+  const view: View = route.view === 'game' ? 'games' : route.view;
+  const setView = (next: View) => navigate(routePath({ view: next }));
+
+  return (
+    <div className="app-shell">
+      <Header />
+      {isSupported ? (
+        <>
+          <nav className="view-tabs">
+            <button type="button" className={view === 'games' ? 'active' : ''} onClick={() => setView('games')}>
+              Games
+            </button>
+            <button
+              type="button"
+              className={view === 'tournaments' ? 'active' : ''}
+              onClick={() => setView('tournaments')}
+            >
+              Tournaments
+            </button>
+            <button
+              type="button"
+              className={view === 'leaderboard' ? 'active' : ''}
+              onClick={() => setView('leaderboard')}
+            >
+              Leaderboard
+            </button>
+          </nav>
+          {route.view === 'game' && <GameDetail gameId={route.gameId} />}
+          {route.view === 'games' && <DiceApp />}
+          {view === 'tournaments' && <TournamentApp />}
+          {view === 'leaderboard' && <Leaderboard />}
+        </>
+      ) : (
+        <UnsupportedNetwork chainId={chainId} />
+      )}
+    </div>
+  );
+}
+
 function App() {
   return (
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
         <RainbowKitProvider locale="en">
-          <div className="app-shell">
-            <Header />
-            <DiceApp />
-          </div>
+          <AppContent />
         </RainbowKitProvider>
       </QueryClientProvider>
     </WagmiProvider>
@@ -1,13 +1,38 @@
-import { useCallback, useEffect, useMemo, useState } from 'react';
-import { useAccount, usePublicClient, useReadContract } from 'wagmi';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useAccount, usePublicClient, useReadContract, useWatchContractEvent } from 'wagmi';
 import { Contract } from 'ethers';
-import { formatEther } from 'viem';
+import { erc20Abi, formatUnits, parseUnits, type ContractFunctionReturnType, type Log } from 'viem';
 
-import { CONTRACT_ABI, CONTRACT_ADDRESS } from '../config/contracts';
+import { CONTRACT_ABI, LENS_ABI } from '../config/contracts';
+import { useContracts } from '../hooks/useContracts';
 import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useNow } from '../hooks/useNow';
+import { useUrlState } from '../hooks/useUrlState';
+import { useZamaInstance } from '../hooks/useZamaInstance';
 import { GameCard } from './GameCard';
-import type { GameDetails } from '../type/game';
-import { GameStatus } from '../type/game';
+import { LobbyControls } from './LobbyControls';
+import type { BetAction, GameDetails, PlayerBalances, StakeAsset } from '../type/game';
+import {
+  DIE_FACES,
+  ETH_ASSET,
+  GameStatus,
+  MAX_DICE,
+  MAX_PLAYERS,
+  MAX_TIE_REROLLS,
+  MIN_PLAYERS,
+  NATIVE_ASSET,
+  SERIES_LENGTHS,
+  findPlayerIndex,
+} from '../type/game';
+import type { LobbyState } from '../type/lobby';
+import {
+  DEFAULT_LOBBY_STATE,
+  isClaimable,
+  matchesFilters,
+  matchesTab,
+  normalizeLobbyState,
+  sortGames,
+} from '../type/lobby';
 import '../styles/DiceApp.css';
 
 type ProcessingState = {
@@ -15,23 +40,74 @@ type ProcessingState = {
   action: string;
 };
 
-function mapGame(id: bigint, raw: any, pot: bigint): GameDetails {
+type DicePublicClient = NonNullable<ReturnType<typeof usePublicClient>>;
+
+type GameSummary = ContractFunctionReturnType<typeof LENS_ABI, 'view', 'getGames'>[0][number];
+
+type GamePage = {
+  games: GameDetails[];
+  total: bigint;
+};
+
+const USER_DECRYPT_DURATION_DAYS = 1;
+const GAMES_PAGE_SIZE = 12;
+const PLAYER_GAMES_LIMIT = 100;
+const LOBBY_CLOCK_INTERVAL_MS = 30_000;
+const EVENT_POLLING_INTERVAL_MS = 4_000;
+const HIGHLIGHT_DURATION_MS = 2_500;
+// Events that change the connected player's withdrawable balances
+const BALANCE_EVENTS = new Set(['BalanceCredited', 'Withdrawn']);
+
+async function fetchStakeAsset(publicClient: DicePublicClient, token: `0x${string}`): Promise<StakeAsset> {
+  if (token === NATIVE_ASSET) {
+    return ETH_ASSET;
+  }
+  const [symbol, decimals] = await Promise.all([
+    publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'symbol' }),
+    publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'decimals' }),
+  ]);
+  return { address: token, symbol, decimals };
+}
+
+function mapGame(id: bigint, raw: any, pot: bigint, stakeAsset: StakeAsset): GameDetails {
   return {
     id,
     status: Number(raw.status) as GameStatus,
     creator: raw.creator,
-    playerOne: raw.playerOne,
-    playerTwo: raw.playerTwo,
-    playerOneRolled: raw.playerOneRolled,
-    playerTwoRolled: raw.playerTwoRolled,
-    playerOneRoll: BigInt(raw.playerOneRevealed),
-    playerTwoRoll: BigInt(raw.playerTwoRevealed),
-    winner: raw.winner,
-    rewardClaimed: raw.rewardAlreadyClaimed,
-    playerOneRefunded: raw.playerOneDrawRefunded,
-    playerTwoRefunded: raw.playerTwoDrawRefunded,
+    stakeToken: raw.stakeToken,
+    stakeAsset,
+    stake: BigInt(raw.stake),
+    capacity: Number(raw.capacity),
+    diceCount: Number(raw.diceCount),
+    faces: Number(raw.faces),
+    sealedResult: raw.sealedResult,
+    bestOf: Number(raw.bestOf),
+    currentRound: Number(raw.currentRound),
+    maxTieRerolls: Number(raw.maxTieRerolls),
+    tieRounds: Number(raw.tieRounds),
+    feeBps: Number(raw.feeBps),
+    fee: BigInt(raw.fee),
+    maxBet: BigInt(raw.maxBet),
+    bets: raw.bets.map((bet: bigint) => BigInt(bet)),
+    turn: Number(raw.turn),
+    players: [...raw.players],
+    rolled: [...raw.rolled],
+    rolls: raw.revealedRolls.map((roll: number) => BigInt(roll)),
+    payoutClaimed: [...raw.payoutClaimed],
+    credits: [...raw.credits],
+    winners: [...raw.winners],
+    revealedOutcome: Number(raw.revealedOutcome),
+    scores: raw.scores.map((score: number) => Number(score)),
+    rounds: raw.rounds.map((round: { rolls: readonly number[]; winnerMask: number }) => ({
+      rolls: round.rolls.map((roll) => BigInt(roll)),
+      winnerMask: Number(round.winnerMask),
+    })),
     pot,
     revealPending: raw.revealPending,
+    joinDeadline: BigInt(raw.joinDeadline),
+    rollDeadline: BigInt(raw.rollDeadline),
+    revealDeadline: BigInt(raw.revealDeadline),
+    betDeadline: BigInt(raw.betDeadline),
   };
 }
 
@@ -47,100 +123,423 @@ function extractErrorReason(error: unknown): string {
 
 export function DiceApp() {
   const { address, isConnected } = useAccount();
+  const { diceAddress, lensAddress } = useContracts();
   const publicClient = usePublicClient();
   const signerPromise = useEthersSigner();
+  const { instance: zamaInstance, error: zamaError } = useZamaInstance();
 
-  const { data: entryFee } = useReadContract({
+  const [selectedAsset, setSelectedAsset] = useState<`0x${string}`>(NATIVE_ASSET);
+  const [stakeAssets, setStakeAssets] = useState<StakeAsset[]>([ETH_ASSET]);
+  const assetCache = useRef(new Map<string, StakeAsset>([[NATIVE_ASSET, ETH_ASSET]]));
+
+  const { data: allowedTokens } = useReadContract({
+    abi: CONTRACT_ABI,
+    address: diceAddress,
+    functionName: 'getAllowedTokens',
+  });
+
+  const { data: feeBps } = useReadContract({
     abi: CONTRACT_ABI,
-    address: CONTRACT_ADDRESS,
-    functionName: 'ENTRY_FEE',
+    address: diceAddress,
+    functionName: 'feeBps',
   });
 
-  const { data: rewardAmount } = useReadContract({
+  const { data: stakeLimits } = useReadContract({
     abi: CONTRACT_ABI,
-    address: CONTRACT_ADDRESS,
-    functionName: 'REWARD_AMOUNT',
+    address: diceAddress,
+    functionName: 'getStakeLimits',
+    args: [selectedAsset],
   });
 
   const [games, setGames] = useState<GameDetails[]>([]);
+  const [playerGames, setPlayerGames] = useState<GameDetails[]>([]);
+  const [playerBalances, setPlayerBalances] = useState<PlayerBalances>(new Map());
+  const [lobbyState, setLobbyState] = useUrlState<LobbyState>(DEFAULT_LOBBY_STATE);
+  const lobbyNow = useNow(LOBBY_CLOCK_INTERVAL_MS);
+  const [totalGames, setTotalGames] = useState(0n);
   const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [highlightedIds, setHighlightedIds] = useState<ReadonlySet<bigint>>(new Set());
+  const loadedCount = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [refreshFlag, setRefreshFlag] = useState(0);
   const [processing, setProcessing] = useState<ProcessingState | null>(null);
+  const [stakeInput, setStakeInput] = useState('0.0001');
+  const [capacity, setCapacity] = useState(MIN_PLAYERS);
+  const [diceCount, setDiceCount] = useState(1);
+  const [faces, setFaces] = useState(6);
+  const [sealedResult, setSealedResult] = useState(false);
+  const [bestOf, setBestOf] = useState(1);
+  const [maxTieRerolls, setMaxTieRerolls] = useState(0);
+  const [maxBetInput, setMaxBetInput] = useState('');
 
-  const entryFeeLabel = useMemo(() => (entryFee ? `${formatEther(entryFee)} ETH` : '—'), [entryFee]);
-  const rewardLabel = useMemo(() => (rewardAmount ? `${formatEther(rewardAmount)} ETH` : '—'), [rewardAmount]);
+  const selectedStakeAsset = useMemo(
+    () => stakeAssets.find((asset) => asset.address === selectedAsset) ?? ETH_ASSET,
+    [stakeAssets, selectedAsset],
+  );
+  const [minStake, maxStake] = stakeLimits ?? [undefined, undefined];
+  const minStakeLabel = useMemo(
+    () => (minStake ? `${formatUnits(minStake, selectedStakeAsset.decimals)} ${selectedStakeAsset.symbol}` : '—'),
+    [minStake, selectedStakeAsset],
+  );
+  const maxStakeLabel = useMemo(
+    () => (maxStake ? `${formatUnits(maxStake, selectedStakeAsset.decimals)} ${selectedStakeAsset.symbol}` : '—'),
+    [maxStake, selectedStakeAsset],
+  );
 
-  const loadGames = useCallback(async () => {
-    if (!publicClient) {
+  const getStakeAsset = useCallback(
+    async (token: `0x${string}`) => {
+      const cached = assetCache.current.get(token.toLowerCase());
+      if (cached) {
+        return cached;
+      }
+      if (!publicClient) {
+        throw new Error('Public client not available.');
+      }
+      const asset = await fetchStakeAsset(publicClient, token);
+      assetCache.current.set(token.toLowerCase(), asset);
+      return asset;
+    },
+    [publicClient],
+  );
+
+  useEffect(() => {
+    if (!allowedTokens || allowedTokens.length === 0) {
       return;
     }
-    setIsLoading(true);
-    setErrorMessage(null);
-    try {
-      const totalGames = (await publicClient.readContract({
-        address: CONTRACT_ADDRESS,
+    Promise.all(allowedTokens.map((token) => getStakeAsset(token)))
+      .then((tokens) => setStakeAssets([ETH_ASSET, ...tokens]))
+      .catch((error) => console.error('Failed to load stake tokens', error));
+  }, [allowedTokens, getStakeAsset]);
+
+  const fetchGame = useCallback(
+    async (id: bigint) => {
+      if (!publicClient) {
+        throw new Error('Public client not available.');
+      }
+      const [gameData, pot] = await Promise.all([
+        publicClient.readContract({
+          address: diceAddress,
+          abi: CONTRACT_ABI,
+          functionName: 'getGame',
+          args: [id],
+        }),
+        publicClient.readContract({
+          address: diceAddress,
+          abi: CONTRACT_ABI,
+          functionName: 'getGamePot',
+          args: [id],
+        }),
+      ]);
+
+      const stakeAsset = await getStakeAsset(gameData.stakeToken);
+      return mapGame(id, gameData, pot as bigint, stakeAsset);
+    },
+    [publicClient, getStakeAsset, diceAddress],
+  );
+
+  const mapSummaries = useCallback(
+    (summaries: readonly GameSummary[]) =>
+      Promise.all(
+        summaries.map(async (summary) =>
+          mapGame(summary.gameId, summary.game, summary.pot, await getStakeAsset(summary.game.stakeToken)),
+        ),
+      ),
+    [getStakeAsset],
+  );
+
+  // Fetches games newest first. Uses the lens when it is deployed, one batched call per page; otherwise falls back
+  // to reading each game from the core contract.
+  const fetchGamePage = useCallback(
+    async (offset: number, limit: number): Promise<GamePage> => {
+      if (!publicClient) {
+        throw new Error('Public client not available.');
+      }
+
+      if (lensAddress !== NATIVE_ASSET) {
+        const [summaries, total] = await publicClient.readContract({
+          address: lensAddress,
+          abi: LENS_ABI,
+          functionName: 'getGames',
+          args: [BigInt(offset), BigInt(limit)],
+        });
+        return { games: await mapSummaries(summaries), total };
+      }
+
+      const total = (await publicClient.readContract({
+        address: diceAddress,
         abi: CONTRACT_ABI,
         functionName: 'nextGameId',
       })) as bigint;
 
-      if (totalGames === 0n) {
-        setGames([]);
-        return;
-      }
-
-      const ids = Array.from({ length: Number(totalGames) }, (_value, index) => BigInt(index));
-      const rawGames = await Promise.all(
-        ids.map(async (id) => {
-          const [gameData, pot] = await Promise.all([
-            publicClient.readContract({
-              address: CONTRACT_ADDRESS,
-              abi: CONTRACT_ABI,
-              functionName: 'getGame',
-              args: [id],
-            }),
-            publicClient.readContract({
-              address: CONTRACT_ADDRESS,
-              abi: CONTRACT_ABI,
-              functionName: 'getGamePot',
-              args: [id],
-            }),
-          ]);
-
-          return mapGame(id, gameData, pot as bigint);
-        }),
-      );
+      const count = Math.max(0, Math.min(limit, Number(total) - offset));
+      const ids = Array.from({ length: count }, (_value, index) => total - 1n - BigInt(offset + index));
+      const pageGames = await Promise.all(ids.map((id) => fetchGame(id)));
+      return { games: pageGames, total };
+    },
+    [publicClient, mapSummaries, fetchGame, diceAddress, lensAddress],
+  );
 
-      setGames(rawGames.reverse());
+  // Reloads every game already on screen, so a refresh keeps the scroll position
+  const loadGames = useCallback(async () => {
+    if (!publicClient) {
+      return;
+    }
+    setIsLoading(true);
+    setErrorMessage(null);
+    try {
+      const page = await fetchGamePage(0, Math.max(GAMES_PAGE_SIZE, loadedCount.current));
+      loadedCount.current = page.games.length;
+      setGames(page.games);
+      setTotalGames(page.total);
     } catch (error) {
       console.error('Failed to load games', error);
       setErrorMessage('Unable to load games. Please try again.');
     } finally {
       setIsLoading(false);
     }
-  }, [publicClient]);
+  }, [publicClient, fetchGamePage]);
+
+  const loadMoreGames = useCallback(async () => {
+    if (isLoading || isLoadingMore || BigInt(games.length) >= totalGames) {
+      return;
+    }
+    setIsLoadingMore(true);
+    try {
+      const page = await fetchGamePage(games.length, GAMES_PAGE_SIZE);
+      // Games created since the last load shift the offsets, so the new page may overlap the loaded one
+      const knownIds = new Set(games.map((game) => game.id));
+      const merged = [...games, ...page.games.filter((game) => !knownIds.has(game.id))];
+      loadedCount.current = merged.length;
+      setGames(merged);
+      setTotalGames(page.total);
+    } catch (error) {
+      console.error('Failed to load more games', error);
+      setErrorMessage('Unable to load more games. Please try again.');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [isLoading, isLoadingMore, games, totalGames, fetchGamePage]);
+
+  // Per-game claims are only offered while these balances still cover the game's credit, see `hasUnclaimedCredit`
+  const loadBalances = useCallback(async () => {
+    if (!publicClient || !address) {
+      setPlayerBalances(new Map());
+      return;
+    }
+    try {
+      const amounts = await Promise.all(
+        stakeAssets.map((asset) =>
+          publicClient.readContract({
+            address: diceAddress,
+            abi: CONTRACT_ABI,
+            functionName: 'balances',
+            args: [address, asset.address],
+          }),
+        ),
+      );
+      setPlayerBalances(new Map(stakeAssets.map((asset, index) => [asset.address.toLowerCase(), amounts[index]])));
+    } catch (error) {
+      console.error('Failed to load balances', error);
+    }
+  }, [publicClient, address, stakeAssets, diceAddress]);
+
+  const highlightGames = useCallback((ids: bigint[]) => {
+    setHighlightedIds((current) => new Set([...current, ...ids]));
+    setTimeout(() => {
+      setHighlightedIds((current) => new Set([...current].filter((id) => !ids.includes(id))));
+    }, HIGHLIGHT_DURATION_MS);
+  }, []);
+
+  // Re-reads the games named by new contract events and patches them into the list without reloading it
+  const applyGameUpdates = useCallback(
+    async (ids: bigint[]) => {
+      const updated = await Promise.all(ids.map((id) => fetchGame(id)));
+
+      setGames((current) => {
+        const byId = new Map(updated.map((game) => [game.id, game]));
+        const patched = current.map((game) => byId.get(game.id) ?? game);
+        // Ids only grow, so anything newer than the first card is a new lobby; older games outside the loaded
+        // pages are left for infinite scroll to pick up
+        const newest = current.length > 0 ? current[0].id : -1n;
+        const created = updated.filter((game) => game.id > newest).sort((a, b) => (a.id > b.id ? -1 : 1));
+        loadedCount.current = created.length + patched.length;
+        return [...created, ...patched];
+      });
+      setTotalGames((total) => updated.reduce((max, game) => (game.id + 1n > max ? game.id + 1n : max), total));
+      setPlayerGames((current) => {
+        const byId = new Map(updated.map((game) => [game.id, game]));
+        const known = new Set(current.map((game) => game.id));
+        const joined = updated.filter((game) => !known.has(game.id) && findPlayerIndex(game, address) >= 0);
+        return [...joined, ...current.map((game) => byId.get(game.id) ?? game)];
+      });
+      highlightGames(ids);
+    },
+    [fetchGame, highlightGames, address],
+  );
+
+  const handleContractLogs = useCallback(
+    (logs: Log[]) => {
+      if (logs.some((log) => BALANCE_EVENTS.has((log as Log & { eventName?: string }).eventName ?? ''))) {
+        loadBalances();
+      }
+
+      const ids = new Set<bigint>();
+      for (const log of logs) {
+        const args = (log as Log & { args?: { gameId?: bigint } }).args;
+        if (args?.gameId !== undefined) {
+          ids.add(args.gameId);
+        }
+      }
+      if (ids.size === 0) {
+        return;
+      }
+      applyGameUpdates([...ids]).catch((error) => console.error('Failed to apply game updates', error));
+    },
+    [applyGameUpdates, loadBalances],
+  );
+
+  const handleWatchError = useCallback((error: Error) => console.error('Game event subscription failed', error), []);
+
+  useWatchContractEvent({
+    address: diceAddress,
+    abi: CONTRACT_ABI,
+    // Subscribe over the websocket when the transport has one, otherwise poll for new logs
+    ...(publicClient?.transport.type === 'webSocket'
+      ? { poll: false as const }
+      : { poll: true as const, pollingInterval: EVENT_POLLING_INTERVAL_MS }),
+    enabled: isConnected,
+    onLogs: handleContractLogs,
+    onError: handleWatchError,
+  });
+
+  const hasMoreGames = BigInt(games.length) < totalGames;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMoreGames) {
+      return;
+    }
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        loadMoreGames();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMoreGames, loadMoreGames]);
 
   useEffect(() => {
     loadGames();
   }, [loadGames, refreshFlag]);
 
-  const getWritableContract = useCallback(async () => {
+  useEffect(() => {
+    loadBalances();
+  }, [loadBalances, refreshFlag]);
+
+  // The connected player's own games come from the lens player index, so the My active games and Claimable tabs do
+  // not depend on how far the list has been scrolled
+  const loadPlayerGames = useCallback(async () => {
+    if (!publicClient || !address || lensAddress === NATIVE_ASSET) {
+      setPlayerGames([]);
+      return;
+    }
+    try {
+      const [summaries] = await publicClient.readContract({
+        address: lensAddress,
+        abi: LENS_ABI,
+        functionName: 'getPlayerGames',
+        args: [address, 0n, BigInt(PLAYER_GAMES_LIMIT)],
+      });
+      setPlayerGames(await mapSummaries(summaries));
+    } catch (error) {
+      console.error('Failed to load your games', error);
+    }
+  }, [publicClient, address, mapSummaries, lensAddress]);
+
+  useEffect(() => {
+    loadPlayerGames();
+  }, [loadPlayerGames, refreshFlag]);
+
+  const lobby = useMemo(() => normalizeLobbyState(lobbyState), [lobbyState]);
+
+  const knownGames = useMemo(() => {
+    const byId = new Map(games.map((game) => [game.id, game]));
+    for (const game of playerGames) {
+      if (!byId.has(game.id)) {
+        byId.set(game.id, game);
+      }
+    }
+    return [...byId.values()];
+  }, [games, playerGames]);
+
+  const visibleGames = useMemo(
+    () =>
+      sortGames(
+        knownGames.filter(
+          (game) => matchesTab(game, lobby.tab, address, lobbyNow, playerBalances) && matchesFilters(game, lobby),
+        ),
+        lobby.sort,
+      ),
+    [knownGames, lobby, address, lobbyNow, playerBalances],
+  );
+
+  const claimableCount = useMemo(
+    () => knownGames.filter((game) => isClaimable(game, address, lobbyNow, playerBalances)).length,
+    [knownGames, address, lobbyNow, playerBalances],
+  );
+
+  const getSigner = useCallback(async () => {
     if (!signerPromise) {
       throw new Error('Connect a wallet to continue.');
     }
-    const signer = await signerPromise;
-    return new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+    return signerPromise;
   }, [signerPromise]);
 
+  const getWritableContract = useCallback(async () => {
+    const signer = await getSigner();
+    return new Contract(diceAddress, CONTRACT_ABI, signer);
+  }, [getSigner, diceAddress]);
+
   const handleCreateGame = useCallback(async () => {
     try {
+      let stake: bigint;
+      try {
+        stake = parseUnits(stakeInput.trim(), selectedStakeAsset.decimals);
+      } catch {
+        throw new Error('Enter a valid stake amount.');
+      }
+      if ((minStake !== undefined && stake < minStake) || (maxStake !== undefined && stake > maxStake)) {
+        throw new Error(`Stake must be between ${minStakeLabel} and ${maxStakeLabel}.`);
+      }
+      let maxBet = 0n;
+      if (maxBetInput.trim()) {
+        try {
+          maxBet = parseUnits(maxBetInput.trim(), selectedStakeAsset.decimals);
+        } catch {
+          throw new Error('Enter a valid max bet.');
+        }
+      }
+      if (maxBet > 0n && (capacity !== 2 || bestOf !== 1 || maxTieRerolls !== 0)) {
+        throw new Error('Bluff betting needs a two-player, single-round game without sudden death.');
+      }
+
       setProcessing({ action: 'Creating game' });
       setStatusMessage('Creating a new game…');
       setErrorMessage(null);
 
       const contract = await getWritableContract();
-      const tx = await contract.createGame();
+      const tx = await contract.createGame(selectedAsset, stake, {
+        capacity,
+        diceCount,
+        faces,
+        sealedResult,
+        bestOf,
+        maxTieRerolls,
+        maxBet,
+      });
       await tx.wait();
 
       setStatusMessage('Game created successfully.');
@@ -152,20 +551,46 @@ export function DiceApp() {
     } finally {
       setProcessing(null);
     }
-  }, [getWritableContract]);
+  }, [
+    stakeInput,
+    capacity,
+    diceCount,
+    faces,
+    sealedResult,
+    bestOf,
+    maxTieRerolls,
+    maxBetInput,
+    selectedAsset,
+    selectedStakeAsset,
+    minStake,
+    maxStake,
+    minStakeLabel,
+    maxStakeLabel,
+    getWritableContract,
+  ]);
 
   const handleJoin = useCallback(
-    async (gameId: bigint) => {
-      if (!entryFee) {
-        throw new Error('Entry fee not available.');
-      }
+    async (gameId: bigint, stakeToken: `0x${string}`, stake: bigint) => {
       try {
         setProcessing({ action: 'Joining game', gameId });
-        setStatusMessage('Sending join transaction…');
         setErrorMessage(null);
 
-        const contract = await getWritableContract();
-        const tx = await contract.joinGame(gameId, { value: entryFee });
+        const signer = await getSigner();
+        const isNative = stakeToken === NATIVE_ASSET;
+
+        if (!isNative) {
+          const token = new Contract(stakeToken, erc20Abi, signer);
+          const allowance: bigint = await token.allowance(await signer.getAddress(), diceAddress);
+          if (allowance < stake) {
+            setStatusMessage('Approving token spend…');
+            const approveTx = await token.approve(diceAddress, stake);
+            await approveTx.wait();
+          }
+        }
+
+        setStatusMessage('Sending join transaction…');
+        const contract = new Contract(diceAddress, CONTRACT_ABI, signer);
+        const tx = await contract.joinGame(gameId, { value: isNative ? stake : 0n });
         await tx.wait();
 
         setStatusMessage('Joined the game successfully.');
@@ -178,7 +603,7 @@ export function DiceApp() {
         setProcessing(null);
       }
     },
-    [entryFee, getWritableContract],
+    [getSigner, diceAddress],
   );
 
   const handleRoll = useCallback(
@@ -205,6 +630,151 @@ export function DiceApp() {
     [getWritableContract],
   );
 
+  const handleFinalizeReveal = useCallback(
+    async (gameId: bigint) => {
+      try {
+        if (!zamaInstance) {
+          throw new Error(zamaError ?? 'Encryption service is still initializing.');
+        }
+        if (!publicClient) {
+          throw new Error('Public client not available.');
+        }
+
+        setProcessing({ action: 'Finalizing reveal', gameId });
+        setStatusMessage('Fetching the public decryption of the reveal handles…');
+        setErrorMessage(null);
+
+        const handles = await publicClient.readContract({
+          address: diceAddress,
+          abi: CONTRACT_ABI,
+          functionName: 'getRevealHandles',
+          args: [gameId],
+        });
+        const decryption = await zamaInstance.publicDecrypt([...handles]);
+
+        setStatusMessage('Submitting the decrypted result…');
+        const contract = await getWritableContract();
+        const tx = await contract.finalizeReveal(gameId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+        await tx.wait();
+
+        setStatusMessage('Reveal finalized.');
+        setRefreshFlag((value) => value + 1);
+      } catch (error) {
+        const reason = extractErrorReason(error);
+        setErrorMessage(reason);
+        setStatusMessage(null);
+      } finally {
+        setProcessing(null);
+      }
+    },
+    [zamaInstance, zamaError, publicClient, getWritableContract, diceAddress],
+  );
+
+  const handleDecryptRoll = useCallback(
+    async (gameId: bigint, playerIndex: number) => {
+      try {
+        if (!zamaInstance) {
+          throw new Error(zamaError ?? 'Encryption service is still initializing.');
+        }
+        if (!publicClient) {
+          throw new Error('Public client not available.');
+        }
+
+        setProcessing({ action: 'Decrypting roll', gameId });
+        setStatusMessage('Sign the request to decrypt your roll…');
+        setErrorMessage(null);
+
+        const handle = (await publicClient.readContract({
+          address: diceAddress,
+          abi: CONTRACT_ABI,
+          functionName: 'getEncryptedRoll',
+          args: [gameId, playerIndex],
+        })) as `0x${string}`;
+
+        const signer = await getSigner();
+        const keypair = zamaInstance.generateKeypair();
+        const startTimestamp = Math.floor(Date.now() / 1000);
+        const contractAddresses = [diceAddress];
+        const eip712 = zamaInstance.createEIP712(
+          keypair.publicKey,
+          contractAddresses,
+          startTimestamp,
+          USER_DECRYPT_DURATION_DAYS,
+        );
+        const signature = await signer.signTypedData(
+          eip712.domain,
+          { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+          eip712.message,
+        );
+
+        const result = await zamaInstance.userDecrypt(
+          [{ handle, contractAddress: diceAddress }],
+          keypair.privateKey,
+          keypair.publicKey,
+          signature.replace('0x', ''),
+          contractAddresses,
+          await signer.getAddress(),
+          startTimestamp,
+          USER_DECRYPT_DURATION_DAYS,
+        );
+
+        setStatusMessage('Roll decrypted. Only you can see it.');
+        return BigInt(result[handle]);
+      } catch (error) {
+        const reason = extractErrorReason(error);
+        setErrorMessage(reason);
+        setStatusMessage(null);
+        return undefined;
+      } finally {
+        setProcessing(null);
+      }
+    },
+    [zamaInstance, zamaError, publicClient, getSigner, diceAddress],
+  );
+
+  const handleBet = useCallback(
+    async (gameId: bigint, stakeToken: `0x${string}`, action: BetAction, raise: bigint, payment: bigint) => {
+      try {
+        setProcessing({ action: action === 'fold' ? 'Folding' : 'Placing bet', gameId });
+        setErrorMessage(null);
+
+        const signer = await getSigner();
+        const isNative = stakeToken === NATIVE_ASSET;
+
+        if (!isNative && payment > 0n) {
+          const token = new Contract(stakeToken, erc20Abi, signer);
+          const allowance: bigint = await token.allowance(await signer.getAddress(), diceAddress);
+          if (allowance < payment) {
+            setStatusMessage('Approving token spend…');
+            const approveTx = await token.approve(diceAddress, payment);
+            await approveTx.wait();
+          }
+        }
+
+        setStatusMessage('Sending betting transaction…');
+        const contract = new Contract(diceAddress, CONTRACT_ABI, signer);
+        const value = isNative ? payment : 0n;
+        const tx =
+          action === 'fold'
+            ? await contract.fold(gameId)
+            : action === 'raise'
+              ? await contract.raiseBet(gameId, raise, { value })
+              : await contract.callBet(gameId, { value });
+        await tx.wait();
+
+        setStatusMessage(action === 'fold' ? 'You folded.' : 'Bet placed.');
+        setRefreshFlag((value) => value + 1);
+      } catch (error) {
+        const reason = extractErrorReason(error);
+        setErrorMessage(reason);
+        setStatusMessage(null);
+      } finally {
+        setProcessing(null);
+      }
+    },
+    [getSigner, diceAddress],
+  );
+
   const handleClaimReward = useCallback(
     async (gameId: bigint) => {
       try {
@@ -253,37 +823,126 @@ export function DiceApp() {
     [getWritableContract],
   );
 
+  const handleCancel = useCallback(
+    async (gameId: bigint) => {
+      try {
+        setProcessing({ action: 'Cancelling game', gameId });
+        setStatusMessage('Cancelling the game…');
+        setErrorMessage(null);
+
+        const contract = await getWritableContract();
+        const tx = await contract.cancelGame(gameId);
+        await tx.wait();
+
+        setStatusMessage('Game cancelled.');
+        setRefreshFlag((value) => value + 1);
+      } catch (error) {
+        const reason = extractErrorReason(error);
+        setErrorMessage(reason);
+        setStatusMessage(null);
+      } finally {
+        setProcessing(null);
+      }
+    },
+    [getWritableContract],
+  );
+
+  const handleClaimForfeit = useCallback(
+    async (gameId: bigint) => {
+      try {
+        setProcessing({ action: 'Claiming forfeit', gameId });
+        setStatusMessage('Claiming the pot by forfeit…');
+        setErrorMessage(null);
+
+        const contract = await getWritableContract();
+        const tx = await contract.claimForfeit(gameId);
+        await tx.wait();
+
+        setStatusMessage('Forfeit claimed successfully.');
+        setRefreshFlag((value) => value + 1);
+      } catch (error) {
+        const reason = extractErrorReason(error);
+        setErrorMessage(reason);
+        setStatusMessage(null);
+      } finally {
+        setProcessing(null);
+      }
+    },
+    [getWritableContract],
+  );
+
+  const handleReclaimStake = useCallback(
+    async (gameId: bigint) => {
+      try {
+        setProcessing({ action: 'Reclaiming stake', gameId });
+        setStatusMessage('Reclaiming your stake…');
+        setErrorMessage(null);
+
+        const contract = await getWritableContract();
+        const tx = await contract.reclaimStake(gameId);
+        await tx.wait();
+
+        setStatusMessage('Stake reclaimed successfully.');
+        setRefreshFlag((value) => value + 1);
+      } catch (error) {
+        const reason = extractErrorReason(error);
+        setErrorMessage(reason);
+        setStatusMessage(null);
+      } finally {
+        setProcessing(null);
+      }
+    },
+    [getWritableContract],
+  );
+
   const renderContent = () => {
     if (!isConnected) {
       return <p className="placeholder">Connect a wallet to start playing.</p>;
     }
 
-    if (isLoading) {
+    if (isLoading && games.length === 0) {
       return <p className="placeholder">Loading games…</p>;
     }
 
-    if (games.length === 0) {
+    if (knownGames.length === 0) {
       return <p className="placeholder">No games yet. Create the first one!</p>;
     }
 
     return (
-      <div className="game-grid">
-        {games.map((game) => (
-          <GameCard
-            key={game.id.toString()}
-            game={game}
-            currentAccount={address}
-            entryFee={entryFee}
-            rewardAmount={rewardAmount}
-            onJoin={handleJoin}
-            onRoll={handleRoll}
-            onClaimReward={handleClaimReward}
-            onClaimRefund={handleClaimRefund}
-            isProcessing={Boolean(processing && (processing.gameId === undefined || processing.gameId === game.id))}
-            processingAction={processing?.action}
-          />
-        ))}
-      </div>
+      <>
+        {visibleGames.length === 0 ? (
+          <p className="placeholder">No games match this tab and these filters.</p>
+        ) : (
+          <div className="game-grid">
+            {visibleGames.map((game) => (
+              <GameCard
+                key={game.id.toString()}
+                game={game}
+                currentAccount={address}
+                balances={playerBalances}
+                onJoin={handleJoin}
+                onRoll={handleRoll}
+                onFinalizeReveal={handleFinalizeReveal}
+                onDecryptRoll={handleDecryptRoll}
+                onBet={handleBet}
+                onClaimReward={handleClaimReward}
+                onClaimRefund={handleClaimRefund}
+                onCancel={handleCancel}
+                onClaimForfeit={handleClaimForfeit}
+                onReclaimStake={handleReclaimStake}
+                isProcessing={Boolean(processing && (processing.gameId === undefined || processing.gameId === game.id))}
+                processingAction={processing?.action}
+                isHighlighted={highlightedIds.has(game.id)}
+              />
+            ))}
+          </div>
+        )}
+        {hasMoreGames && (
+          <div ref={sentinelRef} className="game-grid-sentinel">
+            {isLoadingMore ? 'Loading more games…' : null}
+          </div>
+        )}
+      </>
     );
   };
 
@@ -292,20 +951,143 @@ export function DiceApp() {
       <section className="dice-summary">
         <h2>How it works</h2>
         <p>
-          Create a lobby, wait for another player, and roll FHE-powered dice. The highest roll wins the reward. Draws
-          can be refunded by both players.
+          Open a table for 2–{MAX_PLAYERS} players with your own stake and dice rule set, wait for every seat to fill,
+          and roll FHE-powered dice, from a single d4 up to {MAX_DICE}d20. Totals stay encrypted until everyone has
+          rolled; the highest total takes the pot and tied top totals split it evenly.
         </p>
         <div className="summary-grid">
           <div>
-            <span>Entry fee</span>
-            <strong>{entryFeeLabel}</strong>
+            <span>Min stake</span>
+            <strong>{minStakeLabel}</strong>
           </div>
           <div>
-            <span>Reward</span>
-            <strong>{rewardLabel}</strong>
+            <span>Max stake</span>
+            <strong>{maxStakeLabel}</strong>
+          </div>
+          <div>
+            <span>Protocol fee</span>
+            <strong>{feeBps !== undefined ? `${Number(feeBps) / 100}%` : '—'}</strong>
           </div>
         </div>
         <div className="actions">
+          {stakeAssets.length > 1 && (
+            <label className="stake-input">
+              <span>Asset</span>
+              <select
+                value={selectedAsset}
+                onChange={(event) => setSelectedAsset(event.target.value as `0x${string}`)}
+                disabled={Boolean(processing)}
+              >
+                {stakeAssets.map((asset) => (
+                  <option key={asset.address} value={asset.address}>
+                    {asset.symbol}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="stake-input">
+            <span>Stake ({selectedStakeAsset.symbol})</span>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={stakeInput}
+              onChange={(event) => setStakeInput(event.target.value)}
+              disabled={Boolean(processing)}
+            />
+          </label>
+          <label className="stake-input">
+            <span>Players</span>
+            <select
+              value={capacity}
+              onChange={(event) => setCapacity(Number(event.target.value))}
+              disabled={Boolean(processing)}
+            >
+              {Array.from({ length: MAX_PLAYERS - MIN_PLAYERS + 1 }, (_value, index) => MIN_PLAYERS + index).map(
+                (seats) => (
+                  <option key={seats} value={seats}>
+                    {seats}
+                  </option>
+                ),
+              )}
+            </select>
+          </label>
+          <label className="stake-input">
+            <span>Dice</span>
+            <select
+              value={diceCount}
+              onChange={(event) => setDiceCount(Number(event.target.value))}
+              disabled={Boolean(processing)}
+            >
+              {Array.from({ length: MAX_DICE }, (_value, index) => index + 1).map((count) => (
+                <option key={count} value={count}>
+                  {count}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="stake-input">
+            <span>Faces</span>
+            <select
+              value={faces}
+              onChange={(event) => setFaces(Number(event.target.value))}
+              disabled={Boolean(processing)}
+            >
+              {DIE_FACES.map((option) => (
+                <option key={option} value={option}>
+                  d{option}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="stake-input">
+            <span>Series</span>
+            <select
+              value={bestOf}
+              onChange={(event) => setBestOf(Number(event.target.value))}
+              disabled={Boolean(processing)}
+            >
+              {SERIES_LENGTHS.map((length) => (
+                <option key={length} value={length}>
+                  {length === 1 ? 'Single round' : `Best of ${length}`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="stake-input">
+            <span>Sudden death</span>
+            <select
+              value={maxTieRerolls}
+              onChange={(event) => setMaxTieRerolls(Number(event.target.value))}
+              disabled={Boolean(processing)}
+            >
+              {Array.from({ length: MAX_TIE_REROLLS + 1 }, (_value, index) => index).map((rerolls) => (
+                <option key={rerolls} value={rerolls}>
+                  {rerolls === 0 ? 'Off' : `${rerolls} re-roll${rerolls > 1 ? 's' : ''}`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="stake-input">
+            <span>Bluff max bet ({selectedStakeAsset.symbol})</span>
+            <input
+              type="text"
+              inputMode="decimal"
+              placeholder="Off"
+              value={maxBetInput}
+              onChange={(event) => setMaxBetInput(event.target.value)}
+              disabled={Boolean(processing)}
+            />
+          </label>
+          <label className="sealed-toggle">
+            <input
+              type="checkbox"
+              checked={sealedResult}
+              onChange={(event) => setSealedResult(event.target.checked)}
+              disabled={Boolean(processing)}
+            />
+            <span>Sealed result</span>
+          </label>
           <button
             type="button"
             onClick={handleCreateGame}
@@ -321,7 +1103,10 @@ export function DiceApp() {
         {errorMessage && <p className="status-message error">{errorMessage}</p>}
       </section>
 
-      <section className="dice-games">{renderContent()}</section>
+      <section className="dice-games">
+        {isConnected && <LobbyControls state={lobby} claimableCount={claimableCount} onChange={setLobbyState} />}
+        {renderContent()}
+      </section>
     </div>
   );
 }
@@ -1,6 +1,19 @@
-import { formatEther } from 'viem';
-import type { GameDetails } from '../type/game';
-import { GameStatus, STATUS_LABELS } from '../type/game';
+import { useState } from 'react';
+import { formatUnits, parseUnits } from 'viem';
+import type { BetAction, GameDetails, PlayerBalances } from '../type/game';
+import {
+  BPS_DENOMINATOR,
+  GameStatus,
+  STATUS_LABELS,
+  canClaimReward as isRewardClaimable,
+  canClaimRefund as isRefundClaimable,
+  canReclaimStake as isStakeReclaimable,
+  findPlayerIndex,
+  isDrawGame,
+} from '../type/game';
+import { useNow } from '../hooks/useNow';
+import { routePath } from '../hooks/useRoute';
+import { RouteLink } from './RouteLink';
 import '../styles/GameCard.css';
 
 const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
@@ -8,14 +21,20 @@ const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
 type GameCardProps = {
   game: GameDetails;
   currentAccount?: string;
-  entryFee?: bigint;
-  rewardAmount?: bigint;
-  onJoin(gameId: bigint): Promise<void>;
+  balances?: PlayerBalances;
+  onJoin(gameId: bigint, stakeToken: `0x${string}`, stake: bigint): Promise<void>;
   onRoll(gameId: bigint): Promise<void>;
+  onFinalizeReveal(gameId: bigint): Promise<void>;
+  onDecryptRoll(gameId: bigint, playerIndex: number): Promise<bigint | undefined>;
+  onBet(gameId: bigint, stakeToken: `0x${string}`, action: BetAction, raise: bigint, payment: bigint): Promise<void>;
   onClaimReward(gameId: bigint): Promise<void>;
   onClaimRefund(gameId: bigint): Promise<void>;
+  onCancel(gameId: bigint): Promise<void>;
+  onClaimForfeit(gameId: bigint): Promise<void>;
+  onReclaimStake(gameId: bigint): Promise<void>;
   isProcessing: boolean;
   processingAction?: string;
+  isHighlighted?: boolean;
 };
 
 function shortenAddress(address: string) {
@@ -25,138 +44,366 @@ function shortenAddress(address: string) {
   return `${address.slice(0, 6)}…${address.slice(-4)}`;
 }
 
+function formatCountdown(deadline: bigint, now: bigint) {
+  if (deadline <= now) {
+    return 'Expired';
+  }
+  const remaining = Number(deadline - now);
+  const hours = Math.floor(remaining / 3600);
+  const minutes = Math.floor((remaining % 3600) / 60);
+  const seconds = remaining % 60;
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m ${seconds.toString().padStart(2, '0')}s`;
+}
+
 export function GameCard({
   game,
   currentAccount,
-  entryFee,
-  rewardAmount,
+  balances,
   onJoin,
   onRoll,
+  onFinalizeReveal,
+  onDecryptRoll,
+  onBet,
   onClaimReward,
   onClaimRefund,
+  onCancel,
+  onClaimForfeit,
+  onReclaimStake,
   isProcessing,
   processingAction,
+  isHighlighted = false,
 }: GameCardProps) {
-  const isPlayerOne = currentAccount && game.playerOne.toLowerCase() === currentAccount.toLowerCase();
-  const isPlayerTwo = currentAccount && game.playerTwo.toLowerCase() === currentAccount.toLowerCase();
-  const isParticipant = Boolean(isPlayerOne || isPlayerTwo);
+  const now = useNow();
+  const [ownRoll, setOwnRoll] = useState<{ round: number; value: bigint }>();
+  const [raiseInput, setRaiseInput] = useState('');
 
-  const playerIndex = isPlayerOne ? 0 : isPlayerTwo ? 1 : -1;
+  const playerIndex = findPlayerIndex(game, currentAccount);
+  const isParticipant = playerIndex >= 0;
+  const isDraw = isDrawGame(game);
+  const credit = isParticipant ? game.credits[playerIndex] : 0n;
+
+  const isCreator = Boolean(currentAccount && game.creator.toLowerCase() === currentAccount.toLowerCase());
+
+  const activeDeadline =
+    game.status === GameStatus.WaitingForPlayers
+      ? game.joinDeadline
+      : game.status === GameStatus.WaitingForRolls
+        ? game.rollDeadline
+        : game.status === GameStatus.AwaitingReveal
+          ? game.revealDeadline
+          : game.status === GameStatus.Betting
+            ? game.betDeadline
+            : undefined;
+  const deadlinePassed = activeDeadline !== undefined && activeDeadline < now;
+
+  const deadlineLabel =
+    game.status === GameStatus.WaitingForPlayers
+      ? 'Join closes in'
+      : game.status === GameStatus.WaitingForRolls
+        ? 'Roll closes in'
+        : game.status === GameStatus.Betting
+          ? 'Betting closes in'
+          : 'Reveal closes in';
 
   const canJoin =
     game.status === GameStatus.WaitingForPlayers &&
+    !deadlinePassed &&
     !isParticipant &&
-    (game.playerOne === ZERO_ADDRESS || game.playerTwo === ZERO_ADDRESS);
+    game.players.length < game.capacity;
 
   const canRoll =
-    game.status === GameStatus.WaitingForRolls &&
-    playerIndex >= 0 &&
-    ((playerIndex === 0 && !game.playerOneRolled) || (playerIndex === 1 && !game.playerTwoRolled));
-
-  const canClaimReward =
-    game.status === GameStatus.Completed &&
-    game.winner !== ZERO_ADDRESS &&
-    currentAccount &&
-    game.winner.toLowerCase() === currentAccount.toLowerCase() &&
-    !game.rewardClaimed;
-
-  const canClaimRefund =
-    game.status === GameStatus.Completed &&
-    game.winner === ZERO_ADDRESS &&
-    playerIndex >= 0 &&
-    ((playerIndex === 0 && !game.playerOneRefunded) || (playerIndex === 1 && !game.playerTwoRefunded));
+    game.status === GameStatus.WaitingForRolls && !deadlinePassed && isParticipant && !game.rolled[playerIndex];
+
+  const canFinalizeReveal = game.status === GameStatus.AwaitingReveal && !deadlinePassed && Boolean(currentAccount);
+
+  const canClaimReward = isRewardClaimable(game, currentAccount, balances);
+
+  const canClaimRefund = isRefundClaimable(game, currentAccount, balances);
+
+  const canCancel = game.status === GameStatus.WaitingForPlayers && deadlinePassed && (isCreator || isParticipant);
+
+  const isBetting = game.status === GameStatus.Betting;
+  const canBet = isBetting && !deadlinePassed && isParticipant && playerIndex === game.turn;
+  const toCall = canBet ? game.bets[1 - playerIndex] - game.bets[playerIndex] : 0n;
+
+  const canClaimForfeit =
+    (game.status === GameStatus.WaitingForRolls &&
+      deadlinePassed &&
+      isParticipant &&
+      game.rolled[playerIndex] &&
+      game.rolled.some((rolled) => !rolled)) ||
+    (isBetting && deadlinePassed && isParticipant && playerIndex !== game.turn);
+
+  const canReclaimStake = isStakeReclaimable(game, currentAccount, now, balances);
 
   const actionLabel = processingAction ? `${processingAction}…` : 'Processing…';
 
-  const potDisplay = formatEther(game.pot);
-  const entryFeeDisplay = entryFee ? formatEther(entryFee) : undefined;
-  const rewardDisplay = rewardAmount ? formatEther(rewardAmount) : undefined;
+  const { symbol, decimals } = game.stakeAsset;
+  const potDisplay = formatUnits(game.pot, decimals);
+  const stakeDisplay = formatUnits(game.stake, decimals);
+  const grossPot = game.stake * BigInt(game.capacity) + game.bets.reduce((total, bet) => total + bet, 0n);
+  const expectedFee = game.fee > 0n ? game.fee : (grossPot * BigInt(game.feeBps)) / BPS_DENOMINATOR;
+  const rewardDisplay = formatUnits(grossPot - expectedFee, decimals);
+  const feeDisplay = formatUnits(expectedFee, decimals);
 
   const pendingReveal = game.status === GameStatus.AwaitingReveal || game.revealPending;
   const showResolvedRolls = game.status === GameStatus.Completed;
 
-  const playerOneRollLabel = showResolvedRolls
-    ? game.playerOneRoll.toString()
-    : pendingReveal && game.playerOneRolled
-      ? 'Decrypting…'
-      : game.playerOneRolled
-        ? 'Rolled'
-        : '—';
+  const seats = Array.from({ length: game.capacity }, (_value, index) => index);
+
+  const diceLabel = `${game.diceCount}d${game.faces}`;
 
-  const playerTwoRollLabel = showResolvedRolls
-    ? game.playerTwoRoll.toString()
-    : pendingReveal && game.playerTwoRolled
-      ? 'Decrypting…'
-      : game.playerTwoRolled
-        ? 'Rolled'
-        : '—';
+  const outcomeLabel = (index: number) =>
+    isDraw
+      ? 'Draw'
+      : game.winners.includes(game.players[index])
+        ? game.winners.length > 1
+          ? 'Split win'
+          : 'Win'
+        : 'Lose';
 
-  const winnerLabel = game.status === GameStatus.Completed ? (game.winner === ZERO_ADDRESS ? 'Draw' : shortenAddress(game.winner)) : 'Pending';
+  const rollLabel = (index: number) =>
+    showResolvedRolls
+      ? game.sealedResult
+        ? outcomeLabel(index)
+        : `${diceLabel} = ${game.rolls[index].toString()}`
+      : pendingReveal && game.rolled[index]
+        ? 'Decrypting…'
+        : game.rolled[index]
+          ? 'Rolled'
+          : '—';
+
+  const showOwnRoll = isParticipant && game.rolled[playerIndex] && (!showResolvedRolls || game.sealedResult);
+
+  const ownRollValue = ownRoll?.round === game.currentRound ? ownRoll.value : undefined;
+
+  const handleDecryptOwnRoll = async () => {
+    const round = game.currentRound;
+    const roll = await onDecryptRoll(game.id, playerIndex);
+    if (roll !== undefined) {
+      setOwnRoll({ round, value: roll });
+    }
+  };
+
+  const handleRaise = async () => {
+    let raise: bigint;
+    try {
+      raise = parseUnits(raiseInput.trim(), decimals);
+    } catch {
+      return;
+    }
+    await onBet(game.id, game.stakeToken, 'raise', raise, toCall + raise);
+    setRaiseInput('');
+  };
+
+  const isSeries = game.bestOf > 1;
+
+  const fullTieMask = (1 << game.players.length) - 1;
+  const tieHistory = game.rounds
+    .map((round, index) => ({ round, number: index + 1 }))
+    .filter(({ round }) => round.winnerMask === fullTieMask);
+
+  const roundWinnersLabel = (winnerMask: number) =>
+    game.players
+      .map((_player, index) => index)
+      .filter((index) => (winnerMask >> index) & 1)
+      .map((index) => `P${index + 1}`)
+      .join(', ');
+
+  const winnersLabel = game.winners.map(shortenAddress).join(', ');
+  const winnerLabel =
+    game.status === GameStatus.Forfeited
+      ? `${winnersLabel} (forfeit)`
+      : game.status === GameStatus.Cancelled || game.status === GameStatus.Expired
+        ? 'None'
+        : game.status === GameStatus.Completed
+          ? isDraw
+            ? 'Draw'
+            : game.winners.length > 1
+              ? `${winnersLabel} (split)`
+              : winnersLabel
+          : 'Pending';
 
   const noActionMessage = pendingReveal
     ? 'Waiting for secure decryption…'
-    : 'No available actions for this game.';
+    : isBetting && !deadlinePassed
+      ? `Waiting for Player ${game.turn + 1} to bet…`
+      : 'No available actions for this game.';
 
   return (
-    <div className="game-card">
+    <div className={isHighlighted ? 'game-card updated' : 'game-card'}>
       <div className="game-card-header">
         <div>
-          <h3>Game #{game.id.toString()}</h3>
+          <h3>
+            <RouteLink to={routePath({ view: 'game', gameId: game.id })}>Game #{game.id.toString()}</RouteLink>
+          </h3>
           <span className={`status status-${game.status}`}>{STATUS_LABELS[game.status]}</span>
         </div>
         <div className="game-card-pot">
           <span>Pot</span>
-          <strong>{potDisplay} ETH</strong>
+          <strong>{potDisplay} {symbol}</strong>
         </div>
       </div>
 
       <div className="game-card-section">
-        <h4>Players</h4>
-        <div className="player-row">
-          <span>Player 1</span>
-          <span>{shortenAddress(game.playerOne)}</span>
-        </div>
-        <div className="player-row">
-          <span>Player 2</span>
-          <span>{shortenAddress(game.playerTwo)}</span>
-        </div>
+        <h4>Players ({game.players.length}/{game.capacity})</h4>
+        {seats.map((index) => (
+          <div className="player-row" key={index}>
+            <span>Player {index + 1}</span>
+            <span>{shortenAddress(game.players[index] ?? ZERO_ADDRESS)}</span>
+          </div>
+        ))}
       </div>
 
       <div className="game-card-section">
-        <h4>Dice Results</h4>
-        <div className="player-row">
-          <span>Player 1 roll</span>
-          <span>{playerOneRollLabel}</span>
+        <h4>{game.sealedResult ? 'Sealed Results' : 'Dice Results'}</h4>
+        {game.players.length === 0 && <p className="no-actions">No players yet.</p>}
+        {game.players.map((player, index) => (
+          <div className="player-row" key={player}>
+            <span>Player {index + 1} {game.sealedResult ? 'outcome' : 'roll'}</span>
+            <span>{rollLabel(index)}</span>
+          </div>
+        ))}
+      </div>
+
+      {isSeries && (
+        <div className="game-card-section">
+          <h4>Scoreboard (best of {game.bestOf}, round {game.currentRound})</h4>
+          {game.rounds.length === 0 && <p className="no-actions">No rounds scored yet.</p>}
+          {game.rounds.map((round, index) => (
+            <div className="player-row" key={index}>
+              <span>Round {index + 1}</span>
+              <span>
+                {game.sealedResult ? '' : `${round.rolls.map((roll) => roll.toString()).join(' – ')} → `}
+                {roundWinnersLabel(round.winnerMask)}
+              </span>
+            </div>
+          ))}
+          <div className="player-row">
+            <span>Score</span>
+            <span>{game.scores.join(' – ')}</span>
+          </div>
         </div>
-        <div className="player-row">
-          <span>Player 2 roll</span>
-          <span>{playerTwoRollLabel}</span>
+      )}
+
+      {game.maxTieRerolls > 0 && (
+        <div className="game-card-section">
+          <h4>Sudden death ({game.tieRounds}/{game.maxTieRerolls} re-rolls)</h4>
+          {tieHistory.length === 0 && <p className="no-actions">No ties yet.</p>}
+          {tieHistory.map(({ round, number }) => (
+            <div className="player-row" key={number}>
+              <span>Tie in round {number}</span>
+              <span>{game.sealedResult ? 'Sealed' : round.rolls.map((roll) => roll.toString()).join(' – ')}</span>
+            </div>
+          ))}
         </div>
-      </div>
+      )}
+
+      {game.maxBet > 0n && (
+        <div className="game-card-section betting">
+          <h4>
+            Bluff betting (max {formatUnits(game.maxBet, decimals)} {symbol})
+          </h4>
+          {game.players.map((player, index) => (
+            <div className="player-row" key={player}>
+              <span>
+                Player {index + 1} bet{isBetting && index === game.turn ? ' (to act)' : ''}
+              </span>
+              <span>
+                {formatUnits(game.bets[index], decimals)} {symbol}
+              </span>
+            </div>
+          ))}
+          {canBet && (
+            <div className="betting-actions">
+              <input
+                type="text"
+                inputMode="decimal"
+                placeholder={`Raise (${symbol})`}
+                value={raiseInput}
+                onChange={(event) => setRaiseInput(event.target.value)}
+                disabled={isProcessing}
+              />
+              <button type="button" onClick={handleRaise} disabled={isProcessing || !raiseInput.trim()}>
+                Raise
+              </button>
+              <button
+                type="button"
+                onClick={() => onBet(game.id, game.stakeToken, 'call', 0n, toCall)}
+                disabled={isProcessing}
+              >
+                {toCall > 0n ? `Call ${formatUnits(toCall, decimals)}` : 'Check'}
+              </button>
+              <button type="button" onClick={() => onBet(game.id, game.stakeToken, 'fold', 0n, 0n)} disabled={isProcessing}>
+                Fold
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {showOwnRoll && (
+        <div className="game-card-section own-roll">
+          <h4>Your roll</h4>
+          {ownRollValue !== undefined ? (
+            <div className="player-row">
+              <span>Private result</span>
+              <span>
+                {diceLabel} = {ownRollValue.toString()}
+              </span>
+            </div>
+          ) : (
+            <button type="button" onClick={handleDecryptOwnRoll} disabled={isProcessing}>
+              {isProcessing ? actionLabel : 'Decrypt My Roll'}
+            </button>
+          )}
+        </div>
+      )}
 
       <div className="game-card-section">
         <h4>Summary</h4>
         <div className="player-row">
-          <span>Winner</span>
+          <span>{game.winners.length > 1 ? 'Winners' : 'Winner'}</span>
           <span>{winnerLabel}</span>
         </div>
-        {entryFeeDisplay && (
+        {activeDeadline !== undefined && activeDeadline > 0n && (
           <div className="player-row">
-            <span>Entry fee</span>
-            <span>{entryFeeDisplay} ETH</span>
+            <span>{deadlineLabel}</span>
+            <span className={deadlinePassed ? 'deadline-expired' : undefined}>{formatCountdown(activeDeadline, now)}</span>
           </div>
         )}
-        {rewardDisplay && (
+        <div className="player-row">
+          <span>Dice</span>
+          <span>{game.sealedResult ? `${diceLabel} (sealed)` : diceLabel}</span>
+        </div>
+        <div className="player-row">
+          <span>Stake</span>
+          <span>{stakeDisplay} {symbol}</span>
+        </div>
+        <div className="player-row">
+          <span>Reward (after fee)</span>
+          <span>{rewardDisplay} {symbol}</span>
+        </div>
+        {credit > 0n && (
           <div className="player-row">
-            <span>Reward</span>
-            <span>{rewardDisplay} ETH</span>
+            <span>Credited to your balance</span>
+            <span>{formatUnits(credit, decimals)} {symbol}</span>
+          </div>
+        )}
+        {game.feeBps > 0 && (
+          <div className="player-row">
+            <span>Protocol fee ({game.feeBps / 100}%)</span>
+            <span>{feeDisplay} {symbol}</span>
           </div>
         )}
       </div>
 
       <div className="game-card-actions">
         {canJoin && (
-          <button type="button" onClick={() => onJoin(game.id)} disabled={isProcessing}>
+          <button type="button" onClick={() => onJoin(game.id, game.stakeToken, game.stake)} disabled={isProcessing}>
             {isProcessing ? actionLabel : 'Join Game'}
           </button>
         )}
@@ -165,6 +412,11 @@ export function GameCard({
             {isProcessing ? actionLabel : 'Roll Dice'}
           </button>
         )}
+        {canFinalizeReveal && (
+          <button type="button" onClick={() => onFinalizeReveal(game.id)} disabled={isProcessing}>
+            {isProcessing ? actionLabel : 'Finalize Reveal'}
+          </button>
+        )}
         {canClaimReward && (
           <button type="button" onClick={() => onClaimReward(game.id)} disabled={isProcessing}>
             {isProcessing ? actionLabel : 'Claim Reward'}
@@ -175,7 +427,29 @@ export function GameCard({
             {isProcessing ? actionLabel : 'Claim Refund'}
           </button>
         )}
-        {!canJoin && !canRoll && !canClaimReward && !canClaimRefund && (
+        {canCancel && (
+          <button type="button" onClick={() => onCancel(game.id)} disabled={isProcessing}>
+            {isProcessing ? actionLabel : 'Cancel Game'}
+          </button>
+        )}
+        {canClaimForfeit && (
+          <button type="button" onClick={() => onClaimForfeit(game.id)} disabled={isProcessing}>
+            {isProcessing ? actionLabel : 'Claim Forfeit'}
+          </button>
+        )}
+        {canReclaimStake && (
+          <button type="button" onClick={() => onReclaimStake(game.id)} disabled={isProcessing}>
+            {isProcessing ? actionLabel : 'Reclaim Stake'}
+          </button>
+        )}
+        {!canJoin &&
+          !canRoll &&
+          !canFinalizeReveal &&
+          !canClaimReward &&
+          !canClaimRefund &&
+          !canCancel &&
+          !canClaimForfeit &&
+          !canReclaimStake && (
           <p className="no-actions">{noActionMessage}</p>
         )}
       </div>
@@ -0,0 +1,358 @@
+import { useCallback, useEffect, useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import { erc20Abi, formatUnits, parseEventLogs, toHex } from 'viem';
+import type { ContractFunctionReturnType } from 'viem';
+
+import { CONTRACT_ABI } from '../config/contracts';
+import { useContracts } from '../hooks/useContracts';
+import { INDEXER_URL, fetchIndexer } from '../config/indexer';
+import { routePath } from '../hooks/useRoute';
+import type { GameStatus, StakeAsset } from '../type/game';
+import { ETH_ASSET, NATIVE_ASSET, STATUS_LABELS } from '../type/game';
+import type { IndexedGameWithEvents } from '../type/indexer';
+import { RouteLink } from './RouteLink';
+import '../styles/DiceApp.css';
+import '../styles/GameCard.css';
+import '../styles/GameDetail.css';
+
+type RawGame = ContractFunctionReturnType<typeof CONTRACT_ABI, 'view', 'getGame'>;
+
+type TimelineEntry = {
+  key: string;
+  name: string;
+  blockNumber: bigint;
+  transactionHash: `0x${string}`;
+  args: Record<string, unknown>;
+  timestamp?: bigint;
+};
+
+type GameDetailState = {
+  game: RawGame;
+  pot: bigint;
+  handles: `0x${string}`[];
+  asset: StakeAsset;
+  timeline: TimelineEntry[];
+};
+
+type GameDetailProps = {
+  gameId: bigint;
+};
+
+const COPY_FEEDBACK_MS = 2_000;
+
+function shorten(value: string) {
+  return `${value.slice(0, 8)}…${value.slice(-6)}`;
+}
+
+function formatDeadline(deadline: bigint) {
+  return deadline === 0n ? '—' : new Date(Number(deadline) * 1000).toLocaleString();
+}
+
+function formatArg(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map(formatArg).join(', ');
+  }
+  return String(value);
+}
+
+export function GameDetail({ gameId }: GameDetailProps) {
+  const publicClient = usePublicClient();
+  const { diceAddress } = useContracts();
+
+  const [detail, setDetail] = useState<GameDetailState | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Events come from the indexer when one is configured, otherwise from the node, filtered on the indexed game id
+  const loadTimeline = useCallback(async (): Promise<TimelineEntry[]> => {
+    if (!publicClient) {
+      return [];
+    }
+
+    let entries: TimelineEntry[];
+    if (INDEXER_URL) {
+      const indexed = await fetchIndexer<IndexedGameWithEvents>(`/games/${gameId.toString()}`);
+      entries = indexed.events.map((event) => ({
+        key: `${event.transactionHash}-${event.logIndex}`,
+        name: event.name,
+        blockNumber: BigInt(event.blockNumber),
+        transactionHash: event.transactionHash,
+        args: event.args,
+      }));
+    } else {
+      const logs = await publicClient.request({
+        method: 'eth_getLogs',
+        params: [
+          {
+            address: diceAddress,
+            fromBlock: 'earliest',
+            toBlock: 'latest',
+            topics: [null, toHex(gameId, { size: 32 })],
+          },
+        ],
+      });
+      entries = parseEventLogs({ abi: CONTRACT_ABI, logs })
+        .filter((log) => 'gameId' in log.args && log.args.gameId === gameId)
+        .map((log) => ({
+          key: `${log.transactionHash}-${log.logIndex}`,
+          name: log.eventName,
+          blockNumber: BigInt(log.blockNumber ?? 0),
+          transactionHash: log.transactionHash ?? '0x',
+          args: log.args,
+        }));
+    }
+
+    const blockNumbers = [...new Set(entries.map((entry) => entry.blockNumber))];
+    const blocks = await Promise.all(blockNumbers.map((blockNumber) => publicClient.getBlock({ blockNumber })));
+    const timestamps = new Map(blocks.map((block) => [block.number, block.timestamp]));
+    return entries.map((entry) => ({ ...entry, timestamp: timestamps.get(entry.blockNumber) }));
+  }, [publicClient, gameId, diceAddress]);
+
+  const loadGame = useCallback(async () => {
+    if (!publicClient) {
+      return;
+    }
+    setIsLoading(true);
+    setErrorMessage(null);
+    try {
+      const [game, pot] = await Promise.all([
+        publicClient.readContract({
+          address: diceAddress,
+          abi: CONTRACT_ABI,
+          functionName: 'getGame',
+          args: [gameId],
+        }),
+        publicClient.readContract({
+          address: diceAddress,
+          abi: CONTRACT_ABI,
+          functionName: 'getGamePot',
+          args: [gameId],
+        }),
+      ]);
+
+      const [handles, asset, timeline] = await Promise.all([
+        Promise.all(
+          game.players.map((_player, index) =>
+            publicClient.readContract({
+              address: diceAddress,
+              abi: CONTRACT_ABI,
+              functionName: 'getEncryptedRoll',
+              args: [gameId, index],
+            }),
+          ),
+        ),
+        game.stakeToken === NATIVE_ASSET
+          ? Promise.resolve(ETH_ASSET)
+          : Promise.all([
+              publicClient.readContract({ address: game.stakeToken, abi: erc20Abi, functionName: 'symbol' }),
+              publicClient.readContract({ address: game.stakeToken, abi: erc20Abi, functionName: 'decimals' }),
+            ]).then(([symbol, decimals]): StakeAsset => ({ address: game.stakeToken, symbol, decimals })),
+        loadTimeline(),
+      ]);
+
+      setDetail({ game, pot, handles, asset, timeline });
+    } catch (error) {
+      console.error(`Failed to load game ${gameId}`, error);
+      setErrorMessage(`Unable to load game #${gameId.toString()}. It may not exist on this network.`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [publicClient, gameId, loadTimeline, diceAddress]);
+
+  useEffect(() => {
+    loadGame();
+  }, [loadGame]);
+
+  const handleCopyLink = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${routePath({ view: 'game', gameId })}`);
+      setCopied(true);
+      setTimeout(() => setCopied(false), COPY_FEEDBACK_MS);
+    } catch (error) {
+      console.error('Failed to copy link', error);
+    }
+  }, [gameId]);
+
+  const renderContent = () => {
+    if (!detail) {
+      if (errorMessage) {
+        return <p className="placeholder">{errorMessage}</p>;
+      }
+      return <p className="placeholder">Loading game…</p>;
+    }
+
+    const { game, pot, handles, asset, timeline } = detail;
+    const formatAmount = (amount: bigint) => `${formatUnits(amount, asset.decimals)} ${asset.symbol}`;
+
+    return (
+      <>
+        <section className="dice-summary">
+          <div className="summary-grid">
+            <div>
+              <span>Stake</span>
+              <strong>{formatAmount(game.stake)}</strong>
+            </div>
+            <div>
+              <span>Pot</span>
+              <strong>{formatAmount(pot)}</strong>
+            </div>
+            <div>
+              <span>Fee</span>
+              <strong>
+                {game.feeBps / 100}% ({formatAmount(game.fee)})
+              </strong>
+            </div>
+            <div>
+              <span>Seats</span>
+              <strong>
+                {game.players.length} / {game.capacity}
+              </strong>
+            </div>
+            <div>
+              <span>Dice</span>
+              <strong>
+                {game.diceCount}d{game.faces}
+                {game.sealedResult ? ', sealed' : ''}
+              </strong>
+            </div>
+            <div>
+              <span>Series</span>
+              <strong>
+                Round {game.currentRound} of best of {game.bestOf}
+              </strong>
+            </div>
+            <div>
+              <span>Tie re-rolls</span>
+              <strong>
+                {game.tieRounds} / {game.maxTieRerolls}
+              </strong>
+            </div>
+            <div>
+              <span>Max bet</span>
+              <strong>{game.maxBet > 0n ? formatAmount(game.maxBet) : '—'}</strong>
+            </div>
+          </div>
+          <dl className="game-detail-deadlines">
+            <dt>Creator</dt>
+            <dd>{game.creator}</dd>
+            <dt>Join deadline</dt>
+            <dd>{formatDeadline(game.joinDeadline)}</dd>
+            <dt>Roll deadline</dt>
+            <dd>{formatDeadline(game.rollDeadline)}</dd>
+            <dt>Reveal deadline</dt>
+            <dd>{formatDeadline(game.revealDeadline)}</dd>
+            <dt>Bet deadline</dt>
+            <dd>{formatDeadline(game.betDeadline)}</dd>
+            <dt>Winners</dt>
+            <dd>{game.winners.length > 0 ? game.winners.join(', ') : '—'}</dd>
+          </dl>
+        </section>
+
+        <section className="dice-games game-detail-body">
+          <h3>Players</h3>
+          <table className="game-detail-table">
+            <thead>
+              <tr>
+                <th>Seat</th>
+                <th>Player</th>
+                <th>Rolled</th>
+                <th>{game.sealedResult ? 'Outcome' : 'Revealed roll'}</th>
+                <th>Score</th>
+                <th>Bet</th>
+                <th>Credit</th>
+                <th>Encrypted roll handle</th>
+              </tr>
+            </thead>
+            <tbody>
+              {game.players.map((player, index) => (
+                <tr key={player}>
+                  <td>{index + 1}</td>
+                  <td title={player}>{shorten(player)}</td>
+                  <td>{game.rolled[index] ? 'Yes' : 'No'}</td>
+                  <td>{game.revealedRolls[index] || '—'}</td>
+                  <td>{game.scores[index] ?? 0}</td>
+                  <td>{game.bets[index] ? formatAmount(game.bets[index]) : '—'}</td>
+                  <td>
+                    {game.credits[index] ? formatAmount(game.credits[index]) : '—'}
+                    {game.payoutClaimed[index] ? ' (paid)' : ''}
+                  </td>
+                  <td className="handle" title={handles[index]}>
+                    {handles[index] ? shorten(handles[index]) : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {game.rounds.length > 0 && (
+            <>
+              <h3>Rounds</h3>
+              <ol className="game-detail-rounds">
+                {game.rounds.map((round, index) => (
+                  <li key={index}>
+                    Rolls {round.rolls.join(', ') || 'sealed'} — winner mask {round.winnerMask}
+                  </li>
+                ))}
+              </ol>
+            </>
+          )}
+
+          <h3>Timeline</h3>
+          {timeline.length === 0 ? (
+            <p className="placeholder">No events found for this game.</p>
+          ) : (
+            <ol className="game-detail-timeline">
+              {timeline.map((entry) => (
+                <li key={entry.key}>
+                  <div>
+                    <strong>{entry.name}</strong>
+                    <span>
+                      {entry.timestamp !== undefined
+                        ? new Date(Number(entry.timestamp) * 1000).toLocaleString()
+                        : `Block ${entry.blockNumber}`}
+                    </span>
+                  </div>
+                  <p>
+                    {Object.entries(entry.args)
+                      .filter(([name]) => name !== 'gameId')
+                      .map(([name, value]) => `${name}: ${formatArg(value)}`)
+                      .join(' · ')}
+                  </p>
+                  <code title={entry.transactionHash}>
+                    Block {entry.blockNumber.toString()} · tx {shorten(entry.transactionHash)}
+                  </code>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+      </>
+    );
+  };
+
+  return (
+    <div className="dice-app">
+      <section className="dice-summary game-detail-header">
+        <RouteLink to={routePath({ view: 'games' })}>← All games</RouteLink>
+        <h2>Game #{gameId.toString()}</h2>
+        {detail && (
+          <span className={`status status-${detail.game.status}`}>
+            {STATUS_LABELS[detail.game.status as GameStatus]}
+          </span>
+        )}
+        <div className="actions">
+          <button type="button" onClick={handleCopyLink}>
+            {copied ? 'Link copied' : 'Copy link'}
+          </button>
+          <button type="button" onClick={() => loadGame()} disabled={isLoading}>
+            {isLoading ? 'Refreshing…' : 'Refresh'}
+          </button>
+        </div>
+        {detail && errorMessage && <p className="status-message error">{errorMessage}</p>}
+      </section>
+
+      {renderContent()}
+    </div>
+  );
+}
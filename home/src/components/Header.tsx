@@ -1,6 +1,64 @@
+import { useState } from 'react';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { useAccount, useReadContract } from 'wagmi';
+import { Contract } from 'ethers';
+import { formatEther } from 'viem';
+
+import { CONTRACT_ABI } from '../config/contracts';
+import { useContracts } from '../hooks/useContracts';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { NATIVE_ASSET } from '../type/game';
 import '../styles/Header.css';
 
+function BalanceWidget() {
+  const { address } = useAccount();
+  const { diceAddress, isSupported } = useContracts();
+  const signerPromise = useEthersSigner();
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: balance, refetch } = useReadContract({
+    abi: CONTRACT_ABI,
+    address: diceAddress,
+    functionName: 'balances',
+    args: address ? [address, NATIVE_ASSET] : undefined,
+    query: { enabled: Boolean(address) && isSupported, refetchInterval: 15_000 },
+  });
+
+  if (!address || balance === undefined) {
+    return null;
+  }
+
+  const handleWithdraw = async () => {
+    if (!signerPromise) {
+      return;
+    }
+    setIsWithdrawing(true);
+    setError(null);
+    try {
+      const contract = new Contract(diceAddress, CONTRACT_ABI, await signerPromise);
+      const tx = await contract.withdrawAll(NATIVE_ASSET);
+      await tx.wait();
+      await refetch();
+    } catch (withdrawError) {
+      console.error('Withdraw failed', withdrawError);
+      setError('Withdraw failed');
+    } finally {
+      setIsWithdrawing(false);
+    }
+  };
+
+  return (
+    <div className="header-balance">
+      <span>Balance: {formatEther(balance)} ETH</span>
+      <button type="button" onClick={handleWithdraw} disabled={balance === 0n || isWithdrawing}>
+        {isWithdrawing ? 'Withdrawing…' : 'Withdraw'}
+      </button>
+      {error && <span className="header-balance-error">{error}</span>}
+    </div>
+  );
+}
+
 export function Header() {
   return (
     <header className="header">
@@ -10,7 +68,10 @@ export function Header() {
             <h1 className="header-title">Secret Dice</h1>
             <span className="header-subtitle">Play fair dice games powered by FHE randomness</span>
           </div>
-          <ConnectButton />
+          <div className="header-right">
+            <BalanceWidget />
+            <ConnectButton />
+          </div>
         </div>
       </div>
     </header>
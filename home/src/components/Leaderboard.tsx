@@ -0,0 +1,237 @@
+import { useEffect, useState } from 'react';
+import { useAccount, usePublicClient, useReadContract } from 'wagmi';
+import { erc20Abi, formatUnits } from 'viem';
+
+import { CONTRACT_ABI, LENS_ABI } from '../config/contracts';
+import { useContracts } from '../hooks/useContracts';
+import { INDEXER_URL } from '../config/indexer';
+import { PlayerHistory } from './PlayerHistory';
+import type { StakeAsset } from '../type/game';
+import { ETH_ASSET, NATIVE_ASSET } from '../type/game';
+import '../styles/DiceApp.css';
+import '../styles/Leaderboard.css';
+
+const PAGE_SIZE = 20;
+
+const LeaderboardOrder = {
+  Wins: 0,
+  NetProfit: 1,
+} as const;
+
+type LeaderboardOrder = (typeof LeaderboardOrder)[keyof typeof LeaderboardOrder];
+
+function shortenAddress(address: string) {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+function formatNet(net: bigint, asset: StakeAsset) {
+  const sign = net < 0n ? '-' : net > 0n ? '+' : '';
+  return `${sign}${formatUnits(net < 0n ? -net : net, asset.decimals)} ${asset.symbol}`;
+}
+
+export function Leaderboard() {
+  const { address } = useAccount();
+  const { diceAddress, lensAddress } = useContracts();
+  const publicClient = usePublicClient();
+
+  const isDeployed = lensAddress !== NATIVE_ASSET;
+
+  const [stakeAssets, setStakeAssets] = useState<StakeAsset[]>([ETH_ASSET]);
+  const [selectedAsset, setSelectedAsset] = useState<`0x${string}`>(NATIVE_ASSET);
+  const [order, setOrder] = useState<LeaderboardOrder>(LeaderboardOrder.Wins);
+  const [page, setPage] = useState(0);
+
+  const asset = stakeAssets.find((option) => option.address === selectedAsset) ?? ETH_ASSET;
+
+  const { data: allowedTokens } = useReadContract({
+    abi: CONTRACT_ABI,
+    address: diceAddress,
+    functionName: 'getAllowedTokens',
+  });
+
+  useEffect(() => {
+    if (!publicClient || !allowedTokens || allowedTokens.length === 0) {
+      return;
+    }
+    Promise.all(
+      allowedTokens.map(async (token): Promise<StakeAsset> => {
+        const [symbol, decimals] = await Promise.all([
+          publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'symbol' }),
+          publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'decimals' }),
+        ]);
+        return { address: token, symbol, decimals };
+      }),
+    )
+      .then((tokens) => setStakeAssets([ETH_ASSET, ...tokens]))
+      .catch((error) => console.error('Failed to load stake tokens', error));
+  }, [publicClient, allowedTokens]);
+
+  const {
+    data: leaderboard,
+    isLoading,
+    error,
+    refetch,
+  } = useReadContract({
+    abi: LENS_ABI,
+    address: lensAddress,
+    functionName: 'getLeaderboard',
+    args: [selectedAsset, order, BigInt(page * PAGE_SIZE), BigInt(PAGE_SIZE)],
+    query: { enabled: isDeployed },
+  });
+
+  const { data: ownStats } = useReadContract({
+    abi: CONTRACT_ABI,
+    address: diceAddress,
+    functionName: 'getPlayerStats',
+    args: address ? [address, selectedAsset] : undefined,
+    query: { enabled: Boolean(address) },
+  });
+
+  const [entries, total] = leaderboard ?? [[], 0n];
+  const pageCount = Math.max(1, Math.ceil(Number(total) / PAGE_SIZE));
+
+  const renderContent = () => {
+    if (!isDeployed) {
+      return <p className="placeholder">The leaderboard is not deployed on this network yet.</p>;
+    }
+
+    if (isLoading) {
+      return <p className="placeholder">Loading leaderboard…</p>;
+    }
+
+    if (error) {
+      return <p className="placeholder">Unable to load the leaderboard. Please try again.</p>;
+    }
+
+    if (entries.length === 0) {
+      return <p className="placeholder">No decided {asset.symbol} games yet.</p>;
+    }
+
+    return (
+      <>
+        <table className="leaderboard-table">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Player</th>
+              <th>Played</th>
+              <th>W / L / D</th>
+              <th>Wagered</th>
+              <th>Net</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry, index) => {
+              const isSelf = Boolean(address && entry.player.toLowerCase() === address.toLowerCase());
+              return (
+                <tr key={entry.player} className={isSelf ? 'own' : undefined}>
+                  <td>{page * PAGE_SIZE + index + 1}</td>
+                  <td>
+                    {shortenAddress(entry.player)}
+                    {isSelf && ' (You)'}
+                  </td>
+                  <td>{entry.stats.played}</td>
+                  <td>
+                    {entry.stats.wins} / {entry.stats.losses} / {entry.stats.draws}
+                  </td>
+                  <td>
+                    {formatUnits(entry.stats.wagered, asset.decimals)} {asset.symbol}
+                  </td>
+                  <td className={entry.stats.net < 0n ? 'net-loss' : 'net-gain'}>{formatNet(entry.stats.net, asset)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {pageCount > 1 && (
+          <div className="leaderboard-pages">
+            <button type="button" onClick={() => setPage((value) => value - 1)} disabled={page === 0}>
+              Previous
+            </button>
+            <span>
+              Page {page + 1} of {pageCount}
+            </span>
+            <button type="button" onClick={() => setPage((value) => value + 1)} disabled={page + 1 >= pageCount}>
+              Next
+            </button>
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="dice-app">
+      <section className="dice-summary">
+        <h2>Leaderboard</h2>
+        <p>
+          Lifetime results of the top 50 players in decided games, per stake asset. Cancelled and expired games are
+          not counted.
+        </p>
+        {ownStats && (
+          <div className="summary-grid">
+            <div>
+              <span>Your games</span>
+              <strong>{ownStats.played}</strong>
+            </div>
+            <div>
+              <span>Your record</span>
+              <strong>
+                {ownStats.wins}W / {ownStats.losses}L / {ownStats.draws}D
+              </strong>
+            </div>
+            <div>
+              <span>Your net</span>
+              <strong>{formatNet(ownStats.net, asset)}</strong>
+            </div>
+          </div>
+        )}
+        <div className="actions">
+          {stakeAssets.length > 1 && (
+            <label className="stake-input">
+              <span>Asset</span>
+              <select
+                value={selectedAsset}
+                onChange={(event) => {
+                  setSelectedAsset(event.target.value as `0x${string}`);
+                  setPage(0);
+                }}
+              >
+                {stakeAssets.map((option) => (
+                  <option key={option.address} value={option.address}>
+                    {option.symbol}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="stake-input">
+            <span>Rank by</span>
+            <select
+              value={order}
+              onChange={(event) => {
+                setOrder(Number(event.target.value) as LeaderboardOrder);
+                setPage(0);
+              }}
+            >
+              <option value={LeaderboardOrder.Wins}>Wins</option>
+              <option value={LeaderboardOrder.NetProfit}>Net profit</option>
+            </select>
+          </label>
+          <button type="button" onClick={() => refetch()} disabled={!isDeployed || isLoading}>
+            Refresh
+          </button>
+        </div>
+      </section>
+
+      <section className="dice-games">{renderContent()}</section>
+
+      {INDEXER_URL && address && (
+        <section className="dice-games">
+          <h2>Your recent games</h2>
+          <PlayerHistory address={address} stakeAssets={stakeAssets} />
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { STATUS_LABELS } from '../type/game';
+import type { LobbySort, LobbyState } from '../type/lobby';
+import { LOBBY_SORTS, LOBBY_TABS } from '../type/lobby';
+import '../styles/DiceApp.css';
+
+type LobbyControlsProps = {
+  state: LobbyState;
+  claimableCount: number;
+  onChange(changes: Partial<LobbyState>): void;
+};
+
+export function LobbyControls({ state, claimableCount, onChange }: LobbyControlsProps) {
+  return (
+    <div className="lobby-controls">
+      <div className="lobby-tabs" role="tablist">
+        {LOBBY_TABS.map((tab) => (
+          <button
+            key={tab.value}
+            type="button"
+            role="tab"
+            aria-selected={state.tab === tab.value}
+            className={state.tab === tab.value ? 'active' : ''}
+            onClick={() => onChange({ tab: tab.value })}
+          >
+            {tab.label}
+            {tab.value === 'claimable' && claimableCount > 0 && <span className="lobby-badge">{claimableCount}</span>}
+          </button>
+        ))}
+      </div>
+      <div className="lobby-filters">
+        <label className="stake-input">
+          <span>Status</span>
+          <select value={state.status} onChange={(event) => onChange({ status: event.target.value })}>
+            <option value="">Any</option>
+            {Object.entries(STATUS_LABELS).map(([status, label]) => (
+              <option key={status} value={status}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="stake-input">
+          <span>Min stake</span>
+          <input
+            type="text"
+            inputMode="decimal"
+            placeholder="Any"
+            value={state.minStake}
+            onChange={(event) => onChange({ minStake: event.target.value })}
+          />
+        </label>
+        <label className="stake-input">
+          <span>Max stake</span>
+          <input
+            type="text"
+            inputMode="decimal"
+            placeholder="Any"
+            value={state.maxStake}
+            onChange={(event) => onChange({ maxStake: event.target.value })}
+          />
+        </label>
+        <label className="stake-input">
+          <span>Participant</span>
+          <input
+            type="text"
+            placeholder="0x…"
+            value={state.player}
+            onChange={(event) => onChange({ player: event.target.value })}
+          />
+        </label>
+        <label className="stake-input">
+          <span>Sort by</span>
+          <select value={state.sort} onChange={(event) => onChange({ sort: event.target.value as LobbySort })}>
+            {LOBBY_SORTS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
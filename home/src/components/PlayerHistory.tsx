@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useState } from 'react';
+import { formatUnits } from 'viem';
+
+import { fetchIndexer } from '../config/indexer';
+import type { StakeAsset } from '../type/game';
+import type { IndexedGame, IndexerPage } from '../type/indexer';
+import { INDEXED_STATE_LABELS } from '../type/indexer';
+import '../styles/Leaderboard.css';
+
+const HISTORY_SIZE = 10;
+
+type PlayerHistoryProps = {
+  address: `0x${string}`;
+  stakeAssets: StakeAsset[];
+};
+
+function formatResult(game: IndexedGame, address: string) {
+  if (game.state !== 'resolved' && game.state !== 'forfeited') {
+    return '—';
+  }
+  if (game.winners.length === game.players.length) {
+    return 'Draw';
+  }
+  return game.winners.some((winner) => winner.toLowerCase() === address.toLowerCase()) ? 'Won' : 'Lost';
+}
+
+// Recent games of the connected player, served by the optional event indexer
+export function PlayerHistory({ address, stakeAssets }: PlayerHistoryProps) {
+  const [history, setHistory] = useState<IndexerPage<IndexedGame> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    setError(null);
+    try {
+      setHistory(await fetchIndexer<IndexerPage<IndexedGame>>(`/players/${address}/games?limit=${HISTORY_SIZE}`));
+    } catch (loadError) {
+      console.error('Failed to load game history', loadError);
+      setError('Unable to reach the indexer.');
+    }
+  }, [address]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const formatStake = (game: IndexedGame) => {
+    const asset = stakeAssets.find((option) => option.address.toLowerCase() === game.stakeToken.toLowerCase());
+    return asset ? `${formatUnits(BigInt(game.stake), asset.decimals)} ${asset.symbol}` : `${game.stake} units`;
+  };
+
+  if (error) {
+    return <p className="placeholder">{error}</p>;
+  }
+
+  if (!history) {
+    return <p className="placeholder">Loading your history…</p>;
+  }
+
+  if (history.items.length === 0) {
+    return <p className="placeholder">You have not joined any games yet.</p>;
+  }
+
+  return (
+    <table className="leaderboard-table">
+      <thead>
+        <tr>
+          <th>Game</th>
+          <th>Players</th>
+          <th>Stake</th>
+          <th>Status</th>
+          <th>Result</th>
+        </tr>
+      </thead>
+      <tbody>
+        {history.items.map((game) => (
+          <tr key={game.gameId}>
+            <td>#{game.gameId}</td>
+            <td>{game.players.length}</td>
+            <td>{formatStake(game)}</td>
+            <td>{INDEXED_STATE_LABELS[game.state]}</td>
+            <td>{formatResult(game, address)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
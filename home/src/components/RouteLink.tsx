@@ -0,0 +1,21 @@
+import type { AnchorHTMLAttributes, MouseEvent } from 'react';
+
+import { navigate } from '../hooks/useRoute';
+
+type RouteLinkProps = AnchorHTMLAttributes<HTMLAnchorElement> & {
+  to: string;
+};
+
+// Anchor that navigates client-side, while keeping a real href for copying and opening in a new tab
+export function RouteLink({ to, onClick, ...props }: RouteLinkProps) {
+  const handleClick = (event: MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(event);
+    if (event.defaultPrevented || event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey) {
+      return;
+    }
+    event.preventDefault();
+    navigate(to);
+  };
+
+  return <a href={to} onClick={handleClick} {...props} />;
+}
@@ -0,0 +1,457 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, usePublicClient, useReadContract } from 'wagmi';
+import { Contract } from 'ethers';
+import { formatEther, parseEther } from 'viem';
+import type { ContractFunctionReturnType } from 'viem';
+
+import { TOURNAMENT_ABI } from '../config/contracts';
+import { useContracts } from '../hooks/useContracts';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+import { TournamentCard } from './TournamentCard';
+import type { TournamentDetails, TournamentMatch } from '../type/tournament';
+import { BRACKET_SIZES, MAX_RUNNER_UP_PERCENT, TournamentStatus } from '../type/tournament';
+import { DIE_FACES, MAX_DICE, NATIVE_ASSET } from '../type/game';
+import '../styles/DiceApp.css';
+
+type RawTournament = ContractFunctionReturnType<typeof TOURNAMENT_ABI, 'view', 'getTournament'>;
+type RawBracket = ContractFunctionReturnType<typeof TOURNAMENT_ABI, 'view', 'getBracket'>;
+
+type ProcessingState = {
+  tournamentId?: bigint;
+  action: string;
+};
+
+// Matches are stored round by round: the first size/2 entries are round one, the final is last
+function roundOf(matchId: number, size: number) {
+  let round = 0;
+  let roundStart = 0;
+  for (let roundSize = size / 2; roundSize >= 1; roundSize /= 2) {
+    if (matchId < roundStart + roundSize) {
+      return round;
+    }
+    roundStart += roundSize;
+    round++;
+  }
+  return round;
+}
+
+function mapTournament(id: bigint, raw: RawTournament, bracket: RawBracket): TournamentDetails {
+  const size = Number(raw.size);
+  return {
+    id,
+    organizer: raw.organizer,
+    status: Number(raw.status) as TournamentStatus,
+    size,
+    diceCount: Number(raw.diceCount),
+    faces: Number(raw.faces),
+    runnerUpBps: Number(raw.runnerUpBps),
+    registrationDeadline: BigInt(raw.registrationDeadline),
+    buyIn: BigInt(raw.buyIn),
+    champion: raw.champion,
+    runnerUp: raw.runnerUp,
+    players: [...raw.players],
+    matches: bracket.map(
+      (match, index): TournamentMatch => ({
+        id: index,
+        round: roundOf(index, size),
+        players: [match.players[0], match.players[1]],
+        rolled: [match.rolled[0], match.rolled[1]],
+        rolls: [BigInt(match.revealedRolls[0]), BigInt(match.revealedRolls[1])],
+        winner: match.winner,
+        revealPending: match.revealPending,
+        tieRounds: Number(match.tieRounds),
+        rollDeadline: BigInt(match.rollDeadline),
+        revealDeadline: BigInt(match.revealDeadline),
+      }),
+    ),
+  };
+}
+
+function extractErrorReason(error: unknown): string {
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+  if (typeof error === 'string') {
+    return error;
+  }
+  return 'Unknown error';
+}
+
+export function TournamentApp() {
+  const { address, isConnected } = useAccount();
+  const { tournamentAddress } = useContracts();
+  const publicClient = usePublicClient();
+  const signerPromise = useEthersSigner();
+  const { instance: zamaInstance, error: zamaError } = useZamaInstance();
+
+  const isDeployed = tournamentAddress !== NATIVE_ASSET;
+
+  const { data: balance, refetch: refetchBalance } = useReadContract({
+    abi: TOURNAMENT_ABI,
+    address: tournamentAddress,
+    functionName: 'balances',
+    args: address ? [address] : undefined,
+    query: { enabled: Boolean(address) && isDeployed },
+  });
+
+  const [tournaments, setTournaments] = useState<TournamentDetails[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [refreshFlag, setRefreshFlag] = useState(0);
+  const [processing, setProcessing] = useState<ProcessingState | null>(null);
+  const [size, setSize] = useState<number>(BRACKET_SIZES[0]);
+  const [buyInInput, setBuyInInput] = useState('0.001');
+  const [diceCount, setDiceCount] = useState(1);
+  const [faces, setFaces] = useState(6);
+  const [runnerUpPercent, setRunnerUpPercent] = useState(0);
+
+  const loadTournaments = useCallback(async () => {
+    if (!publicClient || !isDeployed) {
+      return;
+    }
+    setIsLoading(true);
+    setErrorMessage(null);
+    try {
+      const total = (await publicClient.readContract({
+        address: tournamentAddress,
+        abi: TOURNAMENT_ABI,
+        functionName: 'nextTournamentId',
+      })) as bigint;
+
+      const ids = Array.from({ length: Number(total) }, (_value, index) => BigInt(index));
+      const loaded = await Promise.all(
+        ids.map(async (id) => {
+          const [tournamentData, bracket] = await Promise.all([
+            publicClient.readContract({
+              address: tournamentAddress,
+              abi: TOURNAMENT_ABI,
+              functionName: 'getTournament',
+              args: [id],
+            }),
+            publicClient.readContract({
+              address: tournamentAddress,
+              abi: TOURNAMENT_ABI,
+              functionName: 'getBracket',
+              args: [id],
+            }),
+          ]);
+          return mapTournament(id, tournamentData, bracket);
+        }),
+      );
+
+      setTournaments(loaded.reverse());
+    } catch (error) {
+      console.error('Failed to load tournaments', error);
+      setErrorMessage('Unable to load tournaments. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [publicClient, isDeployed, tournamentAddress]);
+
+  useEffect(() => {
+    loadTournaments();
+    refetchBalance();
+  }, [loadTournaments, refetchBalance, refreshFlag]);
+
+  const getWritableContract = useCallback(async () => {
+    if (!signerPromise) {
+      throw new Error('Connect a wallet to continue.');
+    }
+    const signer = await signerPromise;
+    return new Contract(tournamentAddress, TOURNAMENT_ABI, signer);
+  }, [signerPromise, tournamentAddress]);
+
+  // Every write follows the same processing/status/refresh flow
+  const runAction = useCallback(
+    async (
+      action: string,
+      pending: string,
+      done: string,
+      send: (contract: Contract) => Promise<{ wait(): Promise<unknown> }>,
+      tournamentId?: bigint,
+    ) => {
+      try {
+        setProcessing({ action, tournamentId });
+        setStatusMessage(pending);
+        setErrorMessage(null);
+
+        const contract = await getWritableContract();
+        const tx = await send(contract);
+        await tx.wait();
+
+        setStatusMessage(done);
+        setRefreshFlag((value) => value + 1);
+      } catch (error) {
+        const reason = extractErrorReason(error);
+        setErrorMessage(reason);
+        setStatusMessage(null);
+      } finally {
+        setProcessing(null);
+      }
+    },
+    [getWritableContract],
+  );
+
+  const handleCreate = useCallback(async () => {
+    let buyIn: bigint;
+    try {
+      buyIn = parseEther(buyInInput.trim());
+    } catch {
+      setErrorMessage('Enter a valid buy-in amount.');
+      return;
+    }
+    if (buyIn === 0n) {
+      setErrorMessage('The buy-in must be greater than zero.');
+      return;
+    }
+    await runAction('Creating tournament', 'Creating a new tournament…', 'Tournament created.', (contract) =>
+      contract.createTournament(size, buyIn, diceCount, faces, runnerUpPercent * 100),
+    );
+  }, [buyInInput, size, diceCount, faces, runnerUpPercent, runAction]);
+
+  const handleRegister = useCallback(
+    (tournamentId: bigint, buyIn: bigint) =>
+      runAction(
+        'Registering',
+        'Sending registration…',
+        'Registered for the tournament.',
+        (contract) => contract.register(tournamentId, { value: buyIn }),
+        tournamentId,
+      ),
+    [runAction],
+  );
+
+  const handleCancel = useCallback(
+    (tournamentId: bigint) =>
+      runAction(
+        'Cancelling tournament',
+        'Cancelling the tournament…',
+        'Tournament cancelled. Buy-ins were credited back.',
+        (contract) => contract.cancelTournament(tournamentId),
+        tournamentId,
+      ),
+    [runAction],
+  );
+
+  const handleRoll = useCallback(
+    (tournamentId: bigint, matchId: number) =>
+      runAction(
+        'Rolling dice',
+        'Rolling your dice…',
+        'Dice roll submitted.',
+        (contract) => contract.rollMatch(tournamentId, matchId),
+        tournamentId,
+      ),
+    [runAction],
+  );
+
+  const handleClaimForfeit = useCallback(
+    (tournamentId: bigint, matchId: number) =>
+      runAction(
+        'Claiming forfeit',
+        'Advancing past the missed roll…',
+        'Forfeit claimed.',
+        (contract) => contract.claimMatchForfeit(tournamentId, matchId),
+        tournamentId,
+      ),
+    [runAction],
+  );
+
+  const handleRerollMatch = useCallback(
+    (tournamentId: bigint, matchId: number) =>
+      runAction(
+        'Re-rolling match',
+        'Re-opening the match after the missed reveal…',
+        'Match re-opened. Both players roll again.',
+        (contract) => contract.rerollMatch(tournamentId, matchId),
+        tournamentId,
+      ),
+    [runAction],
+  );
+
+  const handleFinalizeMatch = useCallback(
+    async (tournamentId: bigint, matchId: number) => {
+      if (!zamaInstance) {
+        setErrorMessage(zamaError ?? 'Encryption service is still initializing.');
+        return;
+      }
+      if (!publicClient) {
+        setErrorMessage('Public client not available.');
+        return;
+      }
+      await runAction(
+        'Finalizing match',
+        'Fetching the public decryption of both rolls…',
+        'Match finalized.',
+        async (contract) => {
+          const handles = await publicClient.readContract({
+            address: tournamentAddress,
+            abi: TOURNAMENT_ABI,
+            functionName: 'getMatchRevealHandles',
+            args: [tournamentId, BigInt(matchId)],
+          });
+          const decryption = await zamaInstance.publicDecrypt([...handles]);
+          return contract.finalizeMatch(
+            tournamentId,
+            matchId,
+            decryption.abiEncodedClearValues,
+            decryption.decryptionProof,
+          );
+        },
+        tournamentId,
+      );
+    },
+    [zamaInstance, zamaError, publicClient, runAction, tournamentAddress],
+  );
+
+  const handleWithdraw = useCallback(
+    () => runAction('Withdrawing', 'Withdrawing your winnings…', 'Winnings withdrawn.', (contract) => contract.withdraw()),
+    [runAction],
+  );
+
+  const renderContent = () => {
+    if (!isDeployed) {
+      return <p className="placeholder">Tournaments are not deployed on this network yet.</p>;
+    }
+
+    if (!isConnected) {
+      return <p className="placeholder">Connect a wallet to join a tournament.</p>;
+    }
+
+    if (isLoading && tournaments.length === 0) {
+      return <p className="placeholder">Loading tournaments…</p>;
+    }
+
+    if (tournaments.length === 0) {
+      return <p className="placeholder">No tournaments yet. Open the first bracket!</p>;
+    }
+
+    return (
+      <div className="tournament-list">
+        {tournaments.map((tournament) => (
+          <TournamentCard
+            key={tournament.id.toString()}
+            tournament={tournament}
+            currentAccount={address}
+            onRegister={handleRegister}
+            onCancel={handleCancel}
+            onRoll={handleRoll}
+            onFinalizeMatch={handleFinalizeMatch}
+            onClaimForfeit={handleClaimForfeit}
+            onRerollMatch={handleRerollMatch}
+            isProcessing={Boolean(
+              processing && (processing.tournamentId === undefined || processing.tournamentId === tournament.id),
+            )}
+            processingAction={processing?.action}
+          />
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="dice-app">
+      <section className="dice-summary">
+        <h2>Tournaments</h2>
+        <p>
+          Open a single-elimination bracket for 4, 8 or 16 players. Everyone pays the same buy-in, each match is a
+          heads-up encrypted roll with ties re-rolled, and winners advance until one champion takes the prize pool,
+          optionally sharing a cut with the runner-up.
+        </p>
+        <div className="summary-grid">
+          <div>
+            <span>Your winnings</span>
+            <strong>{balance !== undefined ? `${formatEther(balance)} ETH` : '—'}</strong>
+          </div>
+        </div>
+        <div className="actions">
+          <label className="stake-input">
+            <span>Players</span>
+            <select
+              value={size}
+              onChange={(event) => setSize(Number(event.target.value))}
+              disabled={Boolean(processing)}
+            >
+              {BRACKET_SIZES.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="stake-input">
+            <span>Buy-in (ETH)</span>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={buyInInput}
+              onChange={(event) => setBuyInInput(event.target.value)}
+              disabled={Boolean(processing)}
+            />
+          </label>
+          <label className="stake-input">
+            <span>Dice</span>
+            <select
+              value={diceCount}
+              onChange={(event) => setDiceCount(Number(event.target.value))}
+              disabled={Boolean(processing)}
+            >
+              {Array.from({ length: MAX_DICE }, (_value, index) => index + 1).map((count) => (
+                <option key={count} value={count}>
+                  {count}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="stake-input">
+            <span>Faces</span>
+            <select
+              value={faces}
+              onChange={(event) => setFaces(Number(event.target.value))}
+              disabled={Boolean(processing)}
+            >
+              {DIE_FACES.map((option) => (
+                <option key={option} value={option}>
+                  d{option}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="stake-input">
+            <span>Runner-up share</span>
+            <select
+              value={runnerUpPercent}
+              onChange={(event) => setRunnerUpPercent(Number(event.target.value))}
+              disabled={Boolean(processing)}
+            >
+              {Array.from({ length: MAX_RUNNER_UP_PERCENT / 10 + 1 }, (_value, index) => index * 10).map((percent) => (
+                <option key={percent} value={percent}>
+                  {percent === 0 ? 'Winner takes all' : `${percent}%`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button type="button" onClick={handleCreate} disabled={!isConnected || !isDeployed || Boolean(processing)}>
+            {processing?.action === 'Creating tournament' ? 'Creating…' : 'Create Tournament'}
+          </button>
+          <button
+            type="button"
+            onClick={handleWithdraw}
+            disabled={!isConnected || !balance || Boolean(processing)}
+          >
+            {processing?.action === 'Withdrawing' ? 'Withdrawing…' : 'Withdraw Winnings'}
+          </button>
+          <button type="button" onClick={() => setRefreshFlag((value) => value + 1)} disabled={isLoading}>
+            Refresh
+          </button>
+        </div>
+        {statusMessage && <p className="status-message success">{statusMessage}</p>}
+        {errorMessage && <p className="status-message error">{errorMessage}</p>}
+      </section>
+
+      <section className="dice-games">{renderContent()}</section>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { formatEther } from 'viem';
+import type { TournamentDetails, TournamentMatch } from '../type/tournament';
+import { TOURNAMENT_STATUS_LABELS, TournamentStatus } from '../type/tournament';
+import { BPS_DENOMINATOR } from '../type/game';
+import { useNow } from '../hooks/useNow';
+import '../styles/GameCard.css';
+import '../styles/TournamentCard.css';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+type TournamentCardProps = {
+  tournament: TournamentDetails;
+  currentAccount?: string;
+  onRegister(tournamentId: bigint, buyIn: bigint): Promise<void>;
+  onCancel(tournamentId: bigint): Promise<void>;
+  onRoll(tournamentId: bigint, matchId: number): Promise<void>;
+  onFinalizeMatch(tournamentId: bigint, matchId: number): Promise<void>;
+  onClaimForfeit(tournamentId: bigint, matchId: number): Promise<void>;
+  onRerollMatch(tournamentId: bigint, matchId: number): Promise<void>;
+  isProcessing: boolean;
+  processingAction?: string;
+};
+
+function shortenAddress(address: string) {
+  if (!address || address === ZERO_ADDRESS) {
+    return 'TBD';
+  }
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+function roundName(round: number, rounds: number) {
+  const remaining = rounds - round;
+  if (remaining === 1) {
+    return 'Final';
+  }
+  if (remaining === 2) {
+    return 'Semi-finals';
+  }
+  if (remaining === 3) {
+    return 'Quarter-finals';
+  }
+  return `Round ${round + 1}`;
+}
+
+export function TournamentCard({
+  tournament,
+  currentAccount,
+  onRegister,
+  onCancel,
+  onRoll,
+  onFinalizeMatch,
+  onClaimForfeit,
+  onRerollMatch,
+  isProcessing,
+  processingAction,
+}: TournamentCardProps) {
+  const now = useNow();
+  const account = currentAccount?.toLowerCase();
+  const isSelf = (address: string) => Boolean(account && address.toLowerCase() === account);
+
+  const isRegistered = tournament.players.some(isSelf);
+  const isOrganizer = isSelf(tournament.organizer);
+  const prizePool = tournament.buyIn * BigInt(tournament.size);
+  const runnerUpPrize = (prizePool * BigInt(tournament.runnerUpBps)) / BPS_DENOMINATOR;
+  const rounds = Math.log2(tournament.size);
+
+  const isRegistering = tournament.status === TournamentStatus.Registration;
+  const registrationOpen = isRegistering && now <= tournament.registrationDeadline;
+  const canRegister = registrationOpen && !isRegistered;
+  const canCancel = isRegistering && (isOrganizer || now > tournament.registrationDeadline);
+
+  const isActive = (match: TournamentMatch) =>
+    tournament.status === TournamentStatus.InProgress &&
+    match.rollDeadline > 0n &&
+    match.winner === ZERO_ADDRESS &&
+    !match.revealPending;
+
+  const renderMatch = (match: TournamentMatch) => {
+    const seat = match.players.findIndex(isSelf);
+    const deadlinePassed = now > match.rollDeadline;
+    const canRoll = isActive(match) && seat >= 0 && !match.rolled[seat] && !deadlinePassed;
+    const canForfeit = isActive(match) && deadlinePassed;
+    // With no roll on either side the contract reopens the match rather than advancing a player
+    const noShows = !match.rolled[0] && !match.rolled[1];
+    const revealExpired = match.revealPending && now > match.revealDeadline;
+    const canReveal = match.revealPending && !revealExpired;
+    const isDecided = match.winner !== ZERO_ADDRESS;
+    const isRevealed = isDecided || match.tieRounds > 0;
+
+    return (
+      <div key={match.id} className={`bracket-match${seat >= 0 ? ' own' : ''}`}>
+        {match.players.map((player, index) => (
+          <div
+            key={index}
+            className={`bracket-seat${isDecided && player === match.winner ? ' winner' : ''}${
+              isDecided && player !== match.winner ? ' eliminated' : ''
+            }`}
+          >
+            <span>
+              {shortenAddress(player)}
+              {isSelf(player) && ' (You)'}
+            </span>
+            <strong>{isRevealed ? match.rolls[index].toString() : match.rolled[index] ? '🎲' : '—'}</strong>
+          </div>
+        ))}
+        {match.tieRounds > 0 && !isDecided && <p className="bracket-note">Tied {match.tieRounds}×, rolling again</p>}
+        {(canRoll || match.revealPending || canForfeit) && (
+          <div className="bracket-actions">
+            {canRoll && (
+              <button type="button" onClick={() => onRoll(tournament.id, match.id)} disabled={isProcessing}>
+                {isProcessing && processingAction === 'Rolling dice' ? 'Rolling…' : 'Roll'}
+              </button>
+            )}
+            {canReveal && (
+              <button type="button" onClick={() => onFinalizeMatch(tournament.id, match.id)} disabled={isProcessing}>
+                {isProcessing && processingAction === 'Finalizing match' ? 'Finalizing…' : 'Reveal'}
+              </button>
+            )}
+            {revealExpired && (
+              <button type="button" onClick={() => onRerollMatch(tournament.id, match.id)} disabled={isProcessing}>
+                {isProcessing && processingAction === 'Re-rolling match' ? 'Re-rolling…' : 'Re-roll'}
+              </button>
+            )}
+            {canForfeit && (
+              <button type="button" onClick={() => onClaimForfeit(tournament.id, match.id)} disabled={isProcessing}>
+                {isProcessing && processingAction === 'Claiming forfeit'
+                  ? 'Claiming…'
+                  : noShows
+                    ? 'Reopen match'
+                    : 'Claim forfeit'}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="tournament-card">
+      <div className="game-card-header">
+        <div>
+          <h3>Tournament #{tournament.id.toString()}</h3>
+          <span className={`status tournament-status-${tournament.status}`}>
+            {TOURNAMENT_STATUS_LABELS[tournament.status]}
+          </span>
+        </div>
+        <div className="game-card-pot">
+          Prize pool
+          <strong>{formatEther(prizePool)} ETH</strong>
+        </div>
+      </div>
+
+      <div className="tournament-info">
+        <div>
+          <span>Buy-in</span>
+          <strong>{formatEther(tournament.buyIn)} ETH</strong>
+        </div>
+        <div>
+          <span>Players</span>
+          <strong>
+            {tournament.players.length}/{tournament.size}
+          </strong>
+        </div>
+        <div>
+          <span>Dice</span>
+          <strong>
+            {tournament.diceCount}d{tournament.faces}
+          </strong>
+        </div>
+        <div>
+          <span>Runner-up</span>
+          <strong>{runnerUpPrize > 0n ? `${formatEther(runnerUpPrize)} ETH` : '—'}</strong>
+        </div>
+      </div>
+
+      {tournament.status === TournamentStatus.Completed && (
+        <p className="tournament-champion">
+          🏆 Champion {shortenAddress(tournament.champion)}
+          {isSelf(tournament.champion) && ' (You)'}
+        </p>
+      )}
+
+      {tournament.matches.length > 0 && (
+        <div className="bracket">
+          {Array.from({ length: rounds }, (_value, round) => (
+            <div key={round} className="bracket-round">
+              <h4>{roundName(round, rounds)}</h4>
+              {tournament.matches.filter((match) => match.round === round).map(renderMatch)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(canRegister || canCancel) && (
+        <div className="game-card-actions">
+          {canRegister && (
+            <button type="button" onClick={() => onRegister(tournament.id, tournament.buyIn)} disabled={isProcessing}>
+              {isProcessing && processingAction === 'Registering' ? 'Registering…' : 'Register'}
+            </button>
+          )}
+          {canCancel && (
+            <button type="button" onClick={() => onCancel(tournament.id)} disabled={isProcessing}>
+              {isProcessing && processingAction === 'Cancelling tournament' ? 'Cancelling…' : 'Cancel'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
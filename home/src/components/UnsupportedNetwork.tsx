@@ -0,0 +1,37 @@
+import { useSwitchChain } from 'wagmi';
+
+import '../styles/DiceApp.css';
+
+type UnsupportedNetworkProps = {
+  chainId?: number;
+};
+
+// Shown instead of the game views while the wallet is on a chain without a SecretDice deployment
+export function UnsupportedNetwork({ chainId }: UnsupportedNetworkProps) {
+  const { chains, switchChain, isPending, error } = useSwitchChain();
+
+  return (
+    <div className="dice-app">
+      <section className="dice-summary">
+        <h2>Unsupported network</h2>
+        <p>
+          Secret Dice is not deployed on the network your wallet is connected to
+          {chainId !== undefined ? ` (chain id ${chainId})` : ''}. Switch to one of the supported networks to continue.
+        </p>
+        <div className="actions">
+          {chains.map((chain) => (
+            <button
+              key={chain.id}
+              type="button"
+              onClick={() => switchChain({ chainId: chain.id })}
+              disabled={isPending}
+            >
+              Switch to {chain.name}
+            </button>
+          ))}
+        </div>
+        {error && <p className="status-message error">Unable to switch networks: {error.message}</p>}
+      </section>
+    </div>
+  );
+}
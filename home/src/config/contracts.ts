@@ -1,6 +1,39 @@
-import { CONTRACT_ADDRESS as GENERATED_ADDRESS, CONTRACT_ABI as GENERATED_ABI } from './generated/secretDice';
+import { CONTRACT_ADDRESSES as GENERATED_ADDRESSES, CONTRACT_ABI as GENERATED_ABI } from './generated/secretDice';
+import {
+  CONTRACT_ADDRESSES as TOURNAMENT_GENERATED_ADDRESSES,
+  CONTRACT_ABI as TOURNAMENT_GENERATED_ABI,
+} from './generated/secretDiceTournament';
+import {
+  CONTRACT_ADDRESSES as LENS_GENERATED_ADDRESSES,
+  CONTRACT_ABI as LENS_GENERATED_ABI,
+} from './generated/secretDiceLens';
 
-const configuredAddress ="0xD2Fd8c0f30c871c77974a4F6b58Ff104808D0A3c"
+// The zero address stands for "not deployed on this chain"
+const NOT_DEPLOYED = '0x0000000000000000000000000000000000000000';
+
+export type ContractAddresses = {
+  dice: `0x${string}`;
+  tournament: `0x${string}`;
+  lens: `0x${string}`;
+};
 
-export const CONTRACT_ADDRESS = configuredAddress ?? GENERATED_ADDRESS;
 export const CONTRACT_ABI = GENERATED_ABI;
+export const TOURNAMENT_ABI = TOURNAMENT_GENERATED_ABI;
+export const LENS_ABI = LENS_GENERATED_ABI;
+
+// Chains with a SecretDice deployment, in chain id order
+export const SUPPORTED_CHAIN_IDS = Object.keys(GENERATED_ADDRESSES)
+  .map(Number)
+  .sort((a, b) => a - b);
+
+export function getContractAddresses(chainId: number | undefined): ContractAddresses | undefined {
+  const dice = chainId === undefined ? undefined : GENERATED_ADDRESSES[chainId];
+  if (chainId === undefined || !dice) {
+    return undefined;
+  }
+  return {
+    dice,
+    tournament: TOURNAMENT_GENERATED_ADDRESSES[chainId] ?? NOT_DEPLOYED,
+    lens: LENS_GENERATED_ADDRESSES[chainId] ?? NOT_DEPLOYED,
+  };
+}
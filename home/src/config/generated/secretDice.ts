@@ -1,5 +1,57 @@
-export const CONTRACT_ADDRESS: `0x${string}` = '0xD2Fd8c0f30c871c77974a4F6b58Ff104808D0A3c';
+// Deployed address per chain id, generated by scripts/sync-contract.js
+export const CONTRACT_ADDRESSES: Partial<Record<number, `0x${string}`>> = {
+  31337: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
+  11155111: '0xD2Fd8c0f30c871c77974a4F6b58Ff104808D0A3c',
+};
 export const CONTRACT_ABI = [
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "minStake",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "maxStake",
+        "type": "uint256"
+      },
+      {
+        "components": [
+          {
+            "internalType": "address",
+            "name": "token",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "minStake",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "maxStake",
+            "type": "uint256"
+          }
+        ],
+        "internalType": "struct SecretDice.TokenConfig[]",
+        "name": "tokens",
+        "type": "tuple[]"
+      },
+      {
+        "internalType": "uint16",
+        "name": "initialFeeBps",
+        "type": "uint16"
+      },
+      {
+        "internalType": "address",
+        "name": "initialOwner",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
   {
     "inputs": [],
     "name": "AlreadyJoined",
@@ -10,6 +62,26 @@ export const CONTRACT_ABI = [
     "name": "AlreadyRolled",
     "type": "error"
   },
+  {
+    "inputs": [],
+    "name": "DeadlineNotReached",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "DeadlinePassed",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "FeeTooHigh",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "ForfeitNotAvailable",
+    "type": "error"
+  },
   {
     "inputs": [],
     "name": "GameDoesNotExist",
@@ -37,17 +109,42 @@ export const CONTRACT_ABI = [
   },
   {
     "inputs": [],
-    "name": "HandlesAlreadySavedForRequestID",
+    "name": "IncorrectEntryFee",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InsufficientBalance",
     "type": "error"
   },
   {
     "inputs": [],
-    "name": "IncorrectEntryFee",
+    "name": "InsufficientTreasury",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidBet",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidBetRules",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidCapacity",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidDiceConfig",
     "type": "error"
   },
   {
     "inputs": [],
-    "name": "InvalidKMSSignatures",
+    "name": "InvalidOwner",
     "type": "error"
   },
   {
@@ -57,7 +154,37 @@ export const CONTRACT_ABI = [
   },
   {
     "inputs": [],
-    "name": "NoHandleFoundForRequestID",
+    "name": "InvalidRecipient",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidSeriesLength",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidStake",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidStakeBounds",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidTieRerolls",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidToken",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "NotOwner",
     "type": "error"
   },
   {
@@ -65,11 +192,26 @@ export const CONTRACT_ABI = [
     "name": "NotParticipant",
     "type": "error"
   },
+  {
+    "inputs": [],
+    "name": "NotPendingOwner",
+    "type": "error"
+  },
   {
     "inputs": [],
     "name": "NotWinner",
     "type": "error"
   },
+  {
+    "inputs": [],
+    "name": "NotYourTurn",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "ReclaimNotAvailable",
+    "type": "error"
+  },
   {
     "inputs": [],
     "name": "RefundAlreadyClaimed",
@@ -80,6 +222,11 @@ export const CONTRACT_ABI = [
     "name": "RevealInProgress",
     "type": "error"
   },
+  {
+    "inputs": [],
+    "name": "RevealNotPending",
+    "type": "error"
+  },
   {
     "inputs": [],
     "name": "RewardAlreadyClaimed",
@@ -87,7 +234,12 @@ export const CONTRACT_ABI = [
   },
   {
     "inputs": [],
-    "name": "UnknownDecryptionRequest",
+    "name": "TokenNotAllowed",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "ZamaProtocolUnsupported",
     "type": "error"
   },
   {
@@ -96,11 +248,29 @@ export const CONTRACT_ABI = [
       {
         "indexed": true,
         "internalType": "uint256",
-        "name": "requestID",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "stakeToken",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount",
         "type": "uint256"
       }
     ],
-    "name": "DecryptionFulfilled",
+    "name": "BalanceCredited",
     "type": "event"
   },
   {
@@ -113,19 +283,19 @@ export const CONTRACT_ABI = [
         "type": "uint256"
       },
       {
-        "indexed": false,
-        "internalType": "uint32",
-        "name": "playerOneValue",
-        "type": "uint32"
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
       },
       {
         "indexed": false,
-        "internalType": "uint32",
-        "name": "playerTwoValue",
-        "type": "uint32"
+        "internalType": "uint256",
+        "name": "bet",
+        "type": "uint256"
       }
     ],
-    "name": "DiceRevealed",
+    "name": "BetCalled",
     "type": "event"
   },
   {
@@ -142,9 +312,15 @@ export const CONTRACT_ABI = [
         "internalType": "address",
         "name": "player",
         "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "bet",
+        "type": "uint256"
       }
     ],
-    "name": "DiceRolled",
+    "name": "BetRaised",
     "type": "event"
   },
   {
@@ -159,17 +335,11 @@ export const CONTRACT_ABI = [
       {
         "indexed": true,
         "internalType": "address",
-        "name": "player",
+        "name": "firstToAct",
         "type": "address"
-      },
-      {
-        "indexed": false,
-        "internalType": "uint256",
-        "name": "amount",
-        "type": "uint256"
       }
     ],
-    "name": "DrawRefundClaimed",
+    "name": "BettingOpened",
     "type": "event"
   },
   {
@@ -183,12 +353,18 @@ export const CONTRACT_ABI = [
       },
       {
         "indexed": true,
-        "internalType": "address",
-        "name": "creator",
-        "type": "address"
+        "internalType": "uint8",
+        "name": "round",
+        "type": "uint8"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint32[]",
+        "name": "values",
+        "type": "uint32[]"
       }
     ],
-    "name": "GameCreated",
+    "name": "DiceRevealed",
     "type": "event"
   },
   {
@@ -202,18 +378,18 @@ export const CONTRACT_ABI = [
       },
       {
         "indexed": true,
-        "internalType": "address",
-        "name": "playerOne",
-        "type": "address"
+        "internalType": "uint8",
+        "name": "round",
+        "type": "uint8"
       },
       {
         "indexed": true,
         "internalType": "address",
-        "name": "playerTwo",
+        "name": "player",
         "type": "address"
       }
     ],
-    "name": "GameReady",
+    "name": "DiceRolled",
     "type": "event"
   },
   {
@@ -228,23 +404,17 @@ export const CONTRACT_ABI = [
       {
         "indexed": true,
         "internalType": "address",
-        "name": "winner",
+        "name": "player",
         "type": "address"
       },
       {
         "indexed": false,
-        "internalType": "uint32",
-        "name": "playerOneValue",
-        "type": "uint32"
-      },
-      {
-        "indexed": false,
-        "internalType": "uint32",
-        "name": "playerTwoValue",
-        "type": "uint32"
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
       }
     ],
-    "name": "GameResolved",
+    "name": "DrawRefundClaimed",
     "type": "event"
   },
   {
@@ -259,11 +429,36 @@ export const CONTRACT_ABI = [
       {
         "indexed": true,
         "internalType": "address",
-        "name": "player",
+        "name": "stakeToken",
         "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
       }
     ],
-    "name": "PlayerJoined",
+    "name": "FeeCollected",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": false,
+        "internalType": "uint16",
+        "name": "previousFeeBps",
+        "type": "uint16"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint16",
+        "name": "newFeeBps",
+        "type": "uint16"
+      }
+    ],
+    "name": "FeeUpdated",
     "type": "event"
   },
   {
@@ -276,13 +471,13 @@ export const CONTRACT_ABI = [
         "type": "uint256"
       },
       {
-        "indexed": false,
-        "internalType": "uint256",
-        "name": "requestId",
-        "type": "uint256"
+        "indexed": true,
+        "internalType": "address",
+        "name": "cancelledBy",
+        "type": "address"
       }
     ],
-    "name": "RevealRequested",
+    "name": "GameCancelled",
     "type": "event"
   },
   {
@@ -297,53 +492,629 @@ export const CONTRACT_ABI = [
       {
         "indexed": true,
         "internalType": "address",
-        "name": "winner",
+        "name": "creator",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "stakeToken",
         "type": "address"
       },
       {
         "indexed": false,
         "internalType": "uint256",
-        "name": "amount",
+        "name": "stake",
         "type": "uint256"
       }
     ],
-    "name": "RewardClaimed",
+    "name": "GameCreated",
     "type": "event"
   },
   {
-    "inputs": [],
-    "name": "ENTRY_FEE",
-    "outputs": [
+    "anonymous": false,
+    "inputs": [
       {
+        "indexed": true,
         "internalType": "uint256",
-        "name": "",
+        "name": "gameId",
         "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "address[]",
+        "name": "winners",
+        "type": "address[]"
       }
     ],
-    "stateMutability": "view",
-    "type": "function"
+    "name": "GameForfeited",
+    "type": "event"
   },
   {
-    "inputs": [],
-    "name": "REWARD_AMOUNT",
-    "outputs": [
+    "anonymous": false,
+    "inputs": [
       {
+        "indexed": true,
         "internalType": "uint256",
-        "name": "",
+        "name": "gameId",
         "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "address[]",
+        "name": "players",
+        "type": "address[]"
       }
     ],
-    "stateMutability": "view",
-    "type": "function"
+    "name": "GameReady",
+    "type": "event"
   },
   {
+    "anonymous": false,
     "inputs": [
       {
+        "indexed": true,
         "internalType": "uint256",
         "name": "gameId",
         "type": "uint256"
-      }
-    ],
+      },
+      {
+        "indexed": false,
+        "internalType": "address[]",
+        "name": "winners",
+        "type": "address[]"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint32",
+        "name": "topRoll",
+        "type": "uint32"
+      }
+    ],
+    "name": "GameResolved",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "uint8",
+        "name": "round",
+        "type": "uint8"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint32",
+        "name": "winnerMask",
+        "type": "uint32"
+      }
+    ],
+    "name": "OutcomeRevealed",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "previousOwner",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "newOwner",
+        "type": "address"
+      }
+    ],
+    "name": "OwnershipTransferStarted",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "previousOwner",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "newOwner",
+        "type": "address"
+      }
+    ],
+    "name": "OwnershipTransferred",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      }
+    ],
+    "name": "PlayerFolded",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      }
+    ],
+    "name": "PlayerJoined",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "uint8",
+        "name": "round",
+        "type": "uint8"
+      },
+      {
+        "indexed": false,
+        "internalType": "bytes32[]",
+        "name": "handles",
+        "type": "bytes32[]"
+      }
+    ],
+    "name": "RevealRequested",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "winner",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      }
+    ],
+    "name": "RewardClaimed",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "uint8",
+        "name": "round",
+        "type": "uint8"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint32",
+        "name": "winnerMask",
+        "type": "uint32"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint8[]",
+        "name": "scores",
+        "type": "uint8[]"
+      }
+    ],
+    "name": "RoundResolved",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "uint8",
+        "name": "round",
+        "type": "uint8"
+      }
+    ],
+    "name": "RoundStarted",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "address[]",
+        "name": "winners",
+        "type": "address[]"
+      }
+    ],
+    "name": "SealedGameResolved",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      }
+    ],
+    "name": "StakeReclaimed",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "uint8",
+        "name": "round",
+        "type": "uint8"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint8",
+        "name": "tieRounds",
+        "type": "uint8"
+      }
+    ],
+    "name": "TieRound",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "stakeToken",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      }
+    ],
+    "name": "TreasuryWithdrawn",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "stakeToken",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      }
+    ],
+    "name": "Withdrawn",
+    "type": "event"
+  },
+  {
+    "inputs": [],
+    "name": "BET_TIMEOUT",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "JOIN_TIMEOUT",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "MAX_DICE",
+    "outputs": [
+      {
+        "internalType": "uint8",
+        "name": "",
+        "type": "uint8"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "MAX_FEE_BPS",
+    "outputs": [
+      {
+        "internalType": "uint16",
+        "name": "",
+        "type": "uint16"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "MAX_PLAYERS",
+    "outputs": [
+      {
+        "internalType": "uint8",
+        "name": "",
+        "type": "uint8"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "MAX_SERIES_LENGTH",
+    "outputs": [
+      {
+        "internalType": "uint8",
+        "name": "",
+        "type": "uint8"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "MAX_STAKE",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "MAX_TIE_REROLLS",
+    "outputs": [
+      {
+        "internalType": "uint8",
+        "name": "",
+        "type": "uint8"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "MIN_PLAYERS",
+    "outputs": [
+      {
+        "internalType": "uint8",
+        "name": "",
+        "type": "uint8"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "MIN_STAKE",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "REVEAL_TIMEOUT",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "ROLL_TIMEOUT",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "acceptOwnership",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "name": "balances",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "callBet",
+    "outputs": [],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "cancelGame",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
     "name": "claimDrawRefund",
     "outputs": [],
     "stateMutability": "nonpayable",
@@ -353,47 +1124,472 @@ export const CONTRACT_ABI = [
     "inputs": [
       {
         "internalType": "uint256",
-        "name": "gameId",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "claimForfeit",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "claimReward",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "confidentialProtocolId",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "stakeToken",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "stake",
+        "type": "uint256"
+      },
+      {
+        "components": [
+          {
+            "internalType": "uint8",
+            "name": "capacity",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint8",
+            "name": "diceCount",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint8",
+            "name": "faces",
+            "type": "uint8"
+          },
+          {
+            "internalType": "bool",
+            "name": "sealedResult",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint8",
+            "name": "bestOf",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint8",
+            "name": "maxTieRerolls",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint256",
+            "name": "maxBet",
+            "type": "uint256"
+          }
+        ],
+        "internalType": "struct SecretDice.GameRules",
+        "name": "rules",
+        "type": "tuple"
+      }
+    ],
+    "name": "createGame",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "feeBps",
+    "outputs": [
+      {
+        "internalType": "uint16",
+        "name": "",
+        "type": "uint16"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bytes",
+        "name": "cleartexts",
+        "type": "bytes"
+      },
+      {
+        "internalType": "bytes",
+        "name": "decryptionProof",
+        "type": "bytes"
+      }
+    ],
+    "name": "finalizeReveal",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "fold",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getAllowedTokens",
+    "outputs": [
+      {
+        "internalType": "address[]",
+        "name": "",
+        "type": "address[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint8",
+        "name": "playerIndex",
+        "type": "uint8"
+      }
+    ],
+    "name": "getEncryptedRoll",
+    "outputs": [
+      {
+        "internalType": "bytes32",
+        "name": "",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getGame",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "enum SecretDice.GameStatus",
+            "name": "status",
+            "type": "uint8"
+          },
+          {
+            "internalType": "address",
+            "name": "creator",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "stakeToken",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "stake",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint8",
+            "name": "capacity",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint8",
+            "name": "diceCount",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint8",
+            "name": "faces",
+            "type": "uint8"
+          },
+          {
+            "internalType": "bool",
+            "name": "sealedResult",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint8",
+            "name": "bestOf",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint8",
+            "name": "currentRound",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint8",
+            "name": "maxTieRerolls",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint8",
+            "name": "tieRounds",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint16",
+            "name": "feeBps",
+            "type": "uint16"
+          },
+          {
+            "internalType": "uint256",
+            "name": "fee",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "maxBet",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256[]",
+            "name": "bets",
+            "type": "uint256[]"
+          },
+          {
+            "internalType": "uint8",
+            "name": "turn",
+            "type": "uint8"
+          },
+          {
+            "internalType": "address[]",
+            "name": "players",
+            "type": "address[]"
+          },
+          {
+            "internalType": "bool[]",
+            "name": "rolled",
+            "type": "bool[]"
+          },
+          {
+            "internalType": "uint32[]",
+            "name": "revealedRolls",
+            "type": "uint32[]"
+          },
+          {
+            "internalType": "uint32",
+            "name": "revealedOutcome",
+            "type": "uint32"
+          },
+          {
+            "internalType": "bool[]",
+            "name": "payoutClaimed",
+            "type": "bool[]"
+          },
+          {
+            "internalType": "uint256[]",
+            "name": "credits",
+            "type": "uint256[]"
+          },
+          {
+            "internalType": "address[]",
+            "name": "winners",
+            "type": "address[]"
+          },
+          {
+            "internalType": "uint8[]",
+            "name": "scores",
+            "type": "uint8[]"
+          },
+          {
+            "components": [
+              {
+                "internalType": "uint32[]",
+                "name": "rolls",
+                "type": "uint32[]"
+              },
+              {
+                "internalType": "uint32",
+                "name": "winnerMask",
+                "type": "uint32"
+              }
+            ],
+            "internalType": "struct SecretDice.RoundResult[]",
+            "name": "rounds",
+            "type": "tuple[]"
+          },
+          {
+            "internalType": "bool",
+            "name": "revealPending",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint64",
+            "name": "joinDeadline",
+            "type": "uint64"
+          },
+          {
+            "internalType": "uint64",
+            "name": "rollDeadline",
+            "type": "uint64"
+          },
+          {
+            "internalType": "uint64",
+            "name": "revealDeadline",
+            "type": "uint64"
+          },
+          {
+            "internalType": "uint64",
+            "name": "betDeadline",
+            "type": "uint64"
+          }
+        ],
+        "internalType": "struct SecretDice.GameView",
+        "name": "viewData",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getGamePot",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getGameStatus",
+    "outputs": [
+      {
+        "internalType": "enum SecretDice.GameStatus",
+        "name": "",
+        "type": "uint8"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "stakeToken",
+        "type": "address"
+      },
+      {
+        "internalType": "enum SecretDice.LeaderboardOrder",
+        "name": "order",
+        "type": "uint8"
+      },
+      {
+        "internalType": "uint256",
+        "name": "offset",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "limit",
         "type": "uint256"
       }
     ],
-    "name": "claimReward",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [],
-    "name": "createGame",
+    "name": "getLeaderboard",
     "outputs": [
+      {
+        "internalType": "address[]",
+        "name": "players",
+        "type": "address[]"
+      },
       {
         "internalType": "uint256",
-        "name": "gameId",
+        "name": "total",
         "type": "uint256"
       }
     ],
-    "stateMutability": "nonpayable",
+    "stateMutability": "view",
     "type": "function"
   },
   {
     "inputs": [
       {
-        "internalType": "uint256",
-        "name": "gameId",
-        "type": "uint256"
-      },
-      {
-        "internalType": "uint8",
-        "name": "playerIndex",
-        "type": "uint8"
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
       }
     ],
-    "name": "getEncryptedRoll",
+    "name": "getPlayerGames",
     "outputs": [
       {
-        "internalType": "bytes32",
+        "internalType": "uint256[]",
         "name": "",
-        "type": "bytes32"
+        "type": "uint256[]"
       }
     ],
     "stateMutability": "view",
@@ -402,83 +1598,53 @@ export const CONTRACT_ABI = [
   {
     "inputs": [
       {
-        "internalType": "uint256",
-        "name": "gameId",
-        "type": "uint256"
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "stakeToken",
+        "type": "address"
       }
     ],
-    "name": "getGame",
+    "name": "getPlayerStats",
     "outputs": [
       {
         "components": [
-          {
-            "internalType": "enum SecretDice.GameStatus",
-            "name": "status",
-            "type": "uint8"
-          },
-          {
-            "internalType": "address",
-            "name": "creator",
-            "type": "address"
-          },
-          {
-            "internalType": "address",
-            "name": "playerOne",
-            "type": "address"
-          },
-          {
-            "internalType": "address",
-            "name": "playerTwo",
-            "type": "address"
-          },
-          {
-            "internalType": "bool",
-            "name": "playerOneRolled",
-            "type": "bool"
-          },
-          {
-            "internalType": "bool",
-            "name": "playerTwoRolled",
-            "type": "bool"
-          },
           {
             "internalType": "uint32",
-            "name": "playerOneRevealed",
+            "name": "played",
             "type": "uint32"
           },
           {
             "internalType": "uint32",
-            "name": "playerTwoRevealed",
+            "name": "wins",
             "type": "uint32"
           },
           {
-            "internalType": "address",
-            "name": "winner",
-            "type": "address"
-          },
-          {
-            "internalType": "bool",
-            "name": "rewardAlreadyClaimed",
-            "type": "bool"
+            "internalType": "uint32",
+            "name": "losses",
+            "type": "uint32"
           },
           {
-            "internalType": "bool",
-            "name": "playerOneDrawRefunded",
-            "type": "bool"
+            "internalType": "uint32",
+            "name": "draws",
+            "type": "uint32"
           },
           {
-            "internalType": "bool",
-            "name": "playerTwoDrawRefunded",
-            "type": "bool"
+            "internalType": "uint256",
+            "name": "wagered",
+            "type": "uint256"
           },
           {
-            "internalType": "bool",
-            "name": "revealPending",
-            "type": "bool"
+            "internalType": "int256",
+            "name": "net",
+            "type": "int256"
           }
         ],
-        "internalType": "struct SecretDice.GameView",
-        "name": "viewData",
+        "internalType": "struct PlayerRanking.PlayerStats",
+        "name": "",
         "type": "tuple"
       }
     ],
@@ -493,11 +1659,35 @@ export const CONTRACT_ABI = [
         "type": "uint256"
       }
     ],
-    "name": "getGamePot",
+    "name": "getRevealHandles",
     "outputs": [
       {
-        "internalType": "uint256",
+        "internalType": "bytes32[]",
         "name": "",
+        "type": "bytes32[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "stakeToken",
+        "type": "address"
+      }
+    ],
+    "name": "getStakeLimits",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "minStake",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "maxStake",
         "type": "uint256"
       }
     ],
@@ -530,57 +1720,201 @@ export const CONTRACT_ABI = [
     "stateMutability": "view",
     "type": "function"
   },
+  {
+    "inputs": [],
+    "name": "owner",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "pendingOwner",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
   {
     "inputs": [
       {
         "internalType": "uint256",
-        "name": "requestId",
+        "name": "gameId",
         "type": "uint256"
       },
       {
-        "internalType": "bytes",
-        "name": "cleartexts",
-        "type": "bytes"
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      }
+    ],
+    "name": "raiseBet",
+    "outputs": [],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "reclaimStake",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "rollDice",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint16",
+        "name": "newFeeBps",
+        "type": "uint16"
+      }
+    ],
+    "name": "setFee",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "name": "tokenStakeLimits",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "minStake",
+        "type": "uint256"
       },
       {
-        "internalType": "bytes",
-        "name": "decryptionProof",
-        "type": "bytes"
+        "internalType": "uint256",
+        "name": "maxStake",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "newOwner",
+        "type": "address"
+      }
+    ],
+    "name": "transferOwnership",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
       }
     ],
-    "name": "onDiceDecrypted",
+    "name": "treasuryBalance",
     "outputs": [
       {
-        "internalType": "bool",
+        "internalType": "uint256",
         "name": "",
-        "type": "bool"
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "stakeToken",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
       }
     ],
+    "name": "withdraw",
+    "outputs": [],
     "stateMutability": "nonpayable",
     "type": "function"
   },
   {
-    "inputs": [],
-    "name": "protocolId",
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "stakeToken",
+        "type": "address"
+      }
+    ],
+    "name": "withdrawAll",
     "outputs": [
       {
         "internalType": "uint256",
-        "name": "",
+        "name": "amount",
         "type": "uint256"
       }
     ],
-    "stateMutability": "pure",
+    "stateMutability": "nonpayable",
     "type": "function"
   },
   {
     "inputs": [
+      {
+        "internalType": "address",
+        "name": "stakeToken",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      },
       {
         "internalType": "uint256",
-        "name": "gameId",
+        "name": "amount",
         "type": "uint256"
       }
     ],
-    "name": "rollDice",
+    "name": "withdrawTreasury",
     "outputs": [],
     "stateMutability": "nonpayable",
     "type": "function"
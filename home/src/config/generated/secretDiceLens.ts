@@ -0,0 +1,983 @@
+// Deployed address per chain id, generated by scripts/sync-contract.js
+export const CONTRACT_ADDRESSES: Partial<Record<number, `0x${string}`>> = {
+  31337: '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9',
+};
+export const CONTRACT_ABI = [
+  {
+    "inputs": [
+      {
+        "internalType": "contract SecretDice",
+        "name": "secretDice_",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "offset",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "limit",
+        "type": "uint256"
+      }
+    ],
+    "name": "getGames",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint256",
+            "name": "gameId",
+            "type": "uint256"
+          },
+          {
+            "components": [
+              {
+                "internalType": "enum SecretDice.GameStatus",
+                "name": "status",
+                "type": "uint8"
+              },
+              {
+                "internalType": "address",
+                "name": "creator",
+                "type": "address"
+              },
+              {
+                "internalType": "address",
+                "name": "stakeToken",
+                "type": "address"
+              },
+              {
+                "internalType": "uint256",
+                "name": "stake",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint8",
+                "name": "capacity",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint8",
+                "name": "diceCount",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint8",
+                "name": "faces",
+                "type": "uint8"
+              },
+              {
+                "internalType": "bool",
+                "name": "sealedResult",
+                "type": "bool"
+              },
+              {
+                "internalType": "uint8",
+                "name": "bestOf",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint8",
+                "name": "currentRound",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint8",
+                "name": "maxTieRerolls",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint8",
+                "name": "tieRounds",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint16",
+                "name": "feeBps",
+                "type": "uint16"
+              },
+              {
+                "internalType": "uint256",
+                "name": "fee",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "maxBet",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256[]",
+                "name": "bets",
+                "type": "uint256[]"
+              },
+              {
+                "internalType": "uint8",
+                "name": "turn",
+                "type": "uint8"
+              },
+              {
+                "internalType": "address[]",
+                "name": "players",
+                "type": "address[]"
+              },
+              {
+                "internalType": "bool[]",
+                "name": "rolled",
+                "type": "bool[]"
+              },
+              {
+                "internalType": "uint32[]",
+                "name": "revealedRolls",
+                "type": "uint32[]"
+              },
+              {
+                "internalType": "uint32",
+                "name": "revealedOutcome",
+                "type": "uint32"
+              },
+              {
+                "internalType": "bool[]",
+                "name": "payoutClaimed",
+                "type": "bool[]"
+              },
+              {
+                "internalType": "uint256[]",
+                "name": "credits",
+                "type": "uint256[]"
+              },
+              {
+                "internalType": "address[]",
+                "name": "winners",
+                "type": "address[]"
+              },
+              {
+                "internalType": "uint8[]",
+                "name": "scores",
+                "type": "uint8[]"
+              },
+              {
+                "components": [
+                  {
+                    "internalType": "uint32[]",
+                    "name": "rolls",
+                    "type": "uint32[]"
+                  },
+                  {
+                    "internalType": "uint32",
+                    "name": "winnerMask",
+                    "type": "uint32"
+                  }
+                ],
+                "internalType": "struct SecretDice.RoundResult[]",
+                "name": "rounds",
+                "type": "tuple[]"
+              },
+              {
+                "internalType": "bool",
+                "name": "revealPending",
+                "type": "bool"
+              },
+              {
+                "internalType": "uint64",
+                "name": "joinDeadline",
+                "type": "uint64"
+              },
+              {
+                "internalType": "uint64",
+                "name": "rollDeadline",
+                "type": "uint64"
+              },
+              {
+                "internalType": "uint64",
+                "name": "revealDeadline",
+                "type": "uint64"
+              },
+              {
+                "internalType": "uint64",
+                "name": "betDeadline",
+                "type": "uint64"
+              }
+            ],
+            "internalType": "struct SecretDice.GameView",
+            "name": "game",
+            "type": "tuple"
+          },
+          {
+            "internalType": "uint256",
+            "name": "pot",
+            "type": "uint256"
+          }
+        ],
+        "internalType": "struct SecretDiceLens.GameSummary[]",
+        "name": "games",
+        "type": "tuple[]"
+      },
+      {
+        "internalType": "uint256",
+        "name": "total",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "enum SecretDice.GameStatus",
+        "name": "status",
+        "type": "uint8"
+      },
+      {
+        "internalType": "uint256",
+        "name": "cursor",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "limit",
+        "type": "uint256"
+      }
+    ],
+    "name": "getGamesByStatus",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint256",
+            "name": "gameId",
+            "type": "uint256"
+          },
+          {
+            "components": [
+              {
+                "internalType": "enum SecretDice.GameStatus",
+                "name": "status",
+                "type": "uint8"
+              },
+              {
+                "internalType": "address",
+                "name": "creator",
+                "type": "address"
+              },
+              {
+                "internalType": "address",
+                "name": "stakeToken",
+                "type": "address"
+              },
+              {
+                "internalType": "uint256",
+                "name": "stake",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint8",
+                "name": "capacity",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint8",
+                "name": "diceCount",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint8",
+                "name": "faces",
+                "type": "uint8"
+              },
+              {
+                "internalType": "bool",
+                "name": "sealedResult",
+                "type": "bool"
+              },
+              {
+                "internalType": "uint8",
+                "name": "bestOf",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint8",
+                "name": "currentRound",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint8",
+                "name": "maxTieRerolls",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint8",
+                "name": "tieRounds",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint16",
+                "name": "feeBps",
+                "type": "uint16"
+              },
+              {
+                "internalType": "uint256",
+                "name": "fee",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "maxBet",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256[]",
+                "name": "bets",
+                "type": "uint256[]"
+              },
+              {
+                "internalType": "uint8",
+                "name": "turn",
+                "type": "uint8"
+              },
+              {
+                "internalType": "address[]",
+                "name": "players",
+                "type": "address[]"
+              },
+              {
+                "internalType": "bool[]",
+                "name": "rolled",
+                "type": "bool[]"
+              },
+              {
+                "internalType": "uint32[]",
+                "name": "revealedRolls",
+                "type": "uint32[]"
+              },
+              {
+                "internalType": "uint32",
+                "name": "revealedOutcome",
+                "type": "uint32"
+              },
+              {
+                "internalType": "bool[]",
+                "name": "payoutClaimed",
+                "type": "bool[]"
+              },
+              {
+                "internalType": "uint256[]",
+                "name": "credits",
+                "type": "uint256[]"
+              },
+              {
+                "internalType": "address[]",
+                "name": "winners",
+                "type": "address[]"
+              },
+              {
+                "internalType": "uint8[]",
+                "name": "scores",
+                "type": "uint8[]"
+              },
+              {
+                "components": [
+                  {
+                    "internalType": "uint32[]",
+                    "name": "rolls",
+                    "type": "uint32[]"
+                  },
+                  {
+                    "internalType": "uint32",
+                    "name": "winnerMask",
+                    "type": "uint32"
+                  }
+                ],
+                "internalType": "struct SecretDice.RoundResult[]",
+                "name": "rounds",
+                "type": "tuple[]"
+              },
+              {
+                "internalType": "bool",
+                "name": "revealPending",
+                "type": "bool"
+              },
+              {
+                "internalType": "uint64",
+                "name": "joinDeadline",
+                "type": "uint64"
+              },
+              {
+                "internalType": "uint64",
+                "name": "rollDeadline",
+                "type": "uint64"
+              },
+              {
+                "internalType": "uint64",
+                "name": "revealDeadline",
+                "type": "uint64"
+              },
+              {
+                "internalType": "uint64",
+                "name": "betDeadline",
+                "type": "uint64"
+              }
+            ],
+            "internalType": "struct SecretDice.GameView",
+            "name": "game",
+            "type": "tuple"
+          },
+          {
+            "internalType": "uint256",
+            "name": "pot",
+            "type": "uint256"
+          }
+        ],
+        "internalType": "struct SecretDiceLens.GameSummary[]",
+        "name": "games",
+        "type": "tuple[]"
+      },
+      {
+        "internalType": "uint256",
+        "name": "nextCursor",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "stakeToken",
+        "type": "address"
+      },
+      {
+        "internalType": "enum SecretDice.LeaderboardOrder",
+        "name": "order",
+        "type": "uint8"
+      },
+      {
+        "internalType": "uint256",
+        "name": "offset",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "limit",
+        "type": "uint256"
+      }
+    ],
+    "name": "getLeaderboard",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "address",
+            "name": "player",
+            "type": "address"
+          },
+          {
+            "components": [
+              {
+                "internalType": "uint32",
+                "name": "played",
+                "type": "uint32"
+              },
+              {
+                "internalType": "uint32",
+                "name": "wins",
+                "type": "uint32"
+              },
+              {
+                "internalType": "uint32",
+                "name": "losses",
+                "type": "uint32"
+              },
+              {
+                "internalType": "uint32",
+                "name": "draws",
+                "type": "uint32"
+              },
+              {
+                "internalType": "uint256",
+                "name": "wagered",
+                "type": "uint256"
+              },
+              {
+                "internalType": "int256",
+                "name": "net",
+                "type": "int256"
+              }
+            ],
+            "internalType": "struct PlayerRanking.PlayerStats",
+            "name": "stats",
+            "type": "tuple"
+          }
+        ],
+        "internalType": "struct SecretDiceLens.LeaderboardEntry[]",
+        "name": "entries",
+        "type": "tuple[]"
+      },
+      {
+        "internalType": "uint256",
+        "name": "total",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "cursor",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "limit",
+        "type": "uint256"
+      }
+    ],
+    "name": "getOpenLobbies",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint256",
+            "name": "gameId",
+            "type": "uint256"
+          },
+          {
+            "components": [
+              {
+                "internalType": "enum SecretDice.GameStatus",
+                "name": "status",
+                "type": "uint8"
+              },
+              {
+                "internalType": "address",
+                "name": "creator",
+                "type": "address"
+              },
+              {
+                "internalType": "address",
+                "name": "stakeToken",
+                "type": "address"
+              },
+              {
+                "internalType": "uint256",
+                "name": "stake",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint8",
+                "name": "capacity",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint8",
+                "name": "diceCount",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint8",
+                "name": "faces",
+                "type": "uint8"
+              },
+              {
+                "internalType": "bool",
+                "name": "sealedResult",
+                "type": "bool"
+              },
+              {
+                "internalType": "uint8",
+                "name": "bestOf",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint8",
+                "name": "currentRound",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint8",
+                "name": "maxTieRerolls",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint8",
+                "name": "tieRounds",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint16",
+                "name": "feeBps",
+                "type": "uint16"
+              },
+              {
+                "internalType": "uint256",
+                "name": "fee",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "maxBet",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256[]",
+                "name": "bets",
+                "type": "uint256[]"
+              },
+              {
+                "internalType": "uint8",
+                "name": "turn",
+                "type": "uint8"
+              },
+              {
+                "internalType": "address[]",
+                "name": "players",
+                "type": "address[]"
+              },
+              {
+                "internalType": "bool[]",
+                "name": "rolled",
+                "type": "bool[]"
+              },
+              {
+                "internalType": "uint32[]",
+                "name": "revealedRolls",
+                "type": "uint32[]"
+              },
+              {
+                "internalType": "uint32",
+                "name": "revealedOutcome",
+                "type": "uint32"
+              },
+              {
+                "internalType": "bool[]",
+                "name": "payoutClaimed",
+                "type": "bool[]"
+              },
+              {
+                "internalType": "uint256[]",
+                "name": "credits",
+                "type": "uint256[]"
+              },
+              {
+                "internalType": "address[]",
+                "name": "winners",
+                "type": "address[]"
+              },
+              {
+                "internalType": "uint8[]",
+                "name": "scores",
+                "type": "uint8[]"
+              },
+              {
+                "components": [
+                  {
+                    "internalType": "uint32[]",
+                    "name": "rolls",
+                    "type": "uint32[]"
+                  },
+                  {
+                    "internalType": "uint32",
+                    "name": "winnerMask",
+                    "type": "uint32"
+                  }
+                ],
+                "internalType": "struct SecretDice.RoundResult[]",
+                "name": "rounds",
+                "type": "tuple[]"
+              },
+              {
+                "internalType": "bool",
+                "name": "revealPending",
+                "type": "bool"
+              },
+              {
+                "internalType": "uint64",
+                "name": "joinDeadline",
+                "type": "uint64"
+              },
+              {
+                "internalType": "uint64",
+                "name": "rollDeadline",
+                "type": "uint64"
+              },
+              {
+                "internalType": "uint64",
+                "name": "revealDeadline",
+                "type": "uint64"
+              },
+              {
+                "internalType": "uint64",
+                "name": "betDeadline",
+                "type": "uint64"
+              }
+            ],
+            "internalType": "struct SecretDice.GameView",
+            "name": "game",
+            "type": "tuple"
+          },
+          {
+            "internalType": "uint256",
+            "name": "pot",
+            "type": "uint256"
+          }
+        ],
+        "internalType": "struct SecretDiceLens.GameSummary[]",
+        "name": "games",
+        "type": "tuple[]"
+      },
+      {
+        "internalType": "uint256",
+        "name": "nextCursor",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "offset",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "limit",
+        "type": "uint256"
+      }
+    ],
+    "name": "getPlayerGames",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint256",
+            "name": "gameId",
+            "type": "uint256"
+          },
+          {
+            "components": [
+              {
+                "internalType": "enum SecretDice.GameStatus",
+                "name": "status",
+                "type": "uint8"
+              },
+              {
+                "internalType": "address",
+                "name": "creator",
+                "type": "address"
+              },
+              {
+                "internalType": "address",
+                "name": "stakeToken",
+                "type": "address"
+              },
+              {
+                "internalType": "uint256",
+                "name": "stake",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint8",
+                "name": "capacity",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint8",
+                "name": "diceCount",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint8",
+                "name": "faces",
+                "type": "uint8"
+              },
+              {
+                "internalType": "bool",
+                "name": "sealedResult",
+                "type": "bool"
+              },
+              {
+                "internalType": "uint8",
+                "name": "bestOf",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint8",
+                "name": "currentRound",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint8",
+                "name": "maxTieRerolls",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint8",
+                "name": "tieRounds",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint16",
+                "name": "feeBps",
+                "type": "uint16"
+              },
+              {
+                "internalType": "uint256",
+                "name": "fee",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "maxBet",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256[]",
+                "name": "bets",
+                "type": "uint256[]"
+              },
+              {
+                "internalType": "uint8",
+                "name": "turn",
+                "type": "uint8"
+              },
+              {
+                "internalType": "address[]",
+                "name": "players",
+                "type": "address[]"
+              },
+              {
+                "internalType": "bool[]",
+                "name": "rolled",
+                "type": "bool[]"
+              },
+              {
+                "internalType": "uint32[]",
+                "name": "revealedRolls",
+                "type": "uint32[]"
+              },
+              {
+                "internalType": "uint32",
+                "name": "revealedOutcome",
+                "type": "uint32"
+              },
+              {
+                "internalType": "bool[]",
+                "name": "payoutClaimed",
+                "type": "bool[]"
+              },
+              {
+                "internalType": "uint256[]",
+                "name": "credits",
+                "type": "uint256[]"
+              },
+              {
+                "internalType": "address[]",
+                "name": "winners",
+                "type": "address[]"
+              },
+              {
+                "internalType": "uint8[]",
+                "name": "scores",
+                "type": "uint8[]"
+              },
+              {
+                "components": [
+                  {
+                    "internalType": "uint32[]",
+                    "name": "rolls",
+                    "type": "uint32[]"
+                  },
+                  {
+                    "internalType": "uint32",
+                    "name": "winnerMask",
+                    "type": "uint32"
+                  }
+                ],
+                "internalType": "struct SecretDice.RoundResult[]",
+                "name": "rounds",
+                "type": "tuple[]"
+              },
+              {
+                "internalType": "bool",
+                "name": "revealPending",
+                "type": "bool"
+              },
+              {
+                "internalType": "uint64",
+                "name": "joinDeadline",
+                "type": "uint64"
+              },
+              {
+                "internalType": "uint64",
+                "name": "rollDeadline",
+                "type": "uint64"
+              },
+              {
+                "internalType": "uint64",
+                "name": "revealDeadline",
+                "type": "uint64"
+              },
+              {
+                "internalType": "uint64",
+                "name": "betDeadline",
+                "type": "uint64"
+              }
+            ],
+            "internalType": "struct SecretDice.GameView",
+            "name": "game",
+            "type": "tuple"
+          },
+          {
+            "internalType": "uint256",
+            "name": "pot",
+            "type": "uint256"
+          }
+        ],
+        "internalType": "struct SecretDiceLens.GameSummary[]",
+        "name": "games",
+        "type": "tuple[]"
+      },
+      {
+        "internalType": "uint256",
+        "name": "total",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "secretDice",
+    "outputs": [
+      {
+        "internalType": "contract SecretDice",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
@@ -0,0 +1,14 @@
+// Base URL of the optional event indexer (see `indexer/` in the repository root). Leave unset to hide the views
+// that depend on it.
+export const INDEXER_URL: string | undefined = import.meta.env.VITE_INDEXER_URL?.replace(/\/$/, '') || undefined;
+
+export async function fetchIndexer<T>(route: string): Promise<T> {
+  if (!INDEXER_URL) {
+    throw new Error('Indexer URL not configured.');
+  }
+  const response = await fetch(`${INDEXER_URL}${route}`);
+  if (!response.ok) {
+    throw new Error(`Indexer request failed with status ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
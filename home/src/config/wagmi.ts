@@ -1,11 +1,21 @@
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
-import { sepolia } from 'wagmi/chains';
+import type { Chain } from 'viem';
+import { hardhat, sepolia } from 'wagmi/chains';
+
+import { SUPPORTED_CHAIN_IDS } from './contracts';
 
 const projectId = import.meta.env.VITE_WALLETCONNECT_PROJECT_ID ?? 'id';
 
+// Every chain the frontend knows how to reach; only those with a synced deployment are offered to the wallet
+const KNOWN_CHAINS: Chain[] = [sepolia, hardhat];
+
+const supportedChains = KNOWN_CHAINS.filter((chain) => SUPPORTED_CHAIN_IDS.includes(chain.id));
+
+export const chains = (supportedChains.length > 0 ? supportedChains : [sepolia]) as [Chain, ...Chain[]];
+
 export const config = getDefaultConfig({
   appName: 'Secret Dice',
   projectId,
-  chains: [sepolia],
+  chains,
   ssr: false,
 });
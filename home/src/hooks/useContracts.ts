@@ -0,0 +1,21 @@
+import { useAccount, useChainId } from 'wagmi';
+
+import { getContractAddresses } from '../config/contracts';
+import { NATIVE_ASSET } from '../type/game';
+
+// Contract addresses for the connected wallet's chain, or the app's default chain before a wallet connects.
+// On a chain without a deployment every address is the zero address and `isSupported` is false.
+export function useContracts() {
+  const { chainId: walletChainId, isConnected } = useAccount();
+  const defaultChainId = useChainId();
+  const chainId = isConnected ? walletChainId : defaultChainId;
+  const addresses = getContractAddresses(chainId);
+
+  return {
+    chainId,
+    isSupported: addresses !== undefined,
+    diceAddress: addresses?.dice ?? NATIVE_ASSET,
+    tournamentAddress: addresses?.tournament ?? NATIVE_ASSET,
+    lensAddress: addresses?.lens ?? NATIVE_ASSET,
+  };
+}
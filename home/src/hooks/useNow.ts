@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+
+function currentTimestamp() {
+  return BigInt(Math.floor(Date.now() / 1000));
+}
+
+export function useNow(intervalMs = 1000) {
+  const [now, setNow] = useState(currentTimestamp);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(currentTimestamp()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+
+export type Route =
+  | { view: 'games' }
+  | { view: 'tournaments' }
+  | { view: 'leaderboard' }
+  | { view: 'game'; gameId: bigint };
+
+export function parseRoute(pathname: string): Route {
+  const segments = pathname.split('/').filter(Boolean);
+  if (segments[0] === 'games' && segments.length === 2 && /^\d+$/.test(segments[1])) {
+    return { view: 'game', gameId: BigInt(segments[1]) };
+  }
+  if (segments[0] === 'tournaments') {
+    return { view: 'tournaments' };
+  }
+  if (segments[0] === 'leaderboard') {
+    return { view: 'leaderboard' };
+  }
+  return { view: 'games' };
+}
+
+export function routePath(route: Route): string {
+  switch (route.view) {
+    case 'game':
+      return `/games/${route.gameId.toString()}`;
+    case 'tournaments':
+      return '/tournaments';
+    case 'leaderboard':
+      return '/leaderboard';
+    default:
+      return '/';
+  }
+}
+
+// Pushes a history entry and lets every `useRoute` consumer re-render, without a page load
+export function navigate(path: string) {
+  if (path === window.location.pathname) {
+    return;
+  }
+  window.history.pushState(null, '', path);
+  window.dispatchEvent(new PopStateEvent('popstate'));
+  window.scrollTo(0, 0);
+}
+
+export function useRoute() {
+  const [route, setRoute] = useState(() => parseRoute(window.location.pathname));
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(parseRoute(window.location.pathname));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  return route;
+}
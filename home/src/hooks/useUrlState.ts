@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from 'react';
+
+function readState<T extends Record<string, string>>(defaults: T): T {
+  const params = new URLSearchParams(window.location.search);
+  const state = { ...defaults };
+  for (const key of Object.keys(defaults) as (keyof T & string)[]) {
+    const value = params.get(key);
+    if (value !== null) {
+      state[key] = value as T[typeof key];
+    }
+  }
+  return state;
+}
+
+// String state kept in the query string, so it survives reloads and can be shared. Values equal to their default
+// are left out of the URL, and updates replace the history entry instead of pushing one per keystroke.
+export function useUrlState<T extends Record<string, string>>(defaults: T) {
+  const [state, setState] = useState(() => readState(defaults));
+
+  useEffect(() => {
+    const handlePopState = () => setState(readState(defaults));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [defaults]);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    for (const key of Object.keys(defaults)) {
+      if (state[key] === defaults[key]) {
+        params.delete(key);
+      } else {
+        params.set(key, state[key]);
+      }
+    }
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+  }, [state, defaults]);
+
+  const update = useCallback((changes: Partial<T>) => setState((current) => ({ ...current, ...changes })), []);
+
+  return [state, update] as const;
+}
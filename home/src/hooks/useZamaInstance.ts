@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { createInstance, initSDK, SepoliaConfig } from '@zama-fhe/relayer-sdk/bundle';
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle';
+
+export function useZamaInstance() {
+  const [instance, setInstance] = useState<FhevmInstance | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const initialize = async () => {
+      try {
+        await initSDK();
+        const created = await createInstance(SepoliaConfig);
+        if (!cancelled) {
+          setInstance(created);
+        }
+      } catch (initError) {
+        console.error('Failed to initialize the Zama relayer SDK', initError);
+        if (!cancelled) {
+          setError('Unable to initialize the Zama relayer SDK.');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    initialize();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { instance, isLoading, error };
+}
@@ -3,26 +3,78 @@ export const GameStatus = {
   WaitingForRolls: 1,
   AwaitingReveal: 2,
   Completed: 3,
+  Cancelled: 4,
+  Forfeited: 5,
+  Expired: 6,
+  Betting: 7,
 } as const;
 
 export type GameStatus = (typeof GameStatus)[keyof typeof GameStatus];
 
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 8;
+export const MAX_DICE = 5;
+export const DIE_FACES = [4, 6, 8, 10, 12, 20] as const;
+export const SERIES_LENGTHS = [1, 3, 5, 7] as const;
+export const MAX_TIE_REROLLS = 10;
+export const BPS_DENOMINATOR = 10_000n;
+
+export const NATIVE_ASSET = '0x0000000000000000000000000000000000000000';
+
+export type StakeAsset = {
+  address: `0x${string}`;
+  symbol: string;
+  decimals: number;
+};
+
+export const ETH_ASSET: StakeAsset = {
+  address: NATIVE_ASSET,
+  symbol: 'ETH',
+  decimals: 18,
+};
+
+export type BetAction = 'raise' | 'call' | 'fold';
+
+export type RoundResult = {
+  rolls: bigint[];
+  winnerMask: number;
+};
+
 export type GameDetails = {
   id: bigint;
   status: GameStatus;
   creator: `0x${string}`;
-  playerOne: `0x${string}`;
-  playerTwo: `0x${string}`;
-  playerOneRolled: boolean;
-  playerTwoRolled: boolean;
-  playerOneRoll: bigint;
-  playerTwoRoll: bigint;
-  winner: `0x${string}`;
-  rewardClaimed: boolean;
-  playerOneRefunded: boolean;
-  playerTwoRefunded: boolean;
+  stakeToken: `0x${string}`;
+  stakeAsset: StakeAsset;
+  stake: bigint;
+  capacity: number;
+  diceCount: number;
+  faces: number;
+  sealedResult: boolean;
+  bestOf: number;
+  currentRound: number;
+  maxTieRerolls: number;
+  tieRounds: number;
+  feeBps: number;
+  fee: bigint;
+  maxBet: bigint;
+  bets: bigint[];
+  turn: number;
+  players: `0x${string}`[];
+  rolled: boolean[];
+  rolls: bigint[];
+  payoutClaimed: boolean[];
+  credits: bigint[];
+  winners: `0x${string}`[];
+  revealedOutcome: number;
+  scores: number[];
+  rounds: RoundResult[];
   pot: bigint;
   revealPending: boolean;
+  joinDeadline: bigint;
+  rollDeadline: bigint;
+  revealDeadline: bigint;
+  betDeadline: bigint;
 };
 
 export const STATUS_LABELS: Record<GameStatus, string> = {
@@ -30,4 +82,86 @@ export const STATUS_LABELS: Record<GameStatus, string> = {
   [GameStatus.WaitingForRolls]: 'Waiting for rolls',
   [GameStatus.AwaitingReveal]: 'Decrypting rolls',
   [GameStatus.Completed]: 'Completed',
+  [GameStatus.Cancelled]: 'Cancelled',
+  [GameStatus.Forfeited]: 'Won by forfeit',
+  [GameStatus.Expired]: 'Expired',
+  [GameStatus.Betting]: 'Betting',
 };
+
+// Phase timeouts, mirroring the SecretDice constants
+export const JOIN_TIMEOUT = 86_400n;
+export const ROLL_TIMEOUT = 43_200n;
+export const REVEAL_TIMEOUT = 86_400n;
+export const BET_TIMEOUT = 43_200n;
+
+export function findPlayerIndex(game: GameDetails, account?: string) {
+  const normalized = account?.toLowerCase();
+  return normalized ? game.players.findIndex((player) => player.toLowerCase() === normalized) : -1;
+}
+
+export function isDrawGame(game: GameDetails) {
+  return game.status === GameStatus.Completed && game.winners.length === game.players.length;
+}
+
+// Withdrawable `balances` of the connected player in the SecretDice contract, keyed by lowercased stake token
+export type PlayerBalances = ReadonlyMap<string, bigint>;
+
+// `withdraw` and `withdrawAll` pay out the pooled balance without marking games as claimed, so a game's credit only
+// counts as unclaimed while the player's balance still covers it. Claiming it otherwise reverts or spends credit
+// owed for another game.
+export function hasUnclaimedCredit(game: GameDetails, playerIndex: number, balances?: PlayerBalances) {
+  if (playerIndex < 0 || game.payoutClaimed[playerIndex]) {
+    return false;
+  }
+  const credit = game.credits[playerIndex];
+  return credit > 0n && credit <= (balances?.get(game.stakeToken.toLowerCase()) ?? 0n);
+}
+
+export function canClaimReward(game: GameDetails, account?: string, balances?: PlayerBalances) {
+  const playerIndex = findPlayerIndex(game, account);
+  const normalized = account?.toLowerCase();
+  const isWinner = Boolean(normalized && game.winners.some((winner) => winner.toLowerCase() === normalized));
+  return (
+    (game.status === GameStatus.Completed || game.status === GameStatus.Forfeited) &&
+    !isDrawGame(game) &&
+    isWinner &&
+    hasUnclaimedCredit(game, playerIndex, balances)
+  );
+}
+
+export function canClaimRefund(game: GameDetails, account?: string, balances?: PlayerBalances) {
+  return isDrawGame(game) && hasUnclaimedCredit(game, findPlayerIndex(game, account), balances);
+}
+
+// Cancelled and expired games hold a credited stake like any other payout. A game still waiting past its reveal
+// deadline, or past its roll deadline with nobody rolled, is expired by the `reclaimStake` call itself, so no stake has
+// been credited or withdrawn yet.
+export function canReclaimStake(
+  game: GameDetails,
+  account: string | undefined,
+  now: bigint,
+  balances?: PlayerBalances,
+) {
+  const playerIndex = findPlayerIndex(game, account);
+  if (game.status === GameStatus.Cancelled || game.status === GameStatus.Expired) {
+    return hasUnclaimedCredit(game, playerIndex, balances);
+  }
+
+  const expired =
+    (game.status === GameStatus.AwaitingReveal && game.revealDeadline < now) ||
+    (game.status === GameStatus.WaitingForRolls && game.rollDeadline < now && !game.rolled.some(Boolean));
+  return expired && playerIndex >= 0 && !game.payoutClaimed[playerIndex];
+}
+
+// Start of the latest phase, recovered from the deadline the contract set when that phase began
+export function lastActivity(game: GameDetails) {
+  const phaseStarts = [
+    [game.joinDeadline, JOIN_TIMEOUT],
+    [game.rollDeadline, ROLL_TIMEOUT],
+    [game.revealDeadline, REVEAL_TIMEOUT],
+    [game.betDeadline, BET_TIMEOUT],
+  ]
+    .filter(([deadline]) => deadline > 0n)
+    .map(([deadline, timeout]) => deadline - timeout);
+  return phaseStarts.reduce((latest, start) => (start > latest ? start : latest), 0n);
+}
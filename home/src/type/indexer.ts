@@ -0,0 +1,41 @@
+export type IndexedGameState = 'open' | 'playing' | 'resolved' | 'forfeited' | 'cancelled';
+
+export interface IndexedGame {
+  gameId: string;
+  creator: `0x${string}`;
+  stakeToken: `0x${string}`;
+  stake: string;
+  players: `0x${string}`[];
+  state: IndexedGameState;
+  winners: `0x${string}`[];
+  rolls: number;
+  createdBlock: number;
+  updatedBlock: number;
+}
+
+export interface IndexedGameEvent {
+  name: string;
+  gameId: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: `0x${string}`;
+  logIndex: number;
+  args: Record<string, string | string[]>;
+}
+
+export interface IndexedGameWithEvents extends IndexedGame {
+  events: IndexedGameEvent[];
+}
+
+export interface IndexerPage<T> {
+  items: T[];
+  total: number;
+}
+
+export const INDEXED_STATE_LABELS: Record<IndexedGameState, string> = {
+  open: 'Waiting for players',
+  playing: 'In progress',
+  resolved: 'Resolved',
+  forfeited: 'Forfeited',
+  cancelled: 'Cancelled',
+};
@@ -0,0 +1,140 @@
+import { parseUnits } from 'viem';
+
+import type { GameDetails, PlayerBalances } from './game';
+import { GameStatus, canClaimRefund, canClaimReward, canReclaimStake, findPlayerIndex, lastActivity } from './game';
+
+export type LobbyTab = 'open' | 'mine' | 'claimable' | 'history';
+export type LobbySort = 'newest' | 'oldest' | 'pot' | 'activity';
+
+export const LOBBY_TABS: { value: LobbyTab; label: string }[] = [
+  { value: 'open', label: 'Open lobbies' },
+  { value: 'mine', label: 'My active games' },
+  { value: 'claimable', label: 'Claimable' },
+  { value: 'history', label: 'History' },
+];
+
+export const LOBBY_SORTS: { value: LobbySort; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'pot', label: 'Largest pot' },
+  { value: 'activity', label: 'Last activity' },
+];
+
+// Lobby browser state, mirrored into the URL query string. Empty strings mean "no filter".
+export type LobbyState = {
+  tab: LobbyTab;
+  status: string;
+  minStake: string;
+  maxStake: string;
+  player: string;
+  sort: LobbySort;
+};
+
+export const DEFAULT_LOBBY_STATE: LobbyState = {
+  tab: 'open',
+  status: '',
+  minStake: '',
+  maxStake: '',
+  player: '',
+  sort: 'newest',
+};
+
+// Falls back to the defaults for values hand-edited into the URL that the browser does not know
+export function normalizeLobbyState(state: LobbyState): LobbyState {
+  return {
+    ...state,
+    tab: LOBBY_TABS.some((option) => option.value === state.tab) ? state.tab : DEFAULT_LOBBY_STATE.tab,
+    sort: LOBBY_SORTS.some((option) => option.value === state.sort) ? state.sort : DEFAULT_LOBBY_STATE.sort,
+  };
+}
+
+const ACTIVE_STATUSES: GameStatus[] = [
+  GameStatus.WaitingForPlayers,
+  GameStatus.WaitingForRolls,
+  GameStatus.AwaitingReveal,
+  GameStatus.Betting,
+];
+
+// Same conditions as the claim buttons on the game card
+export function isClaimable(
+  game: GameDetails,
+  account: string | undefined,
+  now: bigint,
+  balances: PlayerBalances | undefined,
+) {
+  return (
+    canClaimReward(game, account, balances) ||
+    canClaimRefund(game, account, balances) ||
+    canReclaimStake(game, account, now, balances)
+  );
+}
+
+export function matchesTab(
+  game: GameDetails,
+  tab: LobbyTab,
+  account: string | undefined,
+  now: bigint,
+  balances: PlayerBalances | undefined,
+) {
+  switch (tab) {
+    case 'open':
+      return (
+        game.status === GameStatus.WaitingForPlayers && game.joinDeadline >= now && game.players.length < game.capacity
+      );
+    case 'mine':
+      return findPlayerIndex(game, account) >= 0 && ACTIVE_STATUSES.includes(game.status);
+    case 'claimable':
+      return isClaimable(game, account, now, balances);
+    case 'history':
+      return !ACTIVE_STATUSES.includes(game.status);
+  }
+}
+
+// Stake bounds are entered in whole units and compared in each game's own stake asset
+function parseStakeBound(value: string, decimals: number) {
+  try {
+    return value.trim() ? parseUnits(value.trim(), decimals) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function matchesFilters(game: GameDetails, state: LobbyState) {
+  if (state.status !== '' && game.status !== Number(state.status)) {
+    return false;
+  }
+
+  const minStake = parseStakeBound(state.minStake, game.stakeAsset.decimals);
+  const maxStake = parseStakeBound(state.maxStake, game.stakeAsset.decimals);
+  if ((minStake !== undefined && game.stake < minStake) || (maxStake !== undefined && game.stake > maxStake)) {
+    return false;
+  }
+
+  const player = state.player.trim().toLowerCase();
+  if (player) {
+    const addresses = [game.creator, ...game.players].map((address) => address.toLowerCase());
+    if (!addresses.some((address) => address.includes(player))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function compareBigInt(a: bigint, b: bigint) {
+  return a === b ? 0 : a > b ? 1 : -1;
+}
+
+export function sortGames(games: GameDetails[], sort: LobbySort) {
+  const sorted = [...games];
+  switch (sort) {
+    case 'oldest':
+      return sorted.sort((a, b) => compareBigInt(a.id, b.id));
+    case 'pot':
+      return sorted.sort((a, b) => compareBigInt(b.pot, a.pot) || compareBigInt(b.id, a.id));
+    case 'activity':
+      return sorted.sort((a, b) => compareBigInt(lastActivity(b), lastActivity(a)) || compareBigInt(b.id, a.id));
+    default:
+      return sorted.sort((a, b) => compareBigInt(b.id, a.id));
+  }
+}
@@ -0,0 +1,47 @@
+export const TournamentStatus = {
+  Registration: 0,
+  InProgress: 1,
+  Completed: 2,
+  Cancelled: 3,
+} as const;
+
+export type TournamentStatus = (typeof TournamentStatus)[keyof typeof TournamentStatus];
+
+export const TOURNAMENT_STATUS_LABELS: Record<TournamentStatus, string> = {
+  [TournamentStatus.Registration]: 'Registration',
+  [TournamentStatus.InProgress]: 'In progress',
+  [TournamentStatus.Completed]: 'Completed',
+  [TournamentStatus.Cancelled]: 'Cancelled',
+};
+
+export const BRACKET_SIZES = [4, 8, 16] as const;
+export const MAX_RUNNER_UP_PERCENT = 50;
+
+export type TournamentMatch = {
+  id: number;
+  round: number;
+  players: [`0x${string}`, `0x${string}`];
+  rolled: [boolean, boolean];
+  rolls: [bigint, bigint];
+  winner: `0x${string}`;
+  revealPending: boolean;
+  tieRounds: number;
+  rollDeadline: bigint;
+  revealDeadline: bigint;
+};
+
+export type TournamentDetails = {
+  id: bigint;
+  organizer: `0x${string}`;
+  status: TournamentStatus;
+  size: number;
+  diceCount: number;
+  faces: number;
+  runnerUpBps: number;
+  registrationDeadline: bigint;
+  buyIn: bigint;
+  champion: `0x${string}`;
+  runnerUp: `0x${string}`;
+  players: `0x${string}`[];
+  matches: TournamentMatch[];
+};
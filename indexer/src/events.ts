@@ -0,0 +1,66 @@
+import { Interface, type Log } from "ethers";
+
+// The lifecycle events the indexer follows. GameCancelled, GameForfeited, SealedGameResolved and StakeReclaimed are
+// included so a game's indexed state still reaches an end when it does not finish with a public reveal.
+export const TRACKED_EVENTS = [
+  "event GameCreated(uint256 indexed gameId, address indexed creator, address indexed stakeToken, uint256 stake)",
+  "event PlayerJoined(uint256 indexed gameId, address indexed player)",
+  "event GameReady(uint256 indexed gameId, address[] players)",
+  "event DiceRolled(uint256 indexed gameId, uint8 indexed round, address indexed player)",
+  "event DiceRevealed(uint256 indexed gameId, uint8 indexed round, uint32[] values)",
+  "event GameResolved(uint256 indexed gameId, address[] winners, uint32 topRoll)",
+  "event SealedGameResolved(uint256 indexed gameId, address[] winners)",
+  "event GameForfeited(uint256 indexed gameId, address[] winners)",
+  "event GameCancelled(uint256 indexed gameId, address indexed cancelledBy)",
+  "event RewardClaimed(uint256 indexed gameId, address indexed winner, uint256 amount)",
+  "event DrawRefundClaimed(uint256 indexed gameId, address indexed player, uint256 amount)",
+  "event StakeReclaimed(uint256 indexed gameId, address indexed player, uint256 amount)",
+];
+
+export const eventsInterface = new Interface(TRACKED_EVENTS);
+
+// Topic filter matching any tracked event
+export const TRACKED_TOPICS: string[] = [];
+eventsInterface.forEachEvent((event) => TRACKED_TOPICS.push(event.topicHash));
+
+export type EventArg = string | EventArg[];
+
+export interface IndexedEvent {
+  name: string;
+  gameId: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  // Decoded arguments by name; integers are decimal strings so the store stays plain JSON
+  args: Record<string, EventArg>;
+}
+
+function toJsonValue(value: unknown): EventArg {
+  if (Array.isArray(value)) {
+    return value.map(toJsonValue);
+  }
+  return String(value);
+}
+
+export function decodeLog(log: Log): IndexedEvent | null {
+  const parsed = eventsInterface.parseLog({ topics: [...log.topics], data: log.data });
+  if (!parsed) {
+    return null;
+  }
+
+  const args: Record<string, EventArg> = {};
+  parsed.fragment.inputs.forEach((input, index) => {
+    args[input.name] = toJsonValue(parsed.args[index]);
+  });
+
+  return {
+    name: parsed.name,
+    gameId: args.gameId as string,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.index,
+    args,
+  };
+}
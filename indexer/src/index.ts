@@ -0,0 +1,68 @@
+import * as dotenv from "dotenv";
+import { JsonRpcProvider } from "ethers";
+import fs from "fs";
+import path from "path";
+
+import { SecretDiceIndexer } from "./indexer";
+import { createIndexerServer } from "./server";
+import { JsonStore } from "./store";
+
+dotenv.config();
+
+const RPC_URL = process.env.INDEXER_RPC_URL ?? "http://127.0.0.1:8545";
+const NETWORK = process.env.INDEXER_NETWORK ?? "localhost";
+const PORT = Number(process.env.INDEXER_PORT ?? 4000);
+const POLL_INTERVAL_MS = Number(process.env.INDEXER_POLL_INTERVAL_MS ?? 2000);
+const STORE_PATH = process.env.INDEXER_STORE_PATH ?? path.join(__dirname, "..", "data", `${NETWORK}.json`);
+
+// Falls back to the hardhat-deploy record of the network for the address and deployment block
+function readDeployment() {
+  const deploymentPath = path.join(__dirname, "..", "..", "deployments", NETWORK, "SecretDice.json");
+  if (!fs.existsSync(deploymentPath)) {
+    return null;
+  }
+  const deployment = JSON.parse(fs.readFileSync(deploymentPath, "utf8"));
+  return { address: deployment.address as string, blockNumber: deployment.receipt?.blockNumber as number | undefined };
+}
+
+async function main() {
+  const deployment = readDeployment();
+  const contractAddress = process.env.INDEXER_CONTRACT_ADDRESS ?? deployment?.address;
+  if (!contractAddress) {
+    throw new Error(`Set INDEXER_CONTRACT_ADDRESS or deploy SecretDice to ${NETWORK} first`);
+  }
+  const startBlock = Number(process.env.INDEXER_START_BLOCK ?? deployment?.blockNumber ?? 0);
+
+  const store = new JsonStore(contractAddress, STORE_PATH);
+  const indexer = new SecretDiceIndexer({
+    provider: new JsonRpcProvider(RPC_URL),
+    contractAddress,
+    store,
+    startBlock,
+  });
+
+  createIndexerServer(store).listen(PORT, () => {
+    console.log(`Indexing SecretDice at ${contractAddress} from ${RPC_URL}`);
+    console.log(`Query API listening on http://localhost:${PORT}`);
+  });
+
+  let lastHead: number | null = null;
+  const poll = async () => {
+    try {
+      const head = await indexer.sync();
+      if (head !== lastHead) {
+        console.log(`Indexed up to block ${head} (${store.events.length} events)`);
+        lastHead = head;
+      }
+    } catch (error) {
+      console.error("Sync failed", error);
+    }
+    setTimeout(poll, POLL_INTERVAL_MS);
+  };
+  await poll();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,87 @@
+import type { Provider } from "ethers";
+
+import { TRACKED_TOPICS, decodeLog, type IndexedEvent } from "./events";
+import type { JsonStore } from "./store";
+
+export interface IndexerOptions {
+  provider: Provider;
+  contractAddress: string;
+  store: JsonStore;
+  // First block to scan, usually the deployment block
+  startBlock?: number;
+  // Blocks per getLogs request
+  batchSize?: number;
+  // How many recent block hashes to keep for reorg detection; deeper reorgs trigger a full re-index
+  reorgDepth?: number;
+}
+
+export class SecretDiceIndexer {
+  private readonly provider: Provider;
+  private readonly contractAddress: string;
+  private readonly store: JsonStore;
+  private readonly startBlock: number;
+  private readonly batchSize: number;
+  private readonly reorgDepth: number;
+
+  constructor(options: IndexerOptions) {
+    this.provider = options.provider;
+    this.contractAddress = options.contractAddress;
+    this.store = options.store;
+    this.startBlock = options.startBlock ?? 0;
+    this.batchSize = options.batchSize ?? 2000;
+    this.reorgDepth = options.reorgDepth ?? 64;
+  }
+
+  // Indexes every block up to the current chain head and returns the new indexed head
+  async sync(): Promise<number | null> {
+    await this.unwindReorg();
+
+    const latest = await this.provider.getBlockNumber();
+    let from = Math.max(this.startBlock, (this.store.head ?? -1) + 1);
+
+    while (from <= latest) {
+      const to = Math.min(latest, from + this.batchSize - 1);
+      // The header is read before the logs: if a reorg lands in between, the stored head hash is the stale one and
+      // the next sync unwinds it, instead of stale logs hiding behind a fresh head hash
+      const block = await this.provider.getBlock(to);
+      if (!block?.hash) {
+        break;
+      }
+
+      const logs = await this.provider.getLogs({
+        address: this.contractAddress,
+        fromBlock: from,
+        toBlock: to,
+        topics: [TRACKED_TOPICS],
+      });
+      const events = logs.map(decodeLog).filter((event): event is IndexedEvent => event !== null);
+      events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+      this.store.append(to, block.hash, events, this.reorgDepth);
+      from = to + 1;
+    }
+
+    this.store.save();
+    return this.store.head;
+  }
+
+  // Rolls the store back to the newest tracked block that is still on the canonical chain
+  private async unwindReorg() {
+    const tracked = this.store.trackedBlocks();
+    if (tracked.length === 0) {
+      return;
+    }
+
+    for (const blockNumber of tracked) {
+      const block = await this.provider.getBlock(blockNumber);
+      if (block?.hash === this.store.getBlockHash(blockNumber)) {
+        if (blockNumber !== this.store.head) {
+          this.store.rollback(blockNumber);
+        }
+        return;
+      }
+    }
+
+    this.store.rollback(null);
+  }
+}
@@ -0,0 +1,107 @@
+import type { EventArg, IndexedEvent } from "./events";
+
+export type GameState = "open" | "playing" | "resolved" | "forfeited" | "cancelled";
+
+export interface GameRecord {
+  gameId: string;
+  creator: string;
+  stakeToken: string;
+  stake: string;
+  players: string[];
+  state: GameState;
+  winners: string[];
+  rolls: number;
+  createdBlock: number;
+  updatedBlock: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+}
+
+// Folds the event log into one record per game, in creation order
+export function buildGames(events: readonly IndexedEvent[]): GameRecord[] {
+  const games = new Map<string, GameRecord>();
+
+  for (const event of events) {
+    if (event.name === "GameCreated") {
+      games.set(event.gameId, {
+        gameId: event.gameId,
+        creator: event.args.creator as string,
+        stakeToken: event.args.stakeToken as string,
+        stake: event.args.stake as string,
+        players: [],
+        state: "open",
+        winners: [],
+        rolls: 0,
+        createdBlock: event.blockNumber,
+        updatedBlock: event.blockNumber,
+      });
+      continue;
+    }
+
+    const game = games.get(event.gameId);
+    if (!game) {
+      continue;
+    }
+    game.updatedBlock = event.blockNumber;
+
+    switch (event.name) {
+      case "PlayerJoined":
+        game.players.push(event.args.player as string);
+        break;
+      case "GameReady":
+        game.state = "playing";
+        break;
+      case "DiceRolled":
+        game.rolls += 1;
+        break;
+      case "GameResolved":
+      case "SealedGameResolved":
+        game.state = "resolved";
+        game.winners = event.args.winners as string[];
+        break;
+      case "GameForfeited":
+        game.state = "forfeited";
+        game.winners = event.args.winners as string[];
+        break;
+      case "GameCancelled":
+        game.state = "cancelled";
+        break;
+    }
+  }
+
+  return [...games.values()];
+}
+
+export function paginate<T>(items: T[], offset: number, limit: number): Page<T> {
+  return { items: items.slice(offset, offset + limit), total: items.length };
+}
+
+// Every game, newest first
+export function listGames(events: readonly IndexedEvent[]): GameRecord[] {
+  return buildGames(events).reverse();
+}
+
+// Games a player has joined, newest first
+export function listPlayerGames(events: readonly IndexedEvent[], player: string): GameRecord[] {
+  const address = player.toLowerCase();
+  return listGames(events).filter((game) => game.players.some((seat) => seat.toLowerCase() === address));
+}
+
+// Lobbies still waiting for players, newest first. The join deadline is not part of the events, so a lobby stays
+// listed until it fills or is cancelled.
+export function listOpenLobbies(events: readonly IndexedEvent[]): GameRecord[] {
+  return listGames(events).filter((game) => game.state === "open");
+}
+
+function mentions(value: EventArg, address: string): boolean {
+  return Array.isArray(value) ? value.some((item) => mentions(item, address)) : value.toLowerCase() === address;
+}
+
+// Every event naming an address as creator, player, winner or claimant, newest first
+export function addressHistory(events: readonly IndexedEvent[], address: string): IndexedEvent[] {
+  const target = address.toLowerCase();
+  return events.filter((event) => Object.values(event.args).some((value) => mentions(value, target))).reverse();
+}
@@ -0,0 +1,101 @@
+import http from "http";
+
+import type { JsonStore } from "./store";
+import { addressHistory, listGames, listOpenLobbies, listPlayerGames, paginate } from "./queries";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function readPaging(url: URL) {
+  const offset = Number(url.searchParams.get("offset") ?? 0);
+  const limit = Number(url.searchParams.get("limit") ?? DEFAULT_PAGE_SIZE);
+  if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit < 1) {
+    throw new HttpError(400, "offset and limit must be non-negative integers");
+  }
+  return { offset, limit: Math.min(limit, MAX_PAGE_SIZE) };
+}
+
+function readAddress(value: string) {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(value)) {
+    throw new HttpError(400, `Invalid address ${value}`);
+  }
+  return value;
+}
+
+function route(store: JsonStore, url: URL): unknown {
+  const segments = url.pathname.split("/").filter(Boolean);
+  const events = store.events;
+
+  if (segments.length === 1 && segments[0] === "status") {
+    return { head: store.head, events: events.length };
+  }
+
+  if (segments[0] === "games" && segments.length === 1) {
+    const { offset, limit } = readPaging(url);
+    return paginate(listGames(events), offset, limit);
+  }
+
+  if (segments[0] === "games" && segments.length === 2) {
+    const game = listGames(events).find((record) => record.gameId === segments[1]);
+    if (!game) {
+      throw new HttpError(404, `Game ${segments[1]} not found`);
+    }
+    return { ...game, events: events.filter((event) => event.gameId === game.gameId) };
+  }
+
+  if (segments[0] === "lobbies" && segments.length === 1) {
+    const { offset, limit } = readPaging(url);
+    return paginate(listOpenLobbies(events), offset, limit);
+  }
+
+  if (segments[0] === "players" && segments[2] === "games" && segments.length === 3) {
+    const { offset, limit } = readPaging(url);
+    return paginate(listPlayerGames(events, readAddress(segments[1])), offset, limit);
+  }
+
+  if (segments[0] === "addresses" && segments[2] === "history" && segments.length === 3) {
+    const { offset, limit } = readPaging(url);
+    return paginate(addressHistory(events, readAddress(segments[1])), offset, limit);
+  }
+
+  throw new HttpError(404, `No route for ${url.pathname}`);
+}
+
+// Read-only JSON API over the indexed events:
+//   GET /status                          indexed head block and event count
+//   GET /games                           every game, newest first
+//   GET /games/:id                       one game with its events
+//   GET /lobbies                         lobbies still waiting for players
+//   GET /players/:address/games          games a player has joined
+//   GET /addresses/:address/history      events that mention an address
+// List routes take `offset` and `limit` query parameters and return `{ items, total }`.
+export function createIndexerServer(store: JsonStore): http.Server {
+  return http.createServer((request, response) => {
+    response.setHeader("Access-Control-Allow-Origin", "*");
+    response.setHeader("Content-Type", "application/json");
+
+    let status = 200;
+    let body: unknown;
+    try {
+      if (request.method !== "GET") {
+        throw new HttpError(405, `Method ${request.method} not allowed`);
+      }
+      body = route(store, new URL(request.url ?? "/", "http://localhost"));
+    } catch (error) {
+      status = error instanceof HttpError ? error.status : 500;
+      body = { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    response.statusCode = status;
+    response.end(JSON.stringify(body));
+  });
+}
@@ -0,0 +1,90 @@
+import fs from "fs";
+import path from "path";
+
+import type { IndexedEvent } from "./events";
+
+interface StoreState {
+  contract: string;
+  // Last block whose logs are fully indexed, or null before the first sync
+  head: number | null;
+  // Hashes of recently indexed blocks by number, used to detect reorgs
+  blockHashes: Record<string, string>;
+  events: IndexedEvent[];
+}
+
+// Event store kept in memory and mirrored to a JSON file after every change, when a path is given
+export class JsonStore {
+  private state: StoreState;
+
+  constructor(
+    contract: string,
+    private readonly filePath?: string,
+  ) {
+    this.state = { contract: contract.toLowerCase(), head: null, blockHashes: {}, events: [] };
+
+    if (filePath && fs.existsSync(filePath)) {
+      const saved = JSON.parse(fs.readFileSync(filePath, "utf8")) as StoreState;
+      // A store written for another deployment is discarded rather than mixed with this one
+      if (saved.contract === this.state.contract) {
+        this.state = saved;
+      }
+    }
+  }
+
+  get head(): number | null {
+    return this.state.head;
+  }
+
+  get events(): readonly IndexedEvent[] {
+    return this.state.events;
+  }
+
+  getBlockHash(blockNumber: number): string | undefined {
+    return this.state.blockHashes[blockNumber];
+  }
+
+  // Block numbers with a known hash, newest first
+  trackedBlocks(): number[] {
+    return Object.keys(this.state.blockHashes)
+      .map(Number)
+      .sort((a, b) => b - a);
+  }
+
+  // Records the events of every block up to `head`, whose hash is `headHash`
+  append(head: number, headHash: string, events: IndexedEvent[], keepBlocks: number) {
+    for (const event of events) {
+      this.state.blockHashes[event.blockNumber] = event.blockHash;
+    }
+    this.state.blockHashes[head] = headHash;
+    this.state.events.push(...events);
+    this.state.head = head;
+
+    for (const blockNumber of this.trackedBlocks()) {
+      if (blockNumber < head - keepBlocks) {
+        delete this.state.blockHashes[blockNumber];
+      }
+    }
+  }
+
+  // Drops everything indexed after `blockNumber`
+  rollback(blockNumber: number | null) {
+    const keep = (value: number) => blockNumber !== null && value <= blockNumber;
+    this.state.events = this.state.events.filter((event) => keep(event.blockNumber));
+    for (const tracked of this.trackedBlocks()) {
+      if (!keep(tracked)) {
+        delete this.state.blockHashes[tracked];
+      }
+    }
+    this.state.head = blockNumber;
+  }
+
+  save() {
+    if (!this.filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.state), "utf8");
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
@@ -1,35 +1,117 @@
 const fs = require("fs");
 const path = require("path");
 
-function main() {
-  const network = process.argv[2] ?? "sepolia";
-  const deploymentPath = path.join(__dirname, "..", "deployments", network, "SecretDice.json");
+const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+const OUTPUT_DIR = path.join(__dirname, "..", "home", "src", "config", "generated");
+
+const CONTRACTS = [
+  ["SecretDice", "secretDice.ts"],
+  // The tournament and lens contracts are deployed separately and are optional
+  ["SecretDiceTournament", "secretDiceTournament.ts"],
+  ["SecretDiceLens", "secretDiceLens.ts"],
+];
+
+function listNetworks(filter) {
+  if (!fs.existsSync(DEPLOYMENTS_DIR)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(DEPLOYMENTS_DIR)
+    .filter((network) => filter.length === 0 || filter.includes(network))
+    .filter((network) => fs.existsSync(path.join(DEPLOYMENTS_DIR, network, ".chainId")))
+    .sort();
+}
+
+function readDeployment(network, name) {
+  const deploymentPath = path.join(DEPLOYMENTS_DIR, network, `${name}.json`);
 
   if (!fs.existsSync(deploymentPath)) {
-    console.error(`Deployment file not found at ${deploymentPath}`);
-    process.exit(1);
+    return null;
   }
 
   const fileContent = fs.readFileSync(deploymentPath, "utf8");
   const deployment = JSON.parse(fileContent);
 
   if (!deployment.address || !Array.isArray(deployment.abi)) {
-    console.error("Deployment file is missing address or abi fields");
+    console.error(`${name} deployment file for ${network} is missing address or abi fields`);
     process.exit(1);
   }
 
-  const outputDir = path.join(__dirname, "..", "home", "src", "config", "generated");
-  fs.mkdirSync(outputDir, { recursive: true });
+  return deployment;
+}
+
+// Deployment folders are not committed, so addresses already in the generated file are kept for chains that have
+// no folder on this machine (for example the shared Sepolia deployment)
+function readExistingAddresses(outputPath) {
+  if (!fs.existsSync(outputPath)) {
+    return {};
+  }
+
+  const content = fs.readFileSync(outputPath, "utf8");
+  const block = content.match(/CONTRACT_ADDRESSES[^=]*= \{([^}]*)\}/);
+  const addresses = {};
+  for (const [, chainId, address] of block ? block[1].matchAll(/(\d+): '(0x[0-9a-fA-F]{40})'/g) : []) {
+    addresses[chainId] = address;
+  }
+  return addresses;
+}
 
-  const outputPath = path.join(outputDir, "secretDice.ts");
-  const abiString = JSON.stringify(deployment.abi, null, 2);
+function writeConfig(outputPath, addresses, abi) {
+  const entries = Object.entries(addresses)
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([chainId, address]) => `  ${chainId}: '${address}',\n`)
+    .join("");
+  const abiString = JSON.stringify(abi, null, 2);
 
-  const content = `export const CONTRACT_ADDRESS: \`0x\${string}\` = '${deployment.address}';
+  const content = `// Deployed address per chain id, generated by scripts/sync-contract.js
+export const CONTRACT_ADDRESSES: Partial<Record<number, \`0x\${string}\`>> = {
+${entries}};
 export const CONTRACT_ABI = ${abiString} as const;
 `;
 
   fs.writeFileSync(outputPath, content, "utf8");
-  console.log(`Updated frontend contract config using ${network} deployment.`);
+}
+
+function main() {
+  const networks = listNetworks(process.argv.slice(2));
+
+  if (networks.length === 0) {
+    console.error(`No deployments found in ${DEPLOYMENTS_DIR}`);
+    process.exit(1);
+  }
+
+  fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+
+  for (const [name, fileName] of CONTRACTS) {
+    const outputPath = path.join(OUTPUT_DIR, fileName);
+    const addresses = readExistingAddresses(outputPath);
+    let abi = null;
+
+    // Later folders win when two networks share a chain id, so `localhost` overrides `hardhat`
+    for (const network of networks) {
+      const deployment = readDeployment(network, name);
+      if (!deployment) {
+        continue;
+      }
+      const chainId = fs.readFileSync(path.join(DEPLOYMENTS_DIR, network, ".chainId"), "utf8").trim();
+      addresses[chainId] = deployment.address;
+      abi = deployment.abi;
+    }
+
+    if (!abi) {
+      if (name === "SecretDice") {
+        console.error(`SecretDice is not deployed on any of: ${networks.join(", ")}`);
+        process.exit(1);
+      }
+      continue;
+    }
+
+    writeConfig(outputPath, addresses, abi);
+    console.log(`${name}: ${Object.keys(addresses).length} chain(s)`);
+  }
+
+  console.log(`Updated frontend contract config using ${networks.join(", ")} deployments.`);
 }
 
 main();
@@ -1,5 +1,8 @@
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import type { SecretDice } from "../types";
 
 async function getSecretDice(hre: any) {
   const { deployments, ethers } = hre;
@@ -7,23 +10,63 @@ async function getSecretDice(hre: any) {
   return ethers.getContractAt("SecretDice", deployment.address);
 }
 
+const ERC20_ABI = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function balanceOf(address account) view returns (uint256)",
+];
+
+async function getStakeAsset(hre: HardhatRuntimeEnvironment, stakeToken: string) {
+  if (stakeToken === hre.ethers.ZeroAddress) {
+    return { symbol: "ETH", decimals: 18 };
+  }
+  const token = await hre.ethers.getContractAt(ERC20_ABI, stakeToken);
+  return { symbol: (await token.symbol()) as string, decimals: Number(await token.decimals()) };
+}
+
 task("dice:address", "Prints the SecretDice contract address").setAction(async (_args: TaskArguments, hre) => {
   const deployment = await hre.deployments.get("SecretDice");
   console.log(`SecretDice address: ${deployment.address}`);
 });
 
 task("dice:create", "Creates a new dice game lobby")
+  .addOptionalParam("stake", "Stake each player pays to join, in whole units of the stake asset", "0.0001")
+  .addOptionalParam("token", "Allowlisted ERC-20 stake token (defaults to native ETH)")
+  .addOptionalParam("players", "Number of seats at the table (2-8)", "2")
+  .addOptionalParam("dice", "Number of dice each player rolls (1-5)", "1")
+  .addOptionalParam("faces", "Faces per die (4, 6, 8, 10, 12 or 20)", "6")
+  .addFlag("sealed", "Reveal only the win/lose/draw outcome, never the rolls")
+  .addOptionalParam("bestOf", "Series length in rounds (1, 3, 5 or 7)", "1")
+  .addOptionalParam("tieRerolls", "Sudden-death re-rolls allowed on a draw before refunding (0-10)", "0")
+  .addOptionalParam("maxBet", "Bluff mode: largest extra bet per player, in whole units (heads-up, best of 1)", "0")
   .addOptionalParam("signer", "Signer index to use", "0")
   .setAction(async (taskArgs: TaskArguments, hre) => {
     const secretDice = await getSecretDice(hre);
     const signers = await hre.ethers.getSigners();
     const signer = signers[parseInt(taskArgs.signer ?? "0", 10)];
 
+    const stakeToken = taskArgs.token ?? hre.ethers.ZeroAddress;
+    const asset = await getStakeAsset(hre, stakeToken);
+    const stake = hre.ethers.parseUnits(taskArgs.stake, asset.decimals);
+
     const nextGameId = await secretDice.nextGameId();
-    const tx = await secretDice.connect(signer).createGame();
+    const capacity = parseInt(taskArgs.players, 10);
+    const diceCount = parseInt(taskArgs.dice, 10);
+    const faces = parseInt(taskArgs.faces, 10);
+    const sealedResult = Boolean(taskArgs.sealed);
+    const bestOf = parseInt(taskArgs.bestOf, 10);
+    const maxTieRerolls = parseInt(taskArgs.tieRerolls, 10);
+    const maxBet = hre.ethers.parseUnits(taskArgs.maxBet, asset.decimals);
+    const tx = await secretDice
+      .connect(signer)
+      .createGame(stakeToken, stake, { capacity, diceCount, faces, sealedResult, bestOf, maxTieRerolls, maxBet });
     await tx.wait();
 
-    console.log(`Created game with id ${nextGameId.toString()}`);
+    console.log(
+      `Created ${capacity}-player ${diceCount}d${faces}${sealedResult ? " sealed" : ""}${maxBet > 0n ? " bluff" : ""} best-of-${bestOf} game with id ${nextGameId.toString()} and stake ${taskArgs.stake} ${asset.symbol}`,
+    );
   });
 
 task("dice:join", "Join a dice game")
@@ -35,8 +78,20 @@ task("dice:join", "Join a dice game")
     const signer = signers[parseInt(taskArgs.signer ?? "0", 10)];
     const gameId = BigInt(taskArgs.id);
 
-    const entryFee = await secretDice.ENTRY_FEE();
-    const tx = await secretDice.connect(signer).joinGame(gameId, { value: entryFee });
+    const { stake, stakeToken } = await secretDice.getGame(gameId);
+
+    if (stakeToken !== hre.ethers.ZeroAddress) {
+      const token = await hre.ethers.getContractAt(ERC20_ABI, stakeToken, signer);
+      const spender = await secretDice.getAddress();
+      if ((await token.allowance(signer.address, spender)) < stake) {
+        const approveTx = await token.approve(spender, stake);
+        await approveTx.wait();
+        console.log(`Approved ${stake.toString()} of token ${stakeToken}`);
+      }
+    }
+
+    const value = stakeToken === hre.ethers.ZeroAddress ? stake : 0n;
+    const tx = await secretDice.connect(signer).joinGame(gameId, { value });
     await tx.wait();
 
     console.log(`Signer ${signer.address} joined game ${gameId.toString()}`);
@@ -56,11 +111,95 @@ task("dice:roll", "Roll dice for a game")
 
     const gameInfo = await secretDice.getGame(gameId);
     console.log(`Game status: ${gameInfo.status} (${gameInfo.revealPending ? 'awaiting reveal' : 'updated'})`);
+    console.log(`Rolled: [${gameInfo.rolled.join(", ")}] (${gameInfo.players.length}/${gameInfo.capacity} seats)`);
+  });
+
+task("dice:bet", "Raise, call or fold in a bluff game's betting round")
+  .addParam("id", "Game id")
+  .addParam("action", "raise, call or fold")
+  .addOptionalParam("amount", "Amount to raise above the opponent's bet, in whole units of the stake asset")
+  .addOptionalParam("signer", "Signer index to use", "0")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const secretDice = await getSecretDice(hre);
+    const signers = await hre.ethers.getSigners();
+    const signer = signers[parseInt(taskArgs.signer ?? "0", 10)];
+    const gameId = BigInt(taskArgs.id);
+
+    const gameInfo = await secretDice.getGame(gameId);
+    const seat = gameInfo.players.indexOf(signer.address);
+    const asset = await getStakeAsset(hre, gameInfo.stakeToken);
+
+    if (taskArgs.action === "fold") {
+      const tx = await secretDice.connect(signer).fold(gameId);
+      await tx.wait();
+      console.log(`Signer ${signer.address} folded game ${gameId.toString()}`);
+      return;
+    }
+
+    if (taskArgs.action !== "raise" && taskArgs.action !== "call") {
+      throw new Error(`Unknown betting action "${taskArgs.action}"`);
+    }
+
+    const raise = taskArgs.action === "raise" ? hre.ethers.parseUnits(taskArgs.amount ?? "0", asset.decimals) : 0n;
+    const bet = gameInfo.bets[1 - seat] + raise;
+    const payment = bet - gameInfo.bets[seat];
+
+    if (gameInfo.stakeToken !== hre.ethers.ZeroAddress && payment > 0n) {
+      const token = await hre.ethers.getContractAt(ERC20_ABI, gameInfo.stakeToken, signer);
+      const spender = await secretDice.getAddress();
+      if ((await token.allowance(signer.address, spender)) < payment) {
+        const approveTx = await token.approve(spender, payment);
+        await approveTx.wait();
+        console.log(`Approved ${payment.toString()} of token ${gameInfo.stakeToken}`);
+      }
+    }
+
+    const value = gameInfo.stakeToken === hre.ethers.ZeroAddress ? payment : 0n;
+    const tx =
+      taskArgs.action === "raise"
+        ? await secretDice.connect(signer).raiseBet(gameId, raise, { value })
+        : await secretDice.connect(signer).callBet(gameId, { value });
+    await tx.wait();
+
     console.log(
-      `Player rolls: [${gameInfo.playerOneRevealed.toString()}, ${gameInfo.playerTwoRevealed.toString()}] (0 indicates pending reveal)`,
+      `Signer ${signer.address} ${taskArgs.action === "raise" ? "raised" : "called"} to ${hre.ethers.formatUnits(bet, asset.decimals)} ${asset.symbol}`,
     );
   });
 
+task("dice:reveal", "Publicly decrypt the rolls (or sealed outcome) and finalize the game")
+  .addParam("id", "Game id")
+  .addOptionalParam("signer", "Signer index to use", "0")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    await hre.fhevm.initializeCLIApi();
+
+    const secretDice = await getSecretDice(hre);
+    const signers = await hre.ethers.getSigners();
+    const signer = signers[parseInt(taskArgs.signer ?? "0", 10)];
+    const gameId = BigInt(taskArgs.id);
+
+    const handles: string[] = [...(await secretDice.getRevealHandles(gameId))];
+    const decryption = await hre.fhevm.publicDecrypt(handles);
+
+    const tx = await secretDice
+      .connect(signer)
+      .finalizeReveal(gameId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+    await tx.wait();
+
+    const gameInfo = await secretDice.getGame(gameId);
+    console.log(`Game ${gameId.toString()} round ${gameInfo.rounds.length} revealed`);
+    if (gameInfo.sealedResult) {
+      console.log(`Sealed outcome (winner bitmask): ${gameInfo.revealedOutcome}`);
+    } else {
+      console.log(`Player rolls: [${gameInfo.revealedRolls.join(", ")}]`);
+    }
+    console.log(`Scores: [${gameInfo.scores.join(", ")}]`);
+    if (gameInfo.winners.length > 0) {
+      console.log(`Winners: ${gameInfo.winners.join(", ")}`);
+    } else {
+      console.log(`Round ${gameInfo.currentRound} is open for rolling`);
+    }
+  });
+
 task("dice:claim", "Claim reward if caller won")
   .addParam("id", "Game id")
   .addOptionalParam("signer", "Signer index to use", "0")
@@ -91,6 +230,120 @@ task("dice:refund", "Claim draw refund")
     console.log(`Signer ${signer.address} claimed draw refund for game ${gameId.toString()}`);
   });
 
+task("dice:cancel", "Cancel a lobby after its join deadline")
+  .addParam("id", "Game id")
+  .addOptionalParam("signer", "Signer index to use", "0")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const secretDice = await getSecretDice(hre);
+    const signers = await hre.ethers.getSigners();
+    const signer = signers[parseInt(taskArgs.signer ?? "0", 10)];
+    const gameId = BigInt(taskArgs.id);
+
+    const tx = await secretDice.connect(signer).cancelGame(gameId);
+    await tx.wait();
+
+    console.log(`Signer ${signer.address} cancelled game ${gameId.toString()}`);
+  });
+
+task("dice:forfeit", "Claim a share of the pot when other players missed the roll deadline")
+  .addParam("id", "Game id")
+  .addOptionalParam("signer", "Signer index to use", "0")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const secretDice = await getSecretDice(hre);
+    const signers = await hre.ethers.getSigners();
+    const signer = signers[parseInt(taskArgs.signer ?? "0", 10)];
+    const gameId = BigInt(taskArgs.id);
+
+    const tx = await secretDice.connect(signer).claimForfeit(gameId);
+    await tx.wait();
+
+    console.log(`Signer ${signer.address} claimed forfeit for game ${gameId.toString()}`);
+  });
+
+task("dice:reclaim", "Reclaim the entry fee from an expired game")
+  .addParam("id", "Game id")
+  .addOptionalParam("signer", "Signer index to use", "0")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const secretDice = await getSecretDice(hre);
+    const signers = await hre.ethers.getSigners();
+    const signer = signers[parseInt(taskArgs.signer ?? "0", 10)];
+    const gameId = BigInt(taskArgs.id);
+
+    const tx = await secretDice.connect(signer).reclaimStake(gameId);
+    await tx.wait();
+
+    console.log(`Signer ${signer.address} reclaimed stake for game ${gameId.toString()}`);
+  });
+
+task("dice:withdraw", "Withdraw credited winnings and refunds from the balance ledger")
+  .addOptionalParam("token", "Stake token to withdraw (defaults to native ETH)")
+  .addOptionalParam("amount", "Amount in whole units of the asset (defaults to the whole balance)")
+  .addOptionalParam("signer", "Signer index to use", "0")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const secretDice = await getSecretDice(hre);
+    const signers = await hre.ethers.getSigners();
+    const signer = signers[parseInt(taskArgs.signer ?? "0", 10)];
+    const stakeToken = taskArgs.token ?? hre.ethers.ZeroAddress;
+    const asset = await getStakeAsset(hre, stakeToken);
+
+    const balance = await secretDice.balances(signer.address, stakeToken);
+    const amount = taskArgs.amount ? hre.ethers.parseUnits(taskArgs.amount, asset.decimals) : balance;
+    console.log(`Balance: ${hre.ethers.formatUnits(balance, asset.decimals)} ${asset.symbol}`);
+
+    const tx = taskArgs.amount
+      ? await secretDice.connect(signer).withdraw(stakeToken, amount)
+      : await secretDice.connect(signer).withdrawAll(stakeToken);
+    await tx.wait();
+
+    console.log(`Signer ${signer.address} withdrew ${hre.ethers.formatUnits(amount, asset.decimals)} ${asset.symbol}`);
+  });
+
+task("dice:stats", "Display a player's lifetime stats, or the leaderboard with --top")
+  .addOptionalParam("player", "Player address (defaults to the signer)")
+  .addOptionalParam("token", "Stake token to report on (defaults to native ETH)")
+  .addOptionalParam("top", "Print the top N players instead of a single player")
+  .addOptionalParam("order", "Leaderboard ranking: wins or profit", "wins")
+  .addOptionalParam("signer", "Signer index to use", "0")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const stakeToken = taskArgs.token ?? hre.ethers.ZeroAddress;
+    const asset = await getStakeAsset(hre, stakeToken);
+    const formatNet = (net: bigint) =>
+      `${net < 0n ? "-" : "+"}${hre.ethers.formatUnits(net < 0n ? -net : net, asset.decimals)} ${asset.symbol}`;
+
+    if (taskArgs.top) {
+      if (taskArgs.order !== "wins" && taskArgs.order !== "profit") {
+        throw new Error(`Unknown order "${taskArgs.order}", expected wins or profit`);
+      }
+      const deployment = await hre.deployments.get("SecretDiceLens");
+      const lens = await hre.ethers.getContractAt("SecretDiceLens", deployment.address);
+      const [entries, total] = await lens.getLeaderboard(
+        stakeToken,
+        taskArgs.order === "wins" ? 0 : 1,
+        0,
+        parseInt(taskArgs.top, 10),
+      );
+
+      console.log(`Top ${entries.length} of ${total} ${asset.symbol} players by ${taskArgs.order}:`);
+      entries.forEach((entry, index) => {
+        const { stats } = entry;
+        console.log(
+          `  ${index + 1}. ${entry.player} ${stats.wins}W/${stats.losses}L/${stats.draws}D, net ${formatNet(stats.net)}`,
+        );
+      });
+      return;
+    }
+
+    const secretDice = await getSecretDice(hre);
+    const signers = await hre.ethers.getSigners();
+    const player = taskArgs.player ?? signers[parseInt(taskArgs.signer ?? "0", 10)].address;
+    const stats = await secretDice.getPlayerStats(player, stakeToken);
+
+    console.log(`Stats for ${player} in ${asset.symbol} games:`);
+    console.log(`  played: ${stats.played} (${stats.wins} wins, ${stats.losses} losses, ${stats.draws} draws)`);
+    console.log(`  wagered: ${hre.ethers.formatUnits(stats.wagered, asset.decimals)} ${asset.symbol}`);
+    console.log(`  net winnings: ${formatNet(stats.net)}`);
+  });
+
 task("dice:info", "Display on-chain game information")
   .addParam("id", "Game id")
   .setAction(async (taskArgs: TaskArguments, hre) => {
@@ -101,15 +354,291 @@ task("dice:info", "Display on-chain game information")
 
     console.log(`Game ${gameId.toString()} status: ${gameInfo.status}`);
     console.log(`  creator: ${gameInfo.creator}`);
-    console.log(`  playerOne: ${gameInfo.playerOne}`);
-    console.log(`  playerTwo: ${gameInfo.playerTwo}`);
-    console.log(`  playerOneRolled: ${gameInfo.playerOneRolled}`);
-    console.log(`  playerTwoRolled: ${gameInfo.playerTwoRolled}`);
-    console.log(`  playerOneRoll: ${gameInfo.playerOneRevealed}`);
-    console.log(`  playerTwoRoll: ${gameInfo.playerTwoRevealed}`);
-    console.log(`  winner: ${gameInfo.winner}`);
-    console.log(`  rewardClaimed: ${gameInfo.rewardAlreadyClaimed}`);
-    console.log(`  drawRefunds: [${gameInfo.playerOneDrawRefunded}, ${gameInfo.playerTwoDrawRefunded}]`);
+    const asset = await getStakeAsset(hre, gameInfo.stakeToken);
+    console.log(`  stake: ${hre.ethers.formatUnits(gameInfo.stake, asset.decimals)} ${asset.symbol}`);
+    console.log(`  dice: ${gameInfo.diceCount}d${gameInfo.faces}${gameInfo.sealedResult ? " (sealed result)" : ""}`);
+    console.log(`  series: best of ${gameInfo.bestOf}, round ${gameInfo.currentRound}`);
+    console.log(`  sudden death: ${gameInfo.tieRounds}/${gameInfo.maxTieRerolls} tie re-rolls used`);
+    if (gameInfo.maxBet > 0n) {
+      console.log(
+        `  bluff: bets [${gameInfo.bets.join(", ")}] of max ${gameInfo.maxBet}, player ${Number(gameInfo.turn) + 1} to act by ${gameInfo.betDeadline}`,
+      );
+    }
+    console.log(`  seats: ${gameInfo.players.length}/${gameInfo.capacity}`);
+    gameInfo.players.forEach((player: string, index: number) => {
+      console.log(
+        `  player ${index + 1}: ${player} rolled=${gameInfo.rolled[index]} roll=${gameInfo.revealedRolls[index]} credited=${gameInfo.credits[index]} paid=${gameInfo.payoutClaimed[index]}`,
+      );
+    });
+    if (gameInfo.rounds.length > 0) {
+      console.log("  scoreboard:");
+      gameInfo.rounds.forEach((round: { rolls: bigint[]; winnerMask: bigint }, index: number) => {
+        const roundWinners = gameInfo.players
+          .map((_player: string, seat: number) => seat)
+          .filter((seat: number) => (Number(round.winnerMask) >> seat) & 1)
+          .map((seat: number) => `P${seat + 1}`);
+        const rolls = gameInfo.sealedResult ? "sealed" : `[${round.rolls.join(", ")}]`;
+        console.log(`    round ${index + 1}: rolls ${rolls} -> ${roundWinners.join(", ")}`);
+      });
+      console.log(`    total: [${gameInfo.scores.join(", ")}]`);
+    }
+    console.log(`  winners: [${gameInfo.winners.join(", ")}]`);
+    if (gameInfo.sealedResult) {
+      console.log(`  outcome: ${gameInfo.revealedOutcome}`);
+    }
     console.log(`  revealPending: ${gameInfo.revealPending}`);
+    console.log(
+      `  deadlines: join ${gameInfo.joinDeadline}, roll ${gameInfo.rollDeadline}, reveal ${gameInfo.revealDeadline}`,
+    );
+    console.log(`  fee: ${gameInfo.feeBps} bps (collected ${gameInfo.fee})`);
     console.log(`  pot: ${pot}`);
   });
+
+const GAME_STATUS = [
+  "WaitingForPlayers",
+  "WaitingForRolls",
+  "AwaitingReveal",
+  "Completed",
+  "Cancelled",
+  "Forfeited",
+  "Expired",
+  "Betting",
+];
+
+// Off the mock network the relayer needs a few blocks before the reveal handles become publicly decryptable
+const REVEAL_RETRY_ATTEMPTS = 30;
+const REVEAL_RETRY_INTERVAL_MS = 2_000;
+
+const SIMULATION_STEPS = ["create", "join", "roll", "reveal", "settle"] as const;
+
+type SimulationStep = (typeof SIMULATION_STEPS)[number];
+
+type SimulatedGame = {
+  gameId: string;
+  players: string[];
+  stake: string;
+  rounds: number;
+  outcome: "win" | "split" | "draw";
+  winners: string[];
+  fee: string;
+  gas: Record<SimulationStep, string>;
+  checks: { funded: boolean; resolved: boolean; settled: boolean };
+};
+
+async function waitForReveal(hre: HardhatRuntimeEnvironment, handles: string[]) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await hre.fhevm.publicDecrypt(handles);
+    } catch (error) {
+      if (attempt >= REVEAL_RETRY_ATTEMPTS) {
+        throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, REVEAL_RETRY_INTERVAL_MS));
+    }
+  }
+}
+
+// Plays one game from lobby to payout, recording the gas of every transaction and checking the contract's
+// holdings against the pot after funding, after resolution and after every credit is claimed
+async function simulateGame(
+  hre: HardhatRuntimeEnvironment,
+  secretDice: SecretDice,
+  players: HardhatEthersSigner[],
+  stakeToken: string,
+  stake: bigint,
+  rules: SecretDice.GameRulesStruct,
+  log: (message: string) => void,
+): Promise<SimulatedGame> {
+  const { ethers } = hre;
+  const diceAddress = await secretDice.getAddress();
+  const isNative = stakeToken === ethers.ZeroAddress;
+  const holdings = async () =>
+    isNative
+      ? ethers.provider.getBalance(diceAddress)
+      : ((await (await ethers.getContractAt(ERC20_ABI, stakeToken)).balanceOf(diceAddress)) as bigint);
+
+  const gas = Object.fromEntries(SIMULATION_STEPS.map((step) => [step, 0n])) as Record<SimulationStep, bigint>;
+  const send = async (step: SimulationStep, pending: Promise<{ wait(): Promise<{ gasUsed: bigint } | null> }>) => {
+    const receipt = await (await pending).wait();
+    gas[step] += receipt?.gasUsed ?? 0n;
+  };
+
+  const gameId = await secretDice.nextGameId();
+  await send("create", secretDice.connect(players[0]).createGame(stakeToken, stake, rules));
+  log(`Game ${gameId}: created by ${players[0].address}`);
+
+  const before = await holdings();
+  for (const player of players) {
+    if (!isNative) {
+      const token = await ethers.getContractAt(ERC20_ABI, stakeToken, player);
+      if ((await token.allowance(player.address, diceAddress)) < stake) {
+        await send("join", token.approve(diceAddress, stake));
+      }
+    }
+    await send("join", secretDice.connect(player).joinGame(gameId, { value: isNative ? stake : 0n }));
+  }
+
+  const grossPot = stake * BigInt(players.length);
+  const funded = (await secretDice.getGamePot(gameId)) === grossPot && (await holdings()) - before === grossPot;
+
+  let game = await secretDice.getGame(gameId);
+  while (GAME_STATUS[Number(game.status)] !== "Completed") {
+    if (GAME_STATUS[Number(game.status)] === "WaitingForRolls") {
+      for (let seat = 0; seat < players.length; seat++) {
+        if (!game.rolled[seat]) {
+          await send("roll", secretDice.connect(players[seat]).rollDice(gameId));
+        }
+      }
+    } else if (GAME_STATUS[Number(game.status)] === "AwaitingReveal") {
+      const decryption = await waitForReveal(hre, [...(await secretDice.getRevealHandles(gameId))]);
+      await send(
+        "reveal",
+        secretDice
+          .connect(players[0])
+          .finalizeReveal(gameId, decryption.abiEncodedClearValues, decryption.decryptionProof),
+      );
+      log(`Game ${gameId}: round ${game.currentRound} revealed`);
+    } else {
+      throw new Error(`Game ${gameId} stopped in status ${GAME_STATUS[Number(game.status)]}`);
+    }
+    game = await secretDice.getGame(gameId);
+  }
+
+  const credited = game.credits.reduce((sum, credit) => sum + credit, 0n);
+  const resolved = (await secretDice.getGamePot(gameId)) === 0n && credited + game.fee === grossPot;
+
+  const draw = game.winners.length === players.length;
+  for (let seat = 0; seat < players.length; seat++) {
+    if (game.credits[seat] > 0n) {
+      const contract = secretDice.connect(players[seat]);
+      await send("settle", draw ? contract.claimDrawRefund(gameId) : contract.claimReward(gameId));
+    }
+  }
+  // Only the protocol fee stays behind once every credit has been paid out
+  const settled = (await holdings()) - before === game.fee;
+  log(`Game ${gameId}: settled ${draw ? "as a draw" : `for ${game.winners.join(", ")}`}`);
+
+  return {
+    gameId: gameId.toString(),
+    players: players.map((player) => player.address),
+    stake: stake.toString(),
+    rounds: game.rounds.length,
+    outcome: draw ? "draw" : game.winners.length === 1 ? "win" : "split",
+    winners: [...game.winners],
+    fee: game.fee.toString(),
+    gas: Object.fromEntries(SIMULATION_STEPS.map((step) => [step, gas[step].toString()])) as Record<
+      SimulationStep,
+      string
+    >,
+    checks: { funded, resolved, settled },
+  };
+}
+
+function formatTable(header: string[], rows: string[][]) {
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+  const format = (row: string[]) =>
+    row
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join("  ")
+      .trimEnd();
+  return [format(header), format(widths.map((width) => "-".repeat(width))), ...rows.map(format)].join("\n");
+}
+
+task("dice:simulate", "Plays full games between local signers and reports outcomes, gas and pot checks")
+  .addOptionalParam("games", "Number of games to play", "3")
+  .addOptionalParam("signers", "Comma-separated signer indexes, seated in rotation", "0,1")
+  .addOptionalParam("stakes", "Comma-separated stakes in whole units of the stake asset, used in rotation", "0.0001")
+  .addOptionalParam("token", "Allowlisted ERC-20 stake token (defaults to native ETH)")
+  .addOptionalParam("players", "Number of seats at each table (2-8)", "2")
+  .addOptionalParam("dice", "Number of dice each player rolls (1-5)", "1")
+  .addOptionalParam("faces", "Faces per die (4, 6, 8, 10, 12 or 20)", "6")
+  .addFlag("sealed", "Reveal only the win/lose/draw outcome, never the rolls")
+  .addOptionalParam("bestOf", "Series length in rounds (1, 3, 5 or 7)", "1")
+  .addOptionalParam("tieRerolls", "Sudden-death re-rolls allowed on a draw before refunding (0-10)", "0")
+  .addFlag("json", "Print the results as JSON instead of a table")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    await hre.fhevm.initializeCLIApi();
+
+    const secretDice: SecretDice = await getSecretDice(hre);
+    const signers = await hre.ethers.getSigners();
+    const log = taskArgs.json ? () => undefined : (message: string) => console.log(message);
+
+    const seatIndexes = (taskArgs.signers as string).split(",").map((index) => parseInt(index, 10));
+    const capacity = parseInt(taskArgs.players, 10);
+    if (seatIndexes.length < capacity) {
+      throw new Error(`${capacity} seats need at least ${capacity} signers, got ${seatIndexes.length}`);
+    }
+    const missing = seatIndexes.find((index) => !signers[index]);
+    if (missing !== undefined) {
+      throw new Error(`Signer ${missing} is not available on this network`);
+    }
+
+    const stakeToken = taskArgs.token ?? hre.ethers.ZeroAddress;
+    const asset = await getStakeAsset(hre, stakeToken);
+    const stakes = (taskArgs.stakes as string).split(",").map((stake) => hre.ethers.parseUnits(stake, asset.decimals));
+    const rules: SecretDice.GameRulesStruct = {
+      capacity,
+      diceCount: parseInt(taskArgs.dice, 10),
+      faces: parseInt(taskArgs.faces, 10),
+      sealedResult: Boolean(taskArgs.sealed),
+      bestOf: parseInt(taskArgs.bestOf, 10),
+      maxTieRerolls: parseInt(taskArgs.tieRerolls, 10),
+      maxBet: 0n,
+    };
+
+    const results: SimulatedGame[] = [];
+    for (let index = 0; index < parseInt(taskArgs.games, 10); index++) {
+      // Rotating the seats gives every listed signer turns at creating and at each seat
+      const players = Array.from(
+        { length: capacity },
+        (_seat, seat) => signers[seatIndexes[(index + seat) % seatIndexes.length]],
+      );
+      results.push(await simulateGame(hre, secretDice, players, stakeToken, stakes[index % stakes.length], rules, log));
+    }
+
+    const failed = results.filter((result) => !Object.values(result.checks).every(Boolean));
+    const averageGas = Object.fromEntries(
+      SIMULATION_STEPS.map((step) => [
+        step,
+        results.length === 0
+          ? "0"
+          : (results.reduce((sum, result) => sum + BigInt(result.gas[step]), 0n) / BigInt(results.length)).toString(),
+      ]),
+    );
+
+    if (taskArgs.json) {
+      console.log(
+        JSON.stringify({ network: hre.network.name, asset: asset.symbol, games: results, averageGas }, null, 2),
+      );
+    } else {
+      const seatOf = (address: string) => `#${signers.findIndex((signer) => signer.address === address)}`;
+      const header = ["game", "seats", "stake", "rounds", "outcome", "winners", ...SIMULATION_STEPS, "pot checks"];
+      const rows = results.map((result) => [
+        result.gameId,
+        result.players.map(seatOf).join(" "),
+        `${hre.ethers.formatUnits(result.stake, asset.decimals)} ${asset.symbol}`,
+        result.rounds.toString(),
+        result.outcome,
+        result.winners.map(seatOf).join(" ") || "-",
+        ...SIMULATION_STEPS.map((step) => result.gas[step]),
+        Object.entries(result.checks)
+          .filter(([, passed]) => !passed)
+          .map(([check]) => check)
+          .join(", ") || "ok",
+      ]);
+      rows.push(["avg", "", "", "", "", "", ...SIMULATION_STEPS.map((step) => averageGas[step]), ""]);
+
+      console.log();
+      console.log(formatTable(header, rows));
+      console.log();
+      const count = (outcome: SimulatedGame["outcome"]) =>
+        results.filter((result) => result.outcome === outcome).length;
+      console.log(
+        `${results.length} games on ${hre.network.name}: ${count("win")} won, ${count("split")} split, ${count("draw")} drawn`,
+      );
+    }
+
+    if (failed.length > 0) {
+      throw new Error(`Pot balance checks failed for games ${failed.map((result) => result.gameId).join(", ")}`);
+    }
+  });
@@ -0,0 +1,191 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+async function getTournament(hre: HardhatRuntimeEnvironment) {
+  const { deployments, ethers } = hre;
+  const deployment = await deployments.get("SecretDiceTournament");
+  return ethers.getContractAt("SecretDiceTournament", deployment.address);
+}
+
+const TOURNAMENT_STATUS = ["Registration", "InProgress", "Completed", "Cancelled"];
+
+task("tournament:create", "Opens a new single-elimination tournament for registration")
+  .addOptionalParam("size", "Bracket size (4, 8 or 16)", "4")
+  .addOptionalParam("buyIn", "ETH each player pays to register", "0.001")
+  .addOptionalParam("dice", "Number of dice each player rolls (1-5)", "1")
+  .addOptionalParam("faces", "Faces per die (4, 6, 8, 10, 12 or 20)", "6")
+  .addOptionalParam("runnerUpBps", "Share of the prize pool for the runner-up in basis points (0-5000)", "0")
+  .addOptionalParam("signer", "Signer index to use", "0")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const tournament = await getTournament(hre);
+    const signers = await hre.ethers.getSigners();
+    const signer = signers[parseInt(taskArgs.signer ?? "0", 10)];
+
+    const tournamentId = await tournament.nextTournamentId();
+    const tx = await tournament
+      .connect(signer)
+      .createTournament(
+        parseInt(taskArgs.size, 10),
+        hre.ethers.parseEther(taskArgs.buyIn),
+        parseInt(taskArgs.dice, 10),
+        parseInt(taskArgs.faces, 10),
+        parseInt(taskArgs.runnerUpBps, 10),
+      );
+    await tx.wait();
+
+    console.log(
+      `Created ${taskArgs.size}-player tournament ${tournamentId.toString()} with a ${taskArgs.buyIn} ETH buy-in`,
+    );
+  });
+
+task("tournament:register", "Register for a tournament by paying its buy-in")
+  .addParam("id", "Tournament id")
+  .addOptionalParam("signer", "Signer index to use", "0")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const tournament = await getTournament(hre);
+    const signers = await hre.ethers.getSigners();
+    const signer = signers[parseInt(taskArgs.signer ?? "0", 10)];
+    const tournamentId = BigInt(taskArgs.id);
+
+    const { buyIn } = await tournament.getTournament(tournamentId);
+    const tx = await tournament.connect(signer).register(tournamentId, { value: buyIn });
+    await tx.wait();
+
+    const info = await tournament.getTournament(tournamentId);
+    console.log(
+      `Signer ${signer.address} registered for tournament ${tournamentId.toString()} (${info.players.length}/${info.size})`,
+    );
+  });
+
+task("tournament:roll", "Roll dice in the caller's tournament match")
+  .addParam("id", "Tournament id")
+  .addParam("match", "Match index in the bracket")
+  .addOptionalParam("signer", "Signer index to use", "0")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const tournament = await getTournament(hre);
+    const signers = await hre.ethers.getSigners();
+    const signer = signers[parseInt(taskArgs.signer ?? "0", 10)];
+
+    const tx = await tournament.connect(signer).rollMatch(BigInt(taskArgs.id), BigInt(taskArgs.match));
+    await tx.wait();
+
+    console.log(`Signer ${signer.address} rolled in match ${taskArgs.match} of tournament ${taskArgs.id}`);
+  });
+
+task("tournament:reveal", "Publicly decrypt both match rolls and advance the winner")
+  .addParam("id", "Tournament id")
+  .addParam("match", "Match index in the bracket")
+  .addOptionalParam("signer", "Signer index to use", "0")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    await hre.fhevm.initializeCLIApi();
+
+    const tournament = await getTournament(hre);
+    const signers = await hre.ethers.getSigners();
+    const signer = signers[parseInt(taskArgs.signer ?? "0", 10)];
+    const tournamentId = BigInt(taskArgs.id);
+    const matchId = BigInt(taskArgs.match);
+
+    const handles: string[] = [...(await tournament.getMatchRevealHandles(tournamentId, matchId))];
+    const decryption = await hre.fhevm.publicDecrypt(handles);
+
+    const tx = await tournament
+      .connect(signer)
+      .finalizeMatch(tournamentId, matchId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+    await tx.wait();
+
+    const decided = (await tournament.getBracket(tournamentId))[Number(matchId)];
+    console.log(`Rolls: [${decided.revealedRolls.join(", ")}]`);
+    console.log(
+      decided.winner === hre.ethers.ZeroAddress ? "Tie, both players roll again" : `Winner: ${decided.winner}`,
+    );
+  });
+
+task("tournament:forfeit", "Advance a player whose opponent missed the match roll deadline, or reopen the match")
+  .addParam("id", "Tournament id")
+  .addParam("match", "Match index in the bracket")
+  .addOptionalParam("signer", "Signer index to use", "0")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const tournament = await getTournament(hre);
+    const signers = await hre.ethers.getSigners();
+    const signer = signers[parseInt(taskArgs.signer ?? "0", 10)];
+
+    const tx = await tournament.connect(signer).claimMatchForfeit(BigInt(taskArgs.id), BigInt(taskArgs.match));
+    const receipt = await tx.wait();
+    const reopened = receipt!.logs.some((log) => tournament.interface.parseLog(log)?.name === "MatchRollExpired");
+
+    console.log(
+      reopened
+        ? `Nobody rolled match ${taskArgs.match} of tournament ${taskArgs.id}; it was reopened with a new deadline`
+        : `Forfeit claimed for match ${taskArgs.match} of tournament ${taskArgs.id}`,
+    );
+  });
+
+task("tournament:reroll", "Re-open a match whose reveal deadline passed without a decryption")
+  .addParam("id", "Tournament id")
+  .addParam("match", "Match index in the bracket")
+  .addOptionalParam("signer", "Signer index to use", "0")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const tournament = await getTournament(hre);
+    const signers = await hre.ethers.getSigners();
+    const signer = signers[parseInt(taskArgs.signer ?? "0", 10)];
+
+    const tx = await tournament.connect(signer).rerollMatch(BigInt(taskArgs.id), BigInt(taskArgs.match));
+    await tx.wait();
+
+    console.log(`Match ${taskArgs.match} of tournament ${taskArgs.id} re-opened, both players roll again`);
+  });
+
+task("tournament:withdraw", "Withdraw tournament prizes and refunds")
+  .addOptionalParam("signer", "Signer index to use", "0")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const tournament = await getTournament(hre);
+    const signers = await hre.ethers.getSigners();
+    const signer = signers[parseInt(taskArgs.signer ?? "0", 10)];
+
+    const balance = await tournament.balances(signer.address);
+    const tx = await tournament.connect(signer).withdraw();
+    await tx.wait();
+
+    console.log(`Signer ${signer.address} withdrew ${hre.ethers.formatEther(balance)} ETH`);
+  });
+
+task("tournament:info", "Display a tournament and its bracket")
+  .addParam("id", "Tournament id")
+  .setAction(async (taskArgs: TaskArguments, hre) => {
+    const tournament = await getTournament(hre);
+    const tournamentId = BigInt(taskArgs.id);
+    const info = await tournament.getTournament(tournamentId);
+    const bracket = await tournament.getBracket(tournamentId);
+
+    console.log(`Tournament ${tournamentId.toString()} status: ${TOURNAMENT_STATUS[Number(info.status)]}`);
+    console.log(`  organizer: ${info.organizer}`);
+    console.log(`  buy-in: ${hre.ethers.formatEther(info.buyIn)} ETH, dice: ${info.diceCount}d${info.faces}`);
+    console.log(`  players: ${info.players.length}/${info.size}, runner-up share: ${info.runnerUpBps} bps`);
+    console.log(`  registration deadline: ${info.registrationDeadline}`);
+
+    let roundStart = 0;
+    for (
+      let roundSize = Number(info.size) / 2, round = 1;
+      roundSize >= 1 && bracket.length > 0;
+      roundSize /= 2, round++
+    ) {
+      console.log(`  round ${round}:`);
+      for (let matchId = roundStart; matchId < roundStart + roundSize; matchId++) {
+        const match = bracket[matchId];
+        const rolls = match.revealedRolls.join(" – ");
+        const status =
+          match.winner !== hre.ethers.ZeroAddress
+            ? `winner ${match.winner}`
+            : match.revealPending
+              ? "awaiting reveal"
+              : `rolled [${match.rolled.join(", ")}]`;
+        console.log(`    match ${matchId}: ${match.players[0]} vs ${match.players[1]} (${rolls}) ${status}`);
+      }
+      roundStart += roundSize;
+    }
+
+    if (Number(info.status) === 2) {
+      console.log(`  champion: ${info.champion}`);
+      console.log(`  runner-up: ${info.runnerUp}`);
+    }
+  });
@@ -1,35 +1,79 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
 import { ethers, fhevm } from "hardhat";
-import { SecretDice, SecretDice__factory } from "../types";
+import { MockERC20, MockERC20__factory, SecretDice, SecretDice__factory } from "../types";
 
 enum GameStatus {
   WaitingForPlayers = 0,
   WaitingForRolls = 1,
   AwaitingReveal = 2,
   Completed = 3,
+  Cancelled = 4,
+  Forfeited = 5,
+  Expired = 6,
+  Betting = 7,
 }
 
 type Signers = {
   deployer: HardhatEthersSigner;
   alice: HardhatEthersSigner;
   bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
 };
 
-async function deployFixture() {
-  const factory = (await ethers.getContractFactory("SecretDice")) as SecretDice__factory;
-  const contract = (await factory.deploy()) as SecretDice;
+const MIN_STAKE = ethers.parseEther("0.0001");
+const MAX_STAKE = ethers.parseEther("1");
+const STAKE = MIN_STAKE;
+const RULES = { capacity: 2, diceCount: 1, faces: 6, sealedResult: false, bestOf: 1, maxTieRerolls: 0, maxBet: 0n };
+const TOKEN_STAKE = ethers.parseUnits("10", 18);
+
+async function deployFixture(feeBps = 0) {
+  const [deployer] = await ethers.getSigners();
+  const diceRolls = await (await ethers.getContractFactory("DiceRolls")).deploy();
+  const playerRanking = await (await ethers.getContractFactory("PlayerRanking")).deploy();
+  const factory = (await ethers.getContractFactory("SecretDice", {
+    libraries: { DiceRolls: await diceRolls.getAddress(), PlayerRanking: await playerRanking.getAddress() },
+  })) as SecretDice__factory;
+  const contract = (await factory.deploy(MIN_STAKE, MAX_STAKE, [], feeBps, deployer.address)) as SecretDice;
   const address = await contract.getAddress();
   return { contract, address };
 }
 
+async function deployTokenFixture() {
+  const tokenFactory = (await ethers.getContractFactory("MockERC20")) as MockERC20__factory;
+  const token = (await tokenFactory.deploy("Dice Token", "DICE", 18)) as MockERC20;
+  const tokenAddress = await token.getAddress();
+
+  const [deployer] = await ethers.getSigners();
+  const diceRolls = await (await ethers.getContractFactory("DiceRolls")).deploy();
+  const playerRanking = await (await ethers.getContractFactory("PlayerRanking")).deploy();
+  const factory = (await ethers.getContractFactory("SecretDice", {
+    libraries: { DiceRolls: await diceRolls.getAddress(), PlayerRanking: await playerRanking.getAddress() },
+  })) as SecretDice__factory;
+  const contract = (await factory.deploy(
+    MIN_STAKE,
+    MAX_STAKE,
+    [{ token: tokenAddress, minStake: TOKEN_STAKE, maxStake: TOKEN_STAKE * 100n }],
+    0,
+    deployer.address,
+  )) as SecretDice;
+
+  return { contract, token, tokenAddress };
+}
+
+async function increaseTime(seconds: bigint) {
+  await ethers.provider.send("evm_increaseTime", [Number(seconds)]);
+  await ethers.provider.send("evm_mine", []);
+}
+
 describe("SecretDice", function () {
   let signers: Signers;
   let contract: SecretDice;
 
   before(async function () {
     const available = await ethers.getSigners();
-    signers = { deployer: available[0], alice: available[1], bob: available[2] };
+    signers = { deployer: available[0], alice: available[1], bob: available[2], carol: available[3] };
   });
 
   beforeEach(async function () {
@@ -42,74 +86,935 @@ describe("SecretDice", function () {
   });
 
   it("requires the exact entry fee to join", async function () {
-    const gameIdTx = await contract.connect(signers.deployer).createGame();
+    const gameIdTx = await contract.connect(signers.deployer).createGame(ethers.ZeroAddress, STAKE, RULES);
     await gameIdTx.wait();
     const gameId = (await contract.nextGameId()) - 1n;
 
-    const entryFee = await contract.ENTRY_FEE();
+    await expect(contract.connect(signers.alice).joinGame(gameId, { value: STAKE - 1n })).to.be.revertedWithCustomError(
+      contract,
+      "IncorrectEntryFee",
+    );
+  });
 
+  it("rejects stakes outside the deployment bounds", async function () {
+    await expect(
+      contract.connect(signers.deployer).createGame(ethers.ZeroAddress, MIN_STAKE - 1n, RULES),
+    ).to.be.revertedWithCustomError(contract, "InvalidStake");
     await expect(
-      contract.connect(signers.alice).joinGame(gameId, { value: entryFee - 1n }),
-    ).to.be.revertedWithCustomError(contract, "IncorrectEntryFee");
+      contract.connect(signers.deployer).createGame(ethers.ZeroAddress, MAX_STAKE + 1n, RULES),
+    ).to.be.revertedWithCustomError(contract, "InvalidStake");
   });
 
-  it("runs a complete game flow", async function () {
-    const tx = await contract.connect(signers.deployer).createGame();
-    const receipt = await tx.wait();
-    const event = receipt!.logs.map((log) => contract.interface.parseLog(log)).find((parsed) => parsed?.name === "GameCreated");
-    const gameId = event?.args?.gameId ?? (await contract.nextGameId()) - 1n;
+  it("charges each game its own stake", async function () {
+    const stake = ethers.parseEther("0.25");
+    await expect(contract.connect(signers.deployer).createGame(ethers.ZeroAddress, stake, RULES))
+      .to.emit(contract, "GameCreated")
+      .withArgs(0n, signers.deployer.address, ethers.ZeroAddress, stake);
 
-    const entryFee = await contract.ENTRY_FEE();
+    await expect(contract.connect(signers.alice).joinGame(0n, { value: STAKE })).to.be.revertedWithCustomError(
+      contract,
+      "IncorrectEntryFee",
+    );
 
-    await contract.connect(signers.alice).joinGame(gameId, { value: entryFee });
-    await contract.connect(signers.bob).joinGame(gameId, { value: entryFee });
+    await contract.connect(signers.alice).joinGame(0n, { value: stake });
+    await contract.connect(signers.bob).joinGame(0n, { value: stake });
+
+    const game = await contract.getGame(0n);
+    expect(game.stake).to.equal(stake);
+    expect(await contract.getGamePot(0n)).to.equal(stake * 2n);
+  });
 
+  it("rejects a reveal before both players have rolled", async function () {
+    await contract.connect(signers.deployer).createGame(ethers.ZeroAddress, STAKE, RULES);
+    const gameId = (await contract.nextGameId()) - 1n;
+    await contract.connect(signers.alice).joinGame(gameId, { value: STAKE });
+    await contract.connect(signers.bob).joinGame(gameId, { value: STAKE });
+    await contract.connect(signers.alice).rollDice(gameId);
+
+    await expect(contract.finalizeReveal(gameId, "0x", "0x")).to.be.revertedWithCustomError(
+      contract,
+      "RevealNotPending",
+    );
+  });
+
+  it("rejects reveal cleartexts that do not match the decryption proof", async function () {
+    await contract.connect(signers.deployer).createGame(ethers.ZeroAddress, STAKE, RULES);
+    const gameId = (await contract.nextGameId()) - 1n;
+    await contract.connect(signers.alice).joinGame(gameId, { value: STAKE });
+    await contract.connect(signers.bob).joinGame(gameId, { value: STAKE });
     await contract.connect(signers.alice).rollDice(gameId);
     await contract.connect(signers.bob).rollDice(gameId);
 
-    await fhevm.awaitDecryptionOracle();
+    const handles = [await contract.getEncryptedRoll(gameId, 0), await contract.getEncryptedRoll(gameId, 1)];
+    const decryption = await fhevm.publicDecrypt(handles);
+    const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint32", "uint32"], [7, 0]);
+
+    await expect(contract.finalizeReveal(gameId, forged, decryption.decryptionProof)).to.be.reverted;
+
+    const game = await contract.getGame(gameId);
+    expect(Number(game.status)).to.equal(GameStatus.AwaitingReveal);
+  });
+
+  describe("multiplayer tables", function () {
+    it("rejects table sizes outside the supported range", async function () {
+      await expect(
+        contract.connect(signers.deployer).createGame(ethers.ZeroAddress, STAKE, { ...RULES, capacity: 1 }),
+      ).to.be.revertedWithCustomError(contract, "InvalidCapacity");
+      await expect(
+        contract.connect(signers.deployer).createGame(ethers.ZeroAddress, STAKE, { ...RULES, capacity: 9 }),
+      ).to.be.revertedWithCustomError(contract, "InvalidCapacity");
+    });
+
+    it("keeps rolls sealed until every seat has rolled and pays the top roll", async function () {
+      const players = [signers.alice, signers.bob, signers.carol];
+      await contract
+        .connect(signers.deployer)
+        .createGame(ethers.ZeroAddress, STAKE, { ...RULES, capacity: players.length });
+      const gameId = (await contract.nextGameId()) - 1n;
+
+      await contract.connect(signers.alice).joinGame(gameId, { value: STAKE });
+      await contract.connect(signers.bob).joinGame(gameId, { value: STAKE });
+      expect(Number((await contract.getGame(gameId)).status)).to.equal(GameStatus.WaitingForPlayers);
+
+      await expect(contract.connect(signers.carol).joinGame(gameId, { value: STAKE }))
+        .to.emit(contract, "GameReady")
+        .withArgs(gameId, [signers.alice.address, signers.bob.address, signers.carol.address]);
+      await expect(contract.connect(signers.deployer).joinGame(gameId, { value: STAKE })).to.be.revertedWithCustomError(
+        contract,
+        "GameNotReady",
+      );
+
+      await contract.connect(signers.alice).rollDice(gameId);
+      await contract.connect(signers.bob).rollDice(gameId);
+      expect(Number((await contract.getGame(gameId)).status)).to.equal(GameStatus.WaitingForRolls);
+      await contract.connect(signers.carol).rollDice(gameId);
+
+      const handles = await Promise.all(players.map((_, index) => contract.getEncryptedRoll(gameId, index)));
+      await expect(contract.getEncryptedRoll(gameId, players.length)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidPlayerIndex",
+      );
+      const decryption = await fhevm.publicDecrypt(handles);
+      await contract.finalizeReveal(gameId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+
+      const game = await contract.getGame(gameId);
+      expect(Number(game.status)).to.equal(GameStatus.Completed);
+      expect(game.players).to.deep.equal(players.map((player) => player.address));
+
+      const topRoll = game.revealedRolls.reduce((top, roll) => (roll > top ? roll : top), 0n);
+      const expectedWinners = players
+        .filter((_, index) => game.revealedRolls[index] === topRoll)
+        .map((player) => player.address);
+      expect(game.winners).to.deep.equal(expectedWinners);
+
+      const pot = STAKE * BigInt(players.length);
+      if (expectedWinners.length === players.length) {
+        for (const player of players) {
+          await expect(contract.connect(player).claimDrawRefund(gameId)).to.changeEtherBalance(player, STAKE);
+        }
+      } else {
+        for (const player of players) {
+          if (!expectedWinners.includes(player.address)) {
+            await expect(contract.connect(player).claimReward(gameId)).to.be.revertedWithCustomError(
+              contract,
+              "NotWinner",
+            );
+          }
+        }
+        const share = pot / BigInt(expectedWinners.length);
+        for (const [index, winner] of expectedWinners.entries()) {
+          const signer = players.find((player) => player.address === winner)!;
+          const expected = index === expectedWinners.length - 1 ? pot - share * BigInt(index) : share;
+          await expect(contract.connect(signer).claimReward(gameId)).to.changeEtherBalance(signer, expected);
+        }
+      }
+
+      expect(await contract.getGamePot(gameId)).to.equal(0n);
+      expect(await ethers.provider.getBalance(await contract.getAddress())).to.equal(0n);
+    });
+
+    it("splits the pot between every player who rolled before a forfeit", async function () {
+      await contract.connect(signers.deployer).createGame(ethers.ZeroAddress, STAKE, { ...RULES, capacity: 3 });
+      const gameId = (await contract.nextGameId()) - 1n;
+      for (const player of [signers.alice, signers.bob, signers.carol]) {
+        await contract.connect(player).joinGame(gameId, { value: STAKE });
+      }
+      await contract.connect(signers.alice).rollDice(gameId);
+      await contract.connect(signers.bob).rollDice(gameId);
+
+      await increaseTime((await contract.ROLL_TIMEOUT()) + 1n);
+
+      const share = (STAKE * 3n) / 2n;
+      await expect(contract.connect(signers.alice).claimForfeit(gameId))
+        .to.emit(contract, "GameForfeited")
+        .withArgs(gameId, [signers.alice.address, signers.bob.address]);
+      await expect(contract.connect(signers.carol).claimReward(gameId)).to.be.revertedWithCustomError(
+        contract,
+        "NotWinner",
+      );
+      await expect(contract.connect(signers.bob).claimReward(gameId)).to.changeEtherBalance(
+        signers.bob,
+        STAKE * 3n - share,
+      );
+      expect(await contract.getGamePot(gameId)).to.equal(0n);
+    });
+  });
+
+  describe("dice rule sets", function () {
+    it("rejects unsupported dice counts and faces", async function () {
+      for (const [dice, faces] of [
+        [0, 6],
+        [6, 6],
+        [1, 7],
+        [1, 100],
+      ]) {
+        await expect(
+          contract
+            .connect(signers.deployer)
+            .createGame(ethers.ZeroAddress, STAKE, { ...RULES, diceCount: dice, faces }),
+        ).to.be.revertedWithCustomError(contract, "InvalidDiceConfig");
+      }
+    });
+
+    it("sums several dice homomorphically and reveals only the totals", async function () {
+      await contract
+        .connect(signers.deployer)
+        .createGame(ethers.ZeroAddress, STAKE, { ...RULES, diceCount: 3, faces: 20 });
+      const gameId = (await contract.nextGameId()) - 1n;
+      await contract.connect(signers.alice).joinGame(gameId, { value: STAKE });
+      await contract.connect(signers.bob).joinGame(gameId, { value: STAKE });
+      await contract.connect(signers.alice).rollDice(gameId);
+      await contract.connect(signers.bob).rollDice(gameId);
+
+      const handles = [await contract.getEncryptedRoll(gameId, 0), await contract.getEncryptedRoll(gameId, 1)];
+      const decryption = await fhevm.publicDecrypt(handles);
+      await contract.finalizeReveal(gameId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+
+      const game = await contract.getGame(gameId);
+      expect(game.diceCount).to.equal(3n);
+      expect(game.faces).to.equal(20n);
+      for (const total of game.revealedRolls) {
+        expect(total).to.be.gte(3n);
+        expect(total).to.be.lte(60n);
+      }
+    });
+  });
+
+  describe("roll privacy", function () {
+    let gameId: bigint;
+    let contractAddress: string;
+
+    beforeEach(async function () {
+      contractAddress = await contract.getAddress();
+      await contract.connect(signers.deployer).createGame(ethers.ZeroAddress, STAKE, { ...RULES, capacity: 3 });
+      gameId = (await contract.nextGameId()) - 1n;
+      for (const player of [signers.alice, signers.bob, signers.carol]) {
+        await contract.connect(player).joinGame(gameId, { value: STAKE });
+      }
+      await contract.connect(signers.alice).rollDice(gameId);
+    });
+
+    it("lets the roller decrypt their own roll before the reveal", async function () {
+      const handle = await contract.getEncryptedRoll(gameId, 0);
+      const roll = await fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, signers.alice);
+      expect(roll).to.be.gte(1n);
+      expect(roll).to.be.lte(6n);
+    });
+
+    it("does not let opponents decrypt another player's roll", async function () {
+      await contract.connect(signers.bob).rollDice(gameId);
+
+      const aliceHandle = await contract.getEncryptedRoll(gameId, 0);
+      const bobHandle = await contract.getEncryptedRoll(gameId, 1);
+
+      await expect(fhevm.userDecryptEuint(FhevmType.euint32, aliceHandle, contractAddress, signers.bob)).to.be.rejected;
+      await expect(fhevm.userDecryptEuint(FhevmType.euint32, aliceHandle, contractAddress, signers.carol)).to.be
+        .rejected;
+      await expect(fhevm.userDecryptEuint(FhevmType.euint32, bobHandle, contractAddress, signers.alice)).to.be.rejected;
+      await expect(fhevm.publicDecrypt([aliceHandle, bobHandle])).to.be.rejected;
+    });
+  });
+
+  describe("sealed results", function () {
+    let gameId: bigint;
+
+    beforeEach(async function () {
+      await contract.connect(signers.deployer).createGame(ethers.ZeroAddress, STAKE, { ...RULES, sealedResult: true });
+      gameId = (await contract.nextGameId()) - 1n;
+      await contract.connect(signers.alice).joinGame(gameId, { value: STAKE });
+      await contract.connect(signers.bob).joinGame(gameId, { value: STAKE });
+      await contract.connect(signers.alice).rollDice(gameId);
+      await contract.connect(signers.bob).rollDice(gameId);
+    });
+
+    it("reveals only the encrypted outcome, never the rolls", async function () {
+      const rollHandles = [await contract.getEncryptedRoll(gameId, 0), await contract.getEncryptedRoll(gameId, 1)];
+      const revealHandles = await contract.getRevealHandles(gameId);
+      expect(revealHandles).to.have.lengthOf(1);
+      expect(rollHandles).to.not.include(revealHandles[0]);
+
+      for (const handle of rollHandles) {
+        await expect(fhevm.publicDecrypt([handle])).to.be.rejected;
+      }
+
+      const decryption = await fhevm.publicDecrypt([...revealHandles]);
+      await expect(
+        contract.finalizeReveal(gameId, decryption.abiEncodedClearValues, decryption.decryptionProof),
+      ).to.emit(contract, "SealedGameResolved");
+
+      const game = await contract.getGame(gameId);
+      expect(Number(game.status)).to.equal(GameStatus.Completed);
+      expect(game.sealedResult).to.equal(true);
+      expect(game.revealedRolls).to.deep.equal([0n, 0n]);
+      expect(game.revealedOutcome).to.be.oneOf([1n, 2n, 3n]);
+    });
+
+    it("lets each player privately decrypt their own roll and matches the outcome", async function () {
+      const contractAddress = await contract.getAddress();
+      const aliceRoll = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        await contract.getEncryptedRoll(gameId, 0),
+        contractAddress,
+        signers.alice,
+      );
+      const bobRoll = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        await contract.getEncryptedRoll(gameId, 1),
+        contractAddress,
+        signers.bob,
+      );
+
+      const decryption = await fhevm.publicDecrypt([...(await contract.getRevealHandles(gameId))]);
+      await contract.finalizeReveal(gameId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+
+      const game = await contract.getGame(gameId);
+      const expectedWinners =
+        aliceRoll === bobRoll
+          ? [signers.alice.address, signers.bob.address]
+          : [aliceRoll > bobRoll ? signers.alice.address : signers.bob.address];
+      expect(game.winners).to.deep.equal(expectedWinners);
+    });
+  });
+
+  describe("best-of series", function () {
+    it("rejects unsupported series lengths", async function () {
+      for (const bestOf of [0, 2, 9]) {
+        await expect(
+          contract.connect(signers.deployer).createGame(ethers.ZeroAddress, STAKE, { ...RULES, bestOf }),
+        ).to.be.revertedWithCustomError(contract, "InvalidSeriesLength");
+      }
+    });
+
+    it("plays rounds until a player clinches the series", async function () {
+      await contract.connect(signers.deployer).createGame(ethers.ZeroAddress, STAKE, { ...RULES, bestOf: 3 });
+      const gameId = (await contract.nextGameId()) - 1n;
+      await contract.connect(signers.alice).joinGame(gameId, { value: STAKE });
+      await contract.connect(signers.bob).joinGame(gameId, { value: STAKE });
+
+      const scores = [0n, 0n];
+      let game = await contract.getGame(gameId);
+      while (Number(game.status) === GameStatus.WaitingForRolls) {
+        const round = game.currentRound;
+        await expect(contract.connect(signers.alice).rollDice(gameId))
+          .to.emit(contract, "DiceRolled")
+          .withArgs(gameId, round, signers.alice.address);
+        await contract.connect(signers.bob).rollDice(gameId);
 
-    let game = await contract.getGame(gameId);
+        const decryption = await fhevm.publicDecrypt([...(await contract.getRevealHandles(gameId))]);
+        await expect(
+          contract.finalizeReveal(gameId, decryption.abiEncodedClearValues, decryption.decryptionProof),
+        ).to.emit(contract, "RoundResolved");
 
-    if (Number(game.status) === GameStatus.AwaitingReveal) {
-      for (let i = 0; i < 3 && Number(game.status) !== GameStatus.Completed; i += 1) {
-        await ethers.provider.send("evm_mine", []);
         game = await contract.getGame(gameId);
+        const result = game.rounds[Number(round) - 1];
+        const [aliceRoll, bobRoll] = result.rolls;
+        if (aliceRoll >= bobRoll) scores[0] += 1n;
+        if (bobRoll >= aliceRoll) scores[1] += 1n;
+        expect(game.scores).to.deep.equal(scores);
+        expect(game.rounds).to.have.lengthOf(Number(round));
       }
+
+      expect(Number(game.status)).to.equal(GameStatus.Completed);
+      expect(game.rounds.length).to.be.gte(2);
+      expect(game.rounds.length).to.be.lte(3);
+
+      const topScore = scores[0] > scores[1] ? scores[0] : scores[1];
+      const expectedWinners = [signers.alice, signers.bob]
+        .filter((_, index) => scores[index] === topScore)
+        .map((player) => player.address);
+      expect(game.winners).to.deep.equal(expectedWinners);
+    });
+  });
+
+  describe("sudden death", function () {
+    it("caps the number of tie re-rolls", async function () {
+      const cap = Number(await contract.MAX_TIE_REROLLS());
+      await expect(
+        contract.connect(signers.deployer).createGame(ethers.ZeroAddress, STAKE, { ...RULES, maxTieRerolls: cap + 1 }),
+      ).to.be.revertedWithCustomError(contract, "InvalidTieRerolls");
+    });
+
+    it("re-rolls drawn games instead of refunding them", async function () {
+      const maxTieRerolls = 2;
+      let tieRounds = 0n;
+
+      // 1d4 ties a quarter of the time; play until at least one sudden-death round happens
+      for (let attempt = 0; attempt < 20 && tieRounds === 0n; attempt++) {
+        await contract
+          .connect(signers.deployer)
+          .createGame(ethers.ZeroAddress, STAKE, { ...RULES, faces: 4, maxTieRerolls });
+        const gameId = (await contract.nextGameId()) - 1n;
+        await contract.connect(signers.alice).joinGame(gameId, { value: STAKE });
+        await contract.connect(signers.bob).joinGame(gameId, { value: STAKE });
+
+        let game = await contract.getGame(gameId);
+        while (Number(game.status) === GameStatus.WaitingForRolls) {
+          await contract.connect(signers.alice).rollDice(gameId);
+          await contract.connect(signers.bob).rollDice(gameId);
+
+          const decryption = await fhevm.publicDecrypt([...(await contract.getRevealHandles(gameId))]);
+          await contract.finalizeReveal(gameId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+          game = await contract.getGame(gameId);
+        }
+
+        expect(Number(game.status)).to.equal(GameStatus.Completed);
+        expect(game.tieRounds).to.be.lte(BigInt(maxTieRerolls));
+        expect(game.rounds).to.have.lengthOf(Number(game.tieRounds) + 1);
+        for (const round of game.rounds.slice(0, -1)) {
+          expect(round.rolls[0]).to.equal(round.rolls[1]);
+        }
+        if (game.winners.length === 2) {
+          expect(game.tieRounds).to.equal(BigInt(maxTieRerolls));
+        }
+        expect(await contract.queryFilter(contract.filters.TieRound(gameId))).to.have.lengthOf(Number(game.tieRounds));
+
+        tieRounds = game.tieRounds;
+      }
+
+      expect(tieRounds).to.be.greaterThan(0n);
+    });
+  });
+
+  describe("bluff mode", function () {
+    const BLUFF_RULES = { ...RULES, maxBet: STAKE };
+    let gameId: bigint;
+
+    async function rollBoth() {
+      await contract.connect(signers.deployer).createGame(ethers.ZeroAddress, STAKE, BLUFF_RULES);
+      gameId = (await contract.nextGameId()) - 1n;
+      await contract.connect(signers.alice).joinGame(gameId, { value: STAKE });
+      await contract.connect(signers.bob).joinGame(gameId, { value: STAKE });
+      await contract.connect(signers.alice).rollDice(gameId);
+      await expect(contract.connect(signers.bob).rollDice(gameId))
+        .to.emit(contract, "BettingOpened")
+        .withArgs(gameId, signers.alice.address);
     }
 
-    expect(Number(game.status)).to.equal(GameStatus.Completed);
+    it("only allows betting on heads-up single-round tables", async function () {
+      for (const rules of [
+        { ...BLUFF_RULES, capacity: 3 },
+        { ...BLUFF_RULES, bestOf: 3 },
+        { ...BLUFF_RULES, maxTieRerolls: 1 },
+        { ...BLUFF_RULES, maxBet: MAX_STAKE + 1n },
+      ]) {
+        await expect(
+          contract.connect(signers.deployer).createGame(ethers.ZeroAddress, STAKE, rules),
+        ).to.be.revertedWithCustomError(contract, "InvalidBetRules");
+      }
+    });
+
+    it("concedes the pot on a fold without revealing any roll", async function () {
+      await rollBoth();
+
+      expect(Number((await contract.getGame(gameId)).status)).to.equal(GameStatus.Betting);
+      await expect(contract.connect(signers.bob).callBet(gameId)).to.be.revertedWithCustomError(
+        contract,
+        "NotYourTurn",
+      );
+      await expect(
+        contract.connect(signers.alice).raiseBet(gameId, STAKE + 1n, { value: STAKE + 1n }),
+      ).to.be.revertedWithCustomError(contract, "InvalidBet");
+      await expect(
+        contract.connect(signers.alice).raiseBet(gameId, STAKE / 2n, { value: STAKE }),
+      ).to.be.revertedWithCustomError(contract, "IncorrectEntryFee");
 
-    const playerOneRoll = BigInt(game.playerOneRevealed);
-    const playerTwoRoll = BigInt(game.playerTwoRevealed);
+      await expect(contract.connect(signers.alice).raiseBet(gameId, STAKE / 2n, { value: STAKE / 2n }))
+        .to.emit(contract, "BetRaised")
+        .withArgs(gameId, signers.alice.address, STAKE / 2n);
+      expect(await contract.getGamePot(gameId)).to.equal(STAKE * 2n + STAKE / 2n);
 
-    expect(playerOneRoll).to.be.gte(1n);
-    expect(playerOneRoll).to.be.lte(6n);
-    expect(playerTwoRoll).to.be.gte(1n);
-    expect(playerTwoRoll).to.be.lte(6n);
+      await expect(contract.connect(signers.bob).fold(gameId))
+        .to.emit(contract, "PlayerFolded")
+        .withArgs(gameId, signers.bob.address)
+        .and.not.to.emit(contract, "RevealRequested");
 
-    const contractAddress = await contract.getAddress();
-    const contractBalance = await ethers.provider.getBalance(contractAddress);
-    expect(contractBalance).to.equal(entryFee * 2n);
+      const game = await contract.getGame(gameId);
+      expect(Number(game.status)).to.equal(GameStatus.Forfeited);
+      expect(game.winners).to.deep.equal([signers.alice.address]);
+      expect(game.revealedRolls).to.deep.equal([0n, 0n]);
+      expect(await contract.getGamePot(gameId)).to.equal(0n);
+      expect(await contract.balances(signers.alice.address, ethers.ZeroAddress)).to.equal(STAKE * 2n + STAKE / 2n);
+    });
 
-    if (game.winner !== ethers.ZeroAddress) {
-      const winnerSigner = game.winner === signers.alice.address ? signers.alice : signers.bob;
-      const txClaim = await contract.connect(winnerSigner).claimReward(gameId);
-      await txClaim.wait();
+    it("reveals after a call and pays the bets to the top roll", async function () {
+      await rollBoth();
 
-      const updatedGame = await contract.getGame(gameId);
-      expect(updatedGame.rewardAlreadyClaimed).to.equal(true);
-      const balanceAfterClaim = await ethers.provider.getBalance(contractAddress);
-      expect(balanceAfterClaim).to.equal(0n);
-    } else {
-      const txRefundAlice = await contract.connect(signers.alice).claimDrawRefund(gameId);
-      await txRefundAlice.wait();
+      await contract.connect(signers.alice).callBet(gameId);
+      expect((await contract.getGame(gameId)).turn).to.equal(1n);
 
-      const txRefundBob = await contract.connect(signers.bob).claimDrawRefund(gameId);
-      await txRefundBob.wait();
+      await contract.connect(signers.bob).raiseBet(gameId, STAKE, { value: STAKE });
+      await expect(
+        contract.connect(signers.alice).callBet(gameId, { value: STAKE / 2n }),
+      ).to.be.revertedWithCustomError(contract, "IncorrectEntryFee");
+      await expect(contract.connect(signers.alice).callBet(gameId, { value: STAKE }))
+        .to.emit(contract, "BetCalled")
+        .withArgs(gameId, signers.alice.address, STAKE)
+        .and.to.emit(contract, "RevealRequested");
 
-      const balanceAfterRefunds = await ethers.provider.getBalance(contractAddress);
-      expect(balanceAfterRefunds).to.equal(0n);
+      let game = await contract.getGame(gameId);
+      expect(Number(game.status)).to.equal(GameStatus.AwaitingReveal);
+      expect(game.bets).to.deep.equal([STAKE, STAKE]);
+
+      const decryption = await fhevm.publicDecrypt(await contract.getRevealHandles(gameId));
+      await contract.finalizeReveal(gameId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+
+      game = await contract.getGame(gameId);
+      expect(Number(game.status)).to.equal(GameStatus.Completed);
+      expect(game.credits[0] + game.credits[1]).to.equal(STAKE * 4n);
+      for (const winner of game.winners) {
+        expect(await contract.balances(winner, ethers.ZeroAddress)).to.equal(
+          (STAKE * 4n) / BigInt(game.winners.length),
+        );
+      }
+    });
+
+    it("reveals once both players check", async function () {
+      await rollBoth();
+
+      await contract.connect(signers.alice).callBet(gameId);
+      await expect(contract.connect(signers.bob).callBet(gameId)).to.emit(contract, "RevealRequested");
+      expect(await contract.getGamePot(gameId)).to.equal(STAKE * 2n);
+    });
+
+    it("folds the player who misses the betting deadline", async function () {
+      await rollBoth();
+      await contract.connect(signers.alice).raiseBet(gameId, STAKE, { value: STAKE });
+
+      await expect(contract.connect(signers.alice).claimForfeit(gameId)).to.be.revertedWithCustomError(
+        contract,
+        "DeadlineNotReached",
+      );
+      await increaseTime((await contract.BET_TIMEOUT()) + 1n);
+      await expect(contract.connect(signers.bob).fold(gameId)).to.be.revertedWithCustomError(
+        contract,
+        "DeadlinePassed",
+      );
+      await expect(contract.connect(signers.bob).claimForfeit(gameId)).to.be.revertedWithCustomError(
+        contract,
+        "ForfeitNotAvailable",
+      );
+
+      const tx = contract.connect(signers.alice).claimForfeit(gameId);
+      await expect(tx).to.emit(contract, "PlayerFolded").withArgs(gameId, signers.bob.address);
+      await expect(tx).to.changeEtherBalance(signers.alice, STAKE * 3n);
+    });
+  });
+
+  describe("protocol fee", function () {
+    const FEE_BPS = 250n;
+
+    beforeEach(async function () {
+      ({ contract } = await deployFixture(Number(FEE_BPS)));
+    });
+
+    it("transfers ownership in two steps", async function () {
+      expect(await contract.owner()).to.equal(signers.deployer.address);
+      await expect(
+        contract.connect(signers.alice).transferOwnership(signers.alice.address),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+
+      await expect(contract.transferOwnership(signers.alice.address))
+        .to.emit(contract, "OwnershipTransferStarted")
+        .withArgs(signers.deployer.address, signers.alice.address);
+      await expect(contract.connect(signers.bob).acceptOwnership()).to.be.revertedWithCustomError(
+        contract,
+        "NotPendingOwner",
+      );
+      expect(await contract.owner()).to.equal(signers.deployer.address);
+
+      await expect(contract.connect(signers.alice).acceptOwnership())
+        .to.emit(contract, "OwnershipTransferred")
+        .withArgs(signers.deployer.address, signers.alice.address);
+      expect(await contract.owner()).to.equal(signers.alice.address);
+      expect(await contract.pendingOwner()).to.equal(ethers.ZeroAddress);
+      await expect(contract.setFee(0)).to.be.revertedWithCustomError(contract, "NotOwner");
+    });
+
+    it("caps the fee and announces changes", async function () {
+      const maxFee = await contract.MAX_FEE_BPS();
+      await expect(contract.setFee(maxFee + 1n)).to.be.revertedWithCustomError(contract, "FeeTooHigh");
+      await expect(contract.setFee(maxFee)).to.emit(contract, "FeeUpdated").withArgs(FEE_BPS, maxFee);
+      expect(await contract.feeBps()).to.equal(maxFee);
+    });
+
+    it("takes the fee from a decisive pot and lets the owner withdraw it", async function () {
+      await contract.createGame(ethers.ZeroAddress, STAKE, RULES);
+      const gameId = (await contract.nextGameId()) - 1n;
+      await contract.connect(signers.alice).joinGame(gameId, { value: STAKE });
+      await contract.connect(signers.bob).joinGame(gameId, { value: STAKE });
+      await contract.setFee(0);
+      await contract.connect(signers.alice).rollDice(gameId);
+      await increaseTime((await contract.ROLL_TIMEOUT()) + 1n);
+
+      const pot = STAKE * 2n;
+      const fee = (pot * FEE_BPS) / 10_000n;
+      const forfeitTx = contract.connect(signers.alice).claimForfeit(gameId);
+      await expect(forfeitTx).to.emit(contract, "FeeCollected").withArgs(gameId, ethers.ZeroAddress, fee);
+      await expect(forfeitTx).to.changeEtherBalance(signers.alice, pot - fee);
+
+      expect((await contract.getGame(gameId)).fee).to.equal(fee);
+      expect(await contract.getGamePot(gameId)).to.equal(0n);
+      expect(await contract.treasuryBalance(ethers.ZeroAddress)).to.equal(fee);
+      expect(await ethers.provider.getBalance(await contract.getAddress())).to.equal(fee);
+
+      await expect(
+        contract.connect(signers.alice).withdrawTreasury(ethers.ZeroAddress, signers.alice.address, fee),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(
+        contract.withdrawTreasury(ethers.ZeroAddress, signers.carol.address, fee + 1n),
+      ).to.be.revertedWithCustomError(contract, "InsufficientTreasury");
+
+      const withdrawTx = contract.withdrawTreasury(ethers.ZeroAddress, signers.carol.address, fee);
+      await expect(withdrawTx)
+        .to.emit(contract, "TreasuryWithdrawn")
+        .withArgs(ethers.ZeroAddress, signers.carol.address, fee);
+      await expect(withdrawTx).to.changeEtherBalance(signers.carol, fee);
+      expect(await contract.treasuryBalance(ethers.ZeroAddress)).to.equal(0n);
+    });
+
+    it("does not charge refunded stakes", async function () {
+      await contract.createGame(ethers.ZeroAddress, STAKE, RULES);
+      const gameId = (await contract.nextGameId()) - 1n;
+      await contract.connect(signers.alice).joinGame(gameId, { value: STAKE });
+      await increaseTime((await contract.JOIN_TIMEOUT()) + 1n);
+
+      await expect(contract.connect(signers.alice).cancelGame(gameId)).to.changeEtherBalance(signers.alice, STAKE);
+      expect(await contract.treasuryBalance(ethers.ZeroAddress)).to.equal(0n);
+    });
+  });
+
+  describe("balance ledger", function () {
+    async function playRevealedGame() {
+      await contract.connect(signers.deployer).createGame(ethers.ZeroAddress, STAKE, RULES);
+      const gameId = (await contract.nextGameId()) - 1n;
+      await contract.connect(signers.alice).joinGame(gameId, { value: STAKE });
+      await contract.connect(signers.bob).joinGame(gameId, { value: STAKE });
+      await contract.connect(signers.alice).rollDice(gameId);
+      await contract.connect(signers.bob).rollDice(gameId);
+
+      const decryption = await fhevm.publicDecrypt(await contract.getRevealHandles(gameId));
+      await expect(
+        contract.finalizeReveal(gameId, decryption.abiEncodedClearValues, decryption.decryptionProof),
+      ).to.emit(contract, "BalanceCredited");
+      return gameId;
     }
+
+    it("credits resolved games and pays every game out in one withdrawal", async function () {
+      const gameIds = [await playRevealedGame(), await playRevealedGame()];
+
+      const expected = [0n, 0n];
+      for (const gameId of gameIds) {
+        const game = await contract.getGame(gameId);
+        expect(Number(game.status)).to.equal(GameStatus.Completed);
+        expect(game.credits[0] + game.credits[1]).to.equal(STAKE * 2n);
+        expect(await contract.getGamePot(gameId)).to.equal(0n);
+        expected[0] += game.credits[0];
+        expected[1] += game.credits[1];
+      }
+
+      const players = [signers.alice, signers.bob];
+      for (let i = 0; i < players.length; i++) {
+        expect(await contract.balances(players[i].address, ethers.ZeroAddress)).to.equal(expected[i]);
+        if (expected[i] > 0n) {
+          await expect(contract.connect(players[i]).withdrawAll(ethers.ZeroAddress)).to.changeEtherBalance(
+            players[i],
+            expected[i],
+          );
+        }
+        await expect(contract.connect(players[i]).withdrawAll(ethers.ZeroAddress)).to.be.revertedWithCustomError(
+          contract,
+          "InsufficientBalance",
+        );
+      }
+
+      expect(await ethers.provider.getBalance(await contract.getAddress())).to.equal(0n);
+
+      const game = await contract.getGame(gameIds[0]);
+      const claimant = game.winners[0] === signers.alice.address ? signers.alice : signers.bob;
+      const claim =
+        game.winners.length === 1 ? contract.connect(claimant).claimReward : contract.connect(claimant).claimDrawRefund;
+      await expect(claim(gameIds[0])).to.be.revertedWithCustomError(contract, "InsufficientBalance");
+    });
+
+    it("withdraws partial amounts and rejects overdrafts", async function () {
+      await contract.connect(signers.deployer).createGame(ethers.ZeroAddress, STAKE, { ...RULES, capacity: 3 });
+      const gameId = (await contract.nextGameId()) - 1n;
+      for (const player of [signers.alice, signers.bob, signers.carol]) {
+        await contract.connect(player).joinGame(gameId, { value: STAKE });
+      }
+      await contract.connect(signers.alice).rollDice(gameId);
+      await contract.connect(signers.carol).rollDice(gameId);
+      await increaseTime((await contract.ROLL_TIMEOUT()) + 1n);
+
+      const share = (STAKE * 3n) / 2n;
+      await expect(contract.connect(signers.alice).claimForfeit(gameId))
+        .to.emit(contract, "BalanceCredited")
+        .withArgs(gameId, signers.carol.address, ethers.ZeroAddress, share);
+      expect(await contract.balances(signers.alice.address, ethers.ZeroAddress)).to.equal(0n);
+      expect(await contract.balances(signers.carol.address, ethers.ZeroAddress)).to.equal(share);
+
+      await expect(contract.connect(signers.carol).withdraw(ethers.ZeroAddress, STAKE))
+        .to.emit(contract, "Withdrawn")
+        .withArgs(signers.carol.address, ethers.ZeroAddress, STAKE);
+      await expect(
+        contract.connect(signers.carol).withdraw(ethers.ZeroAddress, share - STAKE + 1n),
+      ).to.be.revertedWithCustomError(contract, "InsufficientBalance");
+      await expect(contract.connect(signers.carol).claimReward(gameId)).to.be.revertedWithCustomError(
+        contract,
+        "InsufficientBalance",
+      );
+
+      await expect(contract.connect(signers.carol).withdrawAll(ethers.ZeroAddress)).to.changeEtherBalance(
+        signers.carol,
+        share - STAKE,
+      );
+      expect(await ethers.provider.getBalance(await contract.getAddress())).to.equal(0n);
+    });
+  });
+
+  describe("player stats", function () {
+    it("records results, wagers and net winnings for decided games", async function () {
+      await contract.connect(signers.deployer).createGame(ethers.ZeroAddress, STAKE, { ...RULES, maxBet: STAKE });
+      await contract.connect(signers.alice).joinGame(0n, { value: STAKE });
+      await contract.connect(signers.bob).joinGame(0n, { value: STAKE });
+      await contract.connect(signers.alice).rollDice(0n);
+      await contract.connect(signers.bob).rollDice(0n);
+      await contract.connect(signers.alice).raiseBet(0n, STAKE / 2n, { value: STAKE / 2n });
+      await contract.connect(signers.bob).fold(0n);
+
+      const alice = await contract.getPlayerStats(signers.alice.address, ethers.ZeroAddress);
+      expect([alice.played, alice.wins, alice.losses, alice.draws]).to.deep.equal([1n, 1n, 0n, 0n]);
+      expect(alice.wagered).to.equal(STAKE + STAKE / 2n);
+      expect(alice.net).to.equal(STAKE);
+
+      const bob = await contract.getPlayerStats(signers.bob.address, ethers.ZeroAddress);
+      expect([bob.played, bob.wins, bob.losses, bob.draws]).to.deep.equal([1n, 0n, 1n, 0n]);
+      expect(bob.wagered).to.equal(STAKE);
+      expect(bob.net).to.equal(-STAKE);
+
+      // A revealed game either splits the pot as a draw or records one more win and loss
+      await contract.connect(signers.deployer).createGame(ethers.ZeroAddress, STAKE, RULES);
+      await contract.connect(signers.bob).joinGame(1n, { value: STAKE });
+      await contract.connect(signers.carol).joinGame(1n, { value: STAKE });
+      await contract.connect(signers.bob).rollDice(1n);
+      await contract.connect(signers.carol).rollDice(1n);
+      const decryption = await fhevm.publicDecrypt(await contract.getRevealHandles(1n));
+      await contract.finalizeReveal(1n, decryption.abiEncodedClearValues, decryption.decryptionProof);
+
+      const game = await contract.getGame(1n);
+      const stats = [
+        await contract.getPlayerStats(signers.bob.address, ethers.ZeroAddress),
+        await contract.getPlayerStats(signers.carol.address, ethers.ZeroAddress),
+      ];
+      expect(stats[0].played).to.equal(2n);
+      expect(stats[0].wins + stats[0].losses + stats[0].draws).to.equal(2n);
+      expect(stats[0].net).to.equal(-STAKE + game.credits[0] - STAKE);
+      expect(stats[1].net).to.equal(game.credits[1] - STAKE);
+      expect(stats[1].draws).to.equal(game.winners.length === 2 ? 1n : 0n);
+
+      const [ranked, total] = await contract.getLeaderboard(ethers.ZeroAddress, 0, 0, 10);
+      expect(total).to.equal(3n);
+      expect([...ranked]).to.have.members([signers.alice.address, signers.bob.address, signers.carol.address]);
+    });
+
+    it("does not count cancelled lobbies", async function () {
+      await contract.connect(signers.deployer).createGame(ethers.ZeroAddress, STAKE, RULES);
+      await contract.connect(signers.alice).joinGame(0n, { value: STAKE });
+      await increaseTime((await contract.JOIN_TIMEOUT()) + 1n);
+      await contract.connect(signers.deployer).cancelGame(0n);
+
+      const stats = await contract.getPlayerStats(signers.alice.address, ethers.ZeroAddress);
+      expect(stats.played).to.equal(0n);
+      expect(stats.net).to.equal(0n);
+      const [, total] = await contract.getLeaderboard(ethers.ZeroAddress, 0, 0, 10);
+      expect(total).to.equal(0n);
+    });
+  });
+
+  describe("deadlines", function () {
+    let gameId: bigint;
+
+    beforeEach(async function () {
+      await contract.connect(signers.deployer).createGame(ethers.ZeroAddress, STAKE, RULES);
+      gameId = (await contract.nextGameId()) - 1n;
+    });
+
+    it("lets the lone player cancel an unfilled lobby after the join deadline", async function () {
+      await contract.connect(signers.alice).joinGame(gameId, { value: STAKE });
+
+      await expect(contract.connect(signers.alice).cancelGame(gameId)).to.be.revertedWithCustomError(
+        contract,
+        "DeadlineNotReached",
+      );
+
+      await increaseTime((await contract.JOIN_TIMEOUT()) + 1n);
+
+      await expect(contract.connect(signers.bob).joinGame(gameId, { value: STAKE })).to.be.revertedWithCustomError(
+        contract,
+        "DeadlinePassed",
+      );
+      await expect(contract.connect(signers.bob).cancelGame(gameId)).to.be.revertedWithCustomError(
+        contract,
+        "NotParticipant",
+      );
+
+      await expect(contract.connect(signers.alice).cancelGame(gameId)).to.changeEtherBalance(signers.alice, STAKE);
+
+      const game = await contract.getGame(gameId);
+      expect(Number(game.status)).to.equal(GameStatus.Cancelled);
+      expect(await contract.getGamePot(gameId)).to.equal(0n);
+      expect(await ethers.provider.getBalance(await contract.getAddress())).to.equal(0n);
+    });
+
+    it("lets the creator cancel a lobby and refunds the lone player", async function () {
+      await contract.connect(signers.alice).joinGame(gameId, { value: STAKE });
+      await increaseTime((await contract.JOIN_TIMEOUT()) + 1n);
+
+      await expect(contract.connect(signers.deployer).cancelGame(gameId))
+        .to.emit(contract, "GameCancelled")
+        .withArgs(gameId, signers.deployer.address);
+
+      await expect(contract.connect(signers.alice).reclaimStake(gameId)).to.changeEtherBalance(signers.alice, STAKE);
+    });
+
+    it("awards the pot by forfeit when the opponent never rolls", async function () {
+      await contract.connect(signers.alice).joinGame(gameId, { value: STAKE });
+      await contract.connect(signers.bob).joinGame(gameId, { value: STAKE });
+      await contract.connect(signers.alice).rollDice(gameId);
+
+      await expect(contract.connect(signers.alice).claimForfeit(gameId)).to.be.revertedWithCustomError(
+        contract,
+        "DeadlineNotReached",
+      );
+
+      await increaseTime((await contract.ROLL_TIMEOUT()) + 1n);
+
+      await expect(contract.connect(signers.bob).rollDice(gameId)).to.be.revertedWithCustomError(
+        contract,
+        "DeadlinePassed",
+      );
+      await expect(contract.connect(signers.bob).claimForfeit(gameId)).to.be.revertedWithCustomError(
+        contract,
+        "ForfeitNotAvailable",
+      );
+
+      const reward = STAKE * 2n;
+      await expect(contract.connect(signers.alice).claimForfeit(gameId)).to.changeEtherBalance(signers.alice, reward);
+
+      const game = await contract.getGame(gameId);
+      expect(Number(game.status)).to.equal(GameStatus.Forfeited);
+      expect(game.winners).to.deep.equal([signers.alice.address]);
+      expect(await contract.getGamePot(gameId)).to.equal(0n);
+    });
+
+    it("lets both players reclaim their stakes when the reveal deadline passes", async function () {
+      await contract.connect(signers.alice).joinGame(gameId, { value: STAKE });
+      await contract.connect(signers.bob).joinGame(gameId, { value: STAKE });
+      await contract.connect(signers.alice).rollDice(gameId);
+      await contract.connect(signers.bob).rollDice(gameId);
+
+      await expect(contract.connect(signers.alice).reclaimStake(gameId)).to.be.revertedWithCustomError(
+        contract,
+        "ReclaimNotAvailable",
+      );
+
+      await increaseTime((await contract.REVEAL_TIMEOUT()) + 1n);
+
+      const handles = [await contract.getEncryptedRoll(gameId, 0), await contract.getEncryptedRoll(gameId, 1)];
+      const decryption = await fhevm.publicDecrypt(handles);
+      await expect(
+        contract.finalizeReveal(gameId, decryption.abiEncodedClearValues, decryption.decryptionProof),
+      ).to.be.revertedWithCustomError(contract, "DeadlinePassed");
+
+      await expect(contract.connect(signers.alice).reclaimStake(gameId)).to.changeEtherBalance(signers.alice, STAKE);
+      expect(Number((await contract.getGame(gameId)).status)).to.equal(GameStatus.Expired);
+      expect(await contract.getGamePot(gameId)).to.equal(0n);
+      expect(await contract.balances(signers.bob.address, ethers.ZeroAddress)).to.equal(STAKE);
+
+      await expect(contract.connect(signers.alice).reclaimStake(gameId)).to.be.revertedWithCustomError(
+        contract,
+        "RefundAlreadyClaimed",
+      );
+      await contract.connect(signers.bob).reclaimStake(gameId);
+
+      expect(await contract.getGamePot(gameId)).to.equal(0n);
+      expect(await ethers.provider.getBalance(await contract.getAddress())).to.equal(0n);
+    });
+  });
+
+  describe("token wagers", function () {
+    let token: MockERC20;
+    let tokenAddress: string;
+    let gameId: bigint;
+
+    beforeEach(async function () {
+      ({ contract, token, tokenAddress } = await deployTokenFixture());
+      const contractAddress = await contract.getAddress();
+
+      for (const player of [signers.alice, signers.bob]) {
+        await token.mint(player.address, TOKEN_STAKE * 10n);
+        await token.connect(player).approve(contractAddress, TOKEN_STAKE * 10n);
+      }
+
+      await contract.connect(signers.deployer).createGame(tokenAddress, TOKEN_STAKE, RULES);
+      gameId = (await contract.nextGameId()) - 1n;
+    });
+
+    it("only accepts allowlisted tokens within their stake bounds", async function () {
+      expect(await contract.getAllowedTokens()).to.deep.equal([tokenAddress]);
+      await expect(
+        contract.connect(signers.deployer).createGame(signers.bob.address, TOKEN_STAKE, RULES),
+      ).to.be.revertedWithCustomError(contract, "TokenNotAllowed");
+      await expect(
+        contract.connect(signers.deployer).createGame(tokenAddress, TOKEN_STAKE - 1n, RULES),
+      ).to.be.revertedWithCustomError(contract, "InvalidStake");
+    });
+
+    it("pulls the stake with transferFrom and rejects ETH", async function () {
+      await expect(
+        contract.connect(signers.alice).joinGame(gameId, { value: TOKEN_STAKE }),
+      ).to.be.revertedWithCustomError(contract, "IncorrectEntryFee");
+
+      await expect(contract.connect(signers.alice).joinGame(gameId)).to.changeTokenBalances(
+        token,
+        [signers.alice, contract],
+        [-TOKEN_STAKE, TOKEN_STAKE],
+      );
+
+      const game = await contract.getGame(gameId);
+      expect(game.stakeToken).to.equal(tokenAddress);
+      expect(await contract.getGamePot(gameId)).to.equal(TOKEN_STAKE);
+    });
+
+    it("refunds a cancelled lobby in the stake token", async function () {
+      await contract.connect(signers.alice).joinGame(gameId);
+      await increaseTime((await contract.JOIN_TIMEOUT()) + 1n);
+
+      await expect(contract.connect(signers.alice).cancelGame(gameId)).to.changeTokenBalance(
+        token,
+        signers.alice,
+        TOKEN_STAKE,
+      );
+    });
   });
 });
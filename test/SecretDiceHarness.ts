@@ -0,0 +1,349 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import { MockERC20, MockERC20__factory, SecretDiceHarness, SecretDiceHarness__factory } from "../types";
+
+enum GameStatus {
+  WaitingForRolls = 1,
+  AwaitingReveal = 2,
+  Completed = 3,
+}
+
+const MIN_STAKE = ethers.parseEther("0.0001");
+const MAX_STAKE = ethers.parseEther("1");
+const STAKE = MIN_STAKE;
+const RULES = { capacity: 2, diceCount: 1, faces: 6, sealedResult: false, bestOf: 1, maxTieRerolls: 0, maxBet: 0n };
+const TOKEN_STAKE = ethers.parseUnits("10", 18);
+
+// Alternating players and the totals they roll, as in `playGame(alice, 6, bob, 2)`
+type SeatRolls = (HardhatEthersSigner | number)[];
+
+function toSeats(seatRolls: SeatRolls) {
+  const seats: { player: HardhatEthersSigner; roll: number }[] = [];
+  for (let i = 0; i < seatRolls.length; i += 2) {
+    seats.push({ player: seatRolls[i] as HardhatEthersSigner, roll: seatRolls[i + 1] as number });
+  }
+  return seats;
+}
+
+type TokenConfig = { token: string; minStake: bigint; maxStake: bigint };
+
+async function deployHarnessFixture(feeBps = 0, tokens: TokenConfig[] = []) {
+  const [deployer] = await ethers.getSigners();
+  const diceRolls = await (await ethers.getContractFactory("DiceRolls")).deploy();
+  const playerRanking = await (await ethers.getContractFactory("PlayerRanking")).deploy();
+  const factory = (await ethers.getContractFactory("SecretDiceHarness", {
+    libraries: { DiceRolls: await diceRolls.getAddress(), PlayerRanking: await playerRanking.getAddress() },
+  })) as SecretDiceHarness__factory;
+  const contract = (await factory.deploy(MIN_STAKE, MAX_STAKE, tokens, feeBps, deployer.address)) as SecretDiceHarness;
+  return { contract, address: await contract.getAddress() };
+}
+
+describe("SecretDice with injected rolls", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let contract: SecretDiceHarness;
+  let address: string;
+
+  before(async function () {
+    [deployer, alice, bob, carol] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("SecretDice harness tests require the FHEVM mock environment");
+      this.skip();
+    }
+
+    ({ contract, address } = await deployHarnessFixture());
+  });
+
+  // Creates a lobby seating `players` in order; `rules` overrides the heads-up 1d6 defaults
+  async function openGame(players: HardhatEthersSigner[], rules: Partial<typeof RULES> = {}, stake = STAKE) {
+    await contract.connect(deployer).createGame(ethers.ZeroAddress, stake, {
+      ...RULES,
+      capacity: players.length,
+      ...rules,
+    });
+    const gameId = (await contract.nextGameId()) - 1n;
+    for (const player of players) {
+      await contract.connect(player).joinGame(gameId, { value: stake });
+    }
+    return gameId;
+  }
+
+  // Queues each seat's total and has every seat roll
+  async function rollRound(gameId: bigint, ...seatRolls: SeatRolls) {
+    const game = await contract.getGame(gameId);
+    for (const { player, roll } of toSeats(seatRolls)) {
+      const input = await fhevm.createEncryptedInput(address, deployer.address).add32(roll).encrypt();
+      await contract
+        .connect(deployer)
+        .queueRoll(gameId, game.players.indexOf(player.address), input.handles[0], input.inputProof);
+      await contract.connect(player).rollDice(gameId);
+    }
+  }
+
+  // Rolls the queued totals, then publicly decrypts and finalizes the round
+  async function playRound(gameId: bigint, ...seatRolls: SeatRolls) {
+    await rollRound(gameId, ...seatRolls);
+    return reveal(gameId);
+  }
+
+  async function reveal(gameId: bigint) {
+    const decryption = await fhevm.publicDecrypt([...(await contract.getRevealHandles(gameId))]);
+    return contract.finalizeReveal(gameId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+  }
+
+  async function playGame(...seatRolls: SeatRolls) {
+    const gameId = await openGame(toSeats(seatRolls).map((seat) => seat.player));
+    await playRound(gameId, ...seatRolls);
+    return gameId;
+  }
+
+  describe("heads-up results", function () {
+    it("runs a complete game from lobby to payout", async function () {
+      const gameId = await openGame([alice, bob]);
+      expect(Number(await contract.getGameStatus(gameId))).to.equal(GameStatus.WaitingForRolls);
+
+      await rollRound(gameId, alice, 5, bob, 2);
+      expect(Number(await contract.getGameStatus(gameId))).to.equal(GameStatus.AwaitingReveal);
+
+      await expect(reveal(gameId)).to.emit(contract, "GameResolved").withArgs(gameId, [alice.address], 5);
+      const game = await contract.getGame(gameId);
+      expect(Number(game.status)).to.equal(GameStatus.Completed);
+      expect(game.revealedRolls).to.deep.equal([5n, 2n]);
+      expect(game.winners).to.deep.equal([alice.address]);
+      expect(await ethers.provider.getBalance(address)).to.equal(STAKE * 2n);
+
+      await expect(contract.connect(alice).claimReward(gameId)).to.changeEtherBalances(
+        [alice, contract],
+        [STAKE * 2n, -STAKE * 2n],
+      );
+      expect((await contract.getGame(gameId)).payoutClaimed).to.deep.equal([true, false]);
+      expect(await ethers.provider.getBalance(address)).to.equal(0n);
+    });
+
+    it("pays player one when they roll higher", async function () {
+      const gameId = await openGame([alice, bob]);
+      await expect(playRound(gameId, alice, 6, bob, 2))
+        .to.emit(contract, "GameResolved")
+        .withArgs(gameId, [alice.address], 6);
+
+      const game = await contract.getGame(gameId);
+      expect(game.revealedRolls).to.deep.equal([6n, 2n]);
+      expect(game.credits).to.deep.equal([STAKE * 2n, 0n]);
+
+      await expect(contract.connect(alice).claimReward(gameId)).to.changeEtherBalance(alice, STAKE * 2n);
+      expect((await contract.getPlayerStats(alice.address, ethers.ZeroAddress)).wins).to.equal(1);
+      expect((await contract.getPlayerStats(bob.address, ethers.ZeroAddress)).losses).to.equal(1);
+    });
+
+    it("pays player two when they roll higher", async function () {
+      const gameId = await playGame(alice, 1, bob, 5);
+
+      expect((await contract.getGame(gameId)).winners).to.deep.equal([bob.address]);
+      await expect(contract.connect(bob).claimReward(gameId))
+        .to.emit(contract, "RewardClaimed")
+        .withArgs(gameId, bob.address, STAKE * 2n);
+      expect(await ethers.provider.getBalance(address)).to.equal(0n);
+    });
+
+    it("refunds both stakes on a draw without charging a fee", async function () {
+      ({ contract, address } = await deployHarnessFixture(500));
+      const gameId = await playGame(alice, 3, bob, 3);
+
+      const game = await contract.getGame(gameId);
+      expect(game.winners).to.deep.equal([alice.address, bob.address]);
+      expect(game.fee).to.equal(0n);
+
+      for (const player of [alice, bob]) {
+        await expect(contract.connect(player).claimDrawRefund(gameId)).to.changeEtherBalance(player, STAKE);
+        expect((await contract.getPlayerStats(player.address, ethers.ZeroAddress)).draws).to.equal(1);
+      }
+      expect(await contract.treasuryBalance(ethers.ZeroAddress)).to.equal(0n);
+    });
+
+    it("takes the protocol fee from a decisive pot", async function () {
+      ({ contract, address } = await deployHarnessFixture(500));
+      const pot = STAKE * 2n;
+      const fee = (pot * 500n) / 10_000n;
+
+      const gameId = await openGame([alice, bob]);
+      await expect(playRound(gameId, alice, 2, bob, 4))
+        .to.emit(contract, "FeeCollected")
+        .withArgs(gameId, ethers.ZeroAddress, fee);
+
+      await expect(contract.connect(bob).claimReward(gameId)).to.changeEtherBalance(bob, pot - fee);
+      expect(await contract.treasuryBalance(ethers.ZeroAddress)).to.equal(fee);
+      expect((await contract.getPlayerStats(bob.address, ethers.ZeroAddress)).net).to.equal(STAKE - fee);
+    });
+
+    it("reveals only the winner mask of a sealed game", async function () {
+      const gameId = await openGame([alice, bob], { sealedResult: true });
+      await expect(playRound(gameId, alice, 2, bob, 5))
+        .to.emit(contract, "SealedGameResolved")
+        .withArgs(gameId, [bob.address]);
+
+      const game = await contract.getGame(gameId);
+      expect(game.revealedOutcome).to.equal(0b10);
+      expect(game.revealedRolls).to.deep.equal([0n, 0n]);
+    });
+  });
+
+  describe("multiplayer splits", function () {
+    it("splits the pot between the top rolls and gives the rounding dust to the last winner", async function () {
+      const stake = STAKE + 1n;
+      const pot = stake * 3n;
+      const gameId = await openGame([alice, bob, carol], {}, stake);
+      await playRound(gameId, alice, 6, bob, 2, carol, 6);
+
+      expect((await contract.getGame(gameId)).winners).to.deep.equal([alice.address, carol.address]);
+      await expect(contract.connect(alice).claimReward(gameId)).to.changeEtherBalance(alice, pot / 2n);
+      await expect(contract.connect(carol).claimReward(gameId)).to.changeEtherBalance(carol, pot - pot / 2n);
+      await expect(contract.connect(bob).claimReward(gameId)).to.be.revertedWithCustomError(contract, "NotWinner");
+    });
+
+    it("treats a shared top roll below a full draw as a split, not a refund", async function () {
+      const gameId = await openGame([alice, bob, carol]);
+      await playRound(gameId, alice, 4, bob, 4, carol, 1);
+
+      await expect(contract.connect(alice).claimDrawRefund(gameId)).to.be.revertedWithCustomError(
+        contract,
+        "GameDrawn",
+      );
+      await expect(contract.connect(carol).claimReward(gameId)).to.be.revertedWithCustomError(contract, "NotWinner");
+    });
+  });
+
+  describe("series and sudden death", function () {
+    it("wins a best-of-three series on the deciding round", async function () {
+      const gameId = await openGame([alice, bob], { bestOf: 3 });
+      await expect(playRound(gameId, alice, 6, bob, 2))
+        .to.emit(contract, "RoundStarted")
+        .withArgs(gameId, 2);
+      await playRound(gameId, alice, 1, bob, 5);
+      await expect(playRound(gameId, alice, 3, bob, 4))
+        .to.emit(contract, "GameResolved")
+        .withArgs(gameId, [bob.address], 4);
+
+      const game = await contract.getGame(gameId);
+      expect(game.scores).to.deep.equal([1n, 2n]);
+      expect(game.rounds.map((round) => round.winnerMask)).to.deep.equal([0b01n, 0b10n, 0b10n]);
+    });
+
+    it("re-rolls a draw in sudden death and pays the re-roll winner", async function () {
+      const gameId = await openGame([alice, bob], { maxTieRerolls: 1 });
+      await expect(playRound(gameId, alice, 4, bob, 4))
+        .to.emit(contract, "TieRound")
+        .withArgs(gameId, 1, 1);
+      expect(Number(await contract.getGameStatus(gameId))).to.equal(GameStatus.WaitingForRolls);
+
+      await playRound(gameId, alice, 2, bob, 5);
+      const game = await contract.getGame(gameId);
+      expect(game.winners).to.deep.equal([bob.address]);
+      expect(game.tieRounds).to.equal(1);
+    });
+
+    it("refunds once the sudden-death re-rolls run out", async function () {
+      const gameId = await openGame([alice, bob], { maxTieRerolls: 1 });
+      await playRound(gameId, alice, 4, bob, 4);
+      await playRound(gameId, alice, 6, bob, 6);
+
+      expect((await contract.getGame(gameId)).winners).to.deep.equal([alice.address, bob.address]);
+      await expect(contract.connect(alice).claimDrawRefund(gameId)).to.changeEtherBalance(alice, STAKE);
+    });
+  });
+
+  describe("token wagers", function () {
+    it("pays the reward in the stake token", async function () {
+      const tokenFactory = (await ethers.getContractFactory("MockERC20")) as MockERC20__factory;
+      const token = (await tokenFactory.deploy("Dice Token", "DICE", 18)) as MockERC20;
+      const tokenAddress = await token.getAddress();
+      ({ contract, address } = await deployHarnessFixture(0, [
+        { token: tokenAddress, minStake: TOKEN_STAKE, maxStake: TOKEN_STAKE },
+      ]));
+
+      await contract.connect(deployer).createGame(tokenAddress, TOKEN_STAKE, RULES);
+      const gameId = (await contract.nextGameId()) - 1n;
+      for (const player of [alice, bob]) {
+        await token.mint(player.address, TOKEN_STAKE);
+        await token.connect(player).approve(address, TOKEN_STAKE);
+        await contract.connect(player).joinGame(gameId);
+      }
+
+      await expect(playRound(gameId, alice, 2, bob, 6))
+        .to.emit(contract, "GameResolved")
+        .withArgs(gameId, [bob.address], 6);
+      await expect(contract.connect(bob).claimReward(gameId)).to.changeTokenBalances(
+        token,
+        [bob, contract],
+        [TOKEN_STAKE * 2n, -TOKEN_STAKE * 2n],
+      );
+      expect(await token.balanceOf(alice.address)).to.equal(0n);
+      expect(await ethers.provider.getBalance(address)).to.equal(0n);
+    });
+  });
+
+  describe("claim errors", function () {
+    it("rejects claims until the game completes", async function () {
+      const gameId = await openGame([alice, bob]);
+      const expectNotCompleted = async () => {
+        await expect(contract.connect(alice).claimReward(gameId)).to.be.revertedWithCustomError(
+          contract,
+          "GameNotCompleted",
+        );
+        await expect(contract.connect(alice).claimDrawRefund(gameId)).to.be.revertedWithCustomError(
+          contract,
+          "GameNotCompleted",
+        );
+      };
+
+      await expectNotCompleted();
+      await contract.connect(alice).rollDice(gameId);
+      await contract.connect(bob).rollDice(gameId);
+      expect(Number(await contract.getGameStatus(gameId))).to.equal(GameStatus.AwaitingReveal);
+      await expectNotCompleted();
+    });
+
+    it("rejects a second reward, a loser's claim and a reward after a draw", async function () {
+      const decided = await playGame(alice, 5, bob, 3);
+      await contract.connect(alice).claimReward(decided);
+      await expect(contract.connect(alice).claimReward(decided)).to.be.revertedWithCustomError(
+        contract,
+        "RewardAlreadyClaimed",
+      );
+      await expect(contract.connect(bob).claimReward(decided)).to.be.revertedWithCustomError(contract, "NotWinner");
+
+      const drawn = await playGame(alice, 2, bob, 2);
+      await expect(contract.connect(alice).claimReward(drawn)).to.be.revertedWithCustomError(contract, "GameDrawn");
+    });
+
+    it("rejects a second refund and a refund for a player outside the game", async function () {
+      const gameId = await playGame(alice, 1, bob, 1);
+      await contract.connect(alice).claimDrawRefund(gameId);
+
+      await expect(contract.connect(alice).claimDrawRefund(gameId)).to.be.revertedWithCustomError(
+        contract,
+        "RefundAlreadyClaimed",
+      );
+      await expect(contract.connect(carol).claimDrawRefund(gameId)).to.be.revertedWithCustomError(
+        contract,
+        "NotParticipant",
+      );
+    });
+
+    it("rejects the reward shim once the credit was withdrawn from the balance", async function () {
+      const gameId = await playGame(alice, 6, bob, 1);
+      await expect(contract.connect(alice).withdrawAll(ethers.ZeroAddress)).to.changeEtherBalance(alice, STAKE * 2n);
+
+      await expect(contract.connect(alice).claimReward(gameId)).to.be.revertedWithCustomError(
+        contract,
+        "InsufficientBalance",
+      );
+    });
+  });
+});
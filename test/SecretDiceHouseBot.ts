@@ -0,0 +1,184 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import fs from "fs";
+import { ethers, fhevm } from "hardhat";
+import os from "os";
+import path from "path";
+
+import { HouseBot } from "../bot/src/bot";
+import type { HousePolicy } from "../bot/src/policy";
+import { BotStore } from "../bot/src/store";
+import { SecretDice, SecretDice__factory } from "../types";
+
+enum GameStatus {
+  AwaitingReveal = 2,
+  Completed = 3,
+  Cancelled = 4,
+  Forfeited = 5,
+}
+
+const STAKE = ethers.parseEther("0.0001");
+const JOIN_TIMEOUT = 24 * 60 * 60;
+const ROLL_TIMEOUT = 12 * 60 * 60;
+
+function rules(capacity: number) {
+  return { capacity, diceCount: 1, faces: 6, sealedResult: false, bestOf: 1, maxTieRerolls: 0, maxBet: 0n };
+}
+
+async function deployFixture() {
+  const [deployer] = await ethers.getSigners();
+  const diceRolls = await (await ethers.getContractFactory("DiceRolls")).deploy();
+  const playerRanking = await (await ethers.getContractFactory("PlayerRanking")).deploy();
+  const factory = (await ethers.getContractFactory("SecretDice", {
+    libraries: { DiceRolls: await diceRolls.getAddress(), PlayerRanking: await playerRanking.getAddress() },
+  })) as SecretDice__factory;
+  const contract = (await factory.deploy(STAKE, ethers.parseEther("1"), [], 0, deployer.address)) as SecretDice;
+  const startBlock = (await contract.deploymentTransaction()!.wait())!.blockNumber;
+  return { contract, contractAddress: await contract.getAddress(), startBlock };
+}
+
+describe("SecretDice house bot", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let house: HardhatEthersSigner;
+  let contract: SecretDice;
+  let contractAddress: string;
+  let startBlock: number;
+  let logs: string[];
+
+  before(async function () {
+    [, alice, bob, carol, house] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("SecretDice house bot tests require the FHEVM mock environment");
+      this.skip();
+    }
+
+    ({ contract, contractAddress, startBlock } = await deployFixture());
+    logs = [];
+  });
+
+  function createBot(store: BotStore, policy: Partial<HousePolicy> = {}) {
+    return new HouseBot({
+      signer: house,
+      contractAddress,
+      store,
+      startBlock,
+      policy: {
+        stakeToken: ethers.ZeroAddress,
+        minStake: STAKE,
+        maxStake: STAKE * 2n,
+        maxConcurrentGames: 2,
+        bankroll: STAKE * 4n,
+        ...policy,
+      },
+      reveal: (handles) => fhevm.publicDecrypt(handles),
+      log: (message) => logs.push(message),
+    });
+  }
+
+  async function openLobby(creator: HardhatEthersSigner, stake: bigint, capacity = 2) {
+    await contract.connect(creator).createGame(ethers.ZeroAddress, stake, rules(capacity));
+    const gameId = (await contract.nextGameId()) - 1n;
+    await contract.connect(creator).joinGame(gameId, { value: stake });
+    return gameId;
+  }
+
+  it("fills a matching lobby, rolls, reveals and collects its payout", async function () {
+    const matchingId = await openLobby(alice, STAKE);
+    const expensiveId = await openLobby(bob, STAKE * 10n);
+    await contract.connect(carol).createGame(ethers.ZeroAddress, STAKE, rules(2));
+    const emptyId = (await contract.nextGameId()) - 1n;
+
+    const store = new BotStore(contractAddress, house.address);
+    const bot = createBot(store);
+    await bot.tick();
+
+    let game = await contract.getGame(matchingId);
+    expect(game.players).to.deep.equal([alice.address, house.address]);
+    expect(game.rolled).to.deep.equal([false, true]);
+    expect(store.getSeat(matchingId.toString())?.state).to.equal("active");
+    // Out-of-range stakes are dropped for good; an empty table is kept until somebody sits down
+    expect(store.lobbies).to.deep.equal([emptyId.toString()]);
+    expect((await contract.getGame(expensiveId)).players).to.deep.equal([bob.address]);
+
+    await contract.connect(alice).rollDice(matchingId);
+    expect(await contract.getGameStatus(matchingId)).to.equal(GameStatus.AwaitingReveal);
+
+    await bot.tick();
+    expect(await contract.getGameStatus(matchingId)).to.equal(GameStatus.Completed);
+
+    await bot.tick();
+    game = await contract.getGame(matchingId);
+    const seat = store.getSeat(matchingId.toString());
+    expect(seat?.state).to.equal("settled");
+    expect(game.payoutClaimed[1]).to.equal(game.credits[1] > 0n);
+    expect(seat?.result).to.equal(game.credits[1] === 0n ? "lost" : game.winners.length === 2 ? "draw" : "won");
+    expect(await contract.balances(house.address, ethers.ZeroAddress)).to.equal(0n);
+    expect(logs.some((message) => message.startsWith("Could not join"))).to.equal(false);
+  });
+
+  it("writes off a seat that missed the roll deadline after another seat rolled", async function () {
+    const gameId = await openLobby(alice, STAKE, 3);
+    const store = new BotStore(contractAddress, house.address);
+    const bot = createBot(store);
+    await bot.tick();
+    expect((await contract.getGame(gameId)).players).to.deep.equal([alice.address, house.address]);
+
+    // The bot is not run while the table fills and alice rolls, so its seat misses the deadline
+    await contract.connect(bob).joinGame(gameId, { value: STAKE });
+    await contract.connect(alice).rollDice(gameId);
+    await ethers.provider.send("evm_increaseTime", [ROLL_TIMEOUT + 1]);
+    await ethers.provider.send("evm_mine", []);
+
+    await bot.tick();
+    expect(store.getSeat(gameId.toString())?.result).to.equal("lost");
+    expect(store.exposure()).to.deep.equal({ games: 0, staked: 0n });
+
+    await contract.connect(alice).claimForfeit(gameId);
+    expect(await contract.getGameStatus(gameId)).to.equal(GameStatus.Forfeited);
+    expect((await contract.getGame(gameId)).credits).to.deep.equal([STAKE * 3n, 0n, 0n]);
+  });
+
+  it("keeps its limits across restarts and cancels lobbies that never fill", async function () {
+    const storePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "house-bot-")), "state.json");
+    const firstId = (await openLobby(alice, STAKE * 2n, 3)).toString();
+    const secondId = (await openLobby(bob, STAKE * 2n, 3)).toString();
+
+    await createBot(new BotStore(contractAddress, house.address, storePath), { maxConcurrentGames: 1 }).tick();
+    expect((await contract.getGame(firstId)).players).to.deep.equal([alice.address, house.address]);
+    expect((await contract.getGame(secondId)).players).to.deep.equal([bob.address]);
+
+    // A restarted bot restores its open seat from disk, and an interrupted join is checked against the chain
+    let store = new BotStore(contractAddress, house.address, storePath);
+    store.setSeat(secondId, { state: "joining", stake: (STAKE * 2n).toString() });
+    await createBot(store, { maxConcurrentGames: 1 }).tick();
+    expect(store.getSeat(firstId)?.state).to.equal("active");
+    expect(store.getSeat(secondId)).to.equal(undefined);
+    expect(store.lobbies).to.deep.equal([secondId]);
+
+    await createBot(new BotStore(contractAddress, house.address, storePath), { bankroll: STAKE * 3n }).tick();
+    expect((await contract.getGame(secondId)).players).to.deep.equal([bob.address]);
+
+    store = new BotStore(contractAddress, house.address, storePath);
+    await createBot(store).tick();
+    expect((await contract.getGame(secondId)).players).to.deep.equal([bob.address, house.address]);
+    expect(store.exposure()).to.deep.equal({ games: 2, staked: STAKE * 4n });
+
+    await ethers.provider.send("evm_increaseTime", [JOIN_TIMEOUT + 1]);
+    await ethers.provider.send("evm_mine", []);
+    await createBot(store).tick();
+    for (const gameId of [firstId, secondId]) {
+      expect(await contract.getGameStatus(gameId)).to.equal(GameStatus.Cancelled);
+      expect(store.getSeat(gameId)?.result).to.equal("refunded");
+    }
+    expect(store.exposure()).to.deep.equal({ games: 0, staked: 0n });
+    expect(logs.filter((message) => message.startsWith("Joined"))).to.have.length(2);
+    expect(logs.some((message) => message.startsWith("Could not join"))).to.equal(false);
+
+    fs.rmSync(path.dirname(storePath), { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,134 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import type { AddressInfo } from "net";
+import { ethers, fhevm } from "hardhat";
+
+import { SecretDiceIndexer } from "../indexer/src/indexer";
+import type { GameRecord, Page } from "../indexer/src/queries";
+import { createIndexerServer } from "../indexer/src/server";
+import { JsonStore } from "../indexer/src/store";
+import { SecretDice, SecretDice__factory } from "../types";
+
+const STAKE = ethers.parseEther("0.0001");
+const BLUFF_RULES = {
+  capacity: 2,
+  diceCount: 1,
+  faces: 6,
+  sealedResult: false,
+  bestOf: 1,
+  maxTieRerolls: 0,
+  maxBet: STAKE,
+};
+
+async function deployFixture() {
+  const [deployer] = await ethers.getSigners();
+  const diceRolls = await (await ethers.getContractFactory("DiceRolls")).deploy();
+  const playerRanking = await (await ethers.getContractFactory("PlayerRanking")).deploy();
+  const factory = (await ethers.getContractFactory("SecretDice", {
+    libraries: { DiceRolls: await diceRolls.getAddress(), PlayerRanking: await playerRanking.getAddress() },
+  })) as SecretDice__factory;
+  const contract = (await factory.deploy(STAKE, ethers.parseEther("1"), [], 0, deployer.address)) as SecretDice;
+  const startBlock = (await contract.deploymentTransaction()!.wait())!.blockNumber;
+  return { contract, startBlock };
+}
+
+describe("SecretDice indexer", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let contract: SecretDice;
+  let store: JsonStore;
+  let indexer: SecretDiceIndexer;
+
+  before(async function () {
+    [, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("SecretDice indexer tests require the FHEVM mock environment");
+      this.skip();
+    }
+
+    let startBlock: number;
+    ({ contract, startBlock } = await deployFixture());
+    const contractAddress = await contract.getAddress();
+    store = new JsonStore(contractAddress);
+    indexer = new SecretDiceIndexer({ provider: ethers.provider, contractAddress, store, startBlock, batchSize: 3 });
+  });
+
+  async function createLobby(stake: bigint) {
+    await contract.createGame(ethers.ZeroAddress, stake, BLUFF_RULES);
+    return (await contract.nextGameId()) - 1n;
+  }
+
+  it("indexes a game from creation to the fold and serves it over HTTP", async function () {
+    const playedId = await createLobby(STAKE);
+    await contract.connect(alice).joinGame(playedId, { value: STAKE });
+    await contract.connect(bob).joinGame(playedId, { value: STAKE });
+    await contract.connect(alice).rollDice(playedId);
+    await contract.connect(bob).rollDice(playedId);
+    await contract.connect(alice).callBet(playedId);
+    await contract.connect(bob).fold(playedId);
+    await contract.connect(alice).claimReward(playedId);
+
+    const lobbyId = await createLobby(STAKE * 2n);
+    await contract.connect(bob).joinGame(lobbyId, { value: STAKE * 2n });
+
+    expect(await indexer.sync()).to.equal(await ethers.provider.getBlockNumber());
+
+    const server = createIndexerServer(store).listen(0);
+    try {
+      await new Promise((resolve) => server.once("listening", resolve));
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      const get = async (route: string) => (await fetch(`${baseUrl}${route}`)).json();
+
+      const games = (await get("/games")) as Page<GameRecord>;
+      expect(games.total).to.equal(2);
+      expect(games.items.map((game) => game.gameId)).to.deep.equal([lobbyId.toString(), playedId.toString()]);
+
+      const played = games.items[1];
+      expect(played.state).to.equal("forfeited");
+      expect(played.players).to.deep.equal([alice.address, bob.address]);
+      expect(played.winners).to.deep.equal([alice.address]);
+      expect(played.rolls).to.equal(2);
+
+      const lobbies = (await get("/lobbies")) as Page<GameRecord>;
+      expect(lobbies.items.map((game) => game.gameId)).to.deep.equal([lobbyId.toString()]);
+      expect(lobbies.items[0].stake).to.equal((STAKE * 2n).toString());
+
+      const aliceGames = (await get(`/players/${alice.address}/games`)) as Page<GameRecord>;
+      expect(aliceGames.items.map((game) => game.gameId)).to.deep.equal([playedId.toString()]);
+
+      const history = (await get(`/addresses/${alice.address}/history?limit=2`)) as Page<{ name: string }>;
+      expect(history.total).to.equal(5);
+      expect(history.items.map((event) => event.name)).to.deep.equal(["RewardClaimed", "GameForfeited"]);
+
+      const missing = await fetch(`${baseUrl}/games/99`);
+      expect(missing.status).to.equal(404);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("drops events from blocks that were reorganized away", async function () {
+    await createLobby(STAKE);
+    await indexer.sync();
+
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    const orphanedId = await createLobby(STAKE * 3n);
+    await contract.connect(alice).joinGame(orphanedId, { value: STAKE * 3n });
+    await indexer.sync();
+    expect(store.events.filter((event) => event.name === "GameCreated")).to.have.length(2);
+
+    // Replace the indexed blocks with a longer fork carrying a different second game
+    await ethers.provider.send("evm_revert", [snapshot]);
+    const replacementId = await createLobby(STAKE * 2n);
+    await ethers.provider.send("hardhat_mine", ["0x3"]);
+
+    await indexer.sync();
+    expect(replacementId).to.equal(orphanedId);
+    const created = store.events.filter((event) => event.name === "GameCreated");
+    expect(created.map((event) => event.args.stake)).to.deep.equal([STAKE.toString(), (STAKE * 2n).toString()]);
+    expect(store.events.some((event) => event.name === "PlayerJoined")).to.equal(false);
+  });
+});
@@ -0,0 +1,310 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import type { ContractTransactionResponse } from "ethers";
+import { ethers, fhevm } from "hardhat";
+
+import { SecretDiceHarness, SecretDiceHarness__factory } from "../types";
+
+enum GameStatus {
+  WaitingForPlayers = 0,
+  WaitingForRolls = 1,
+  AwaitingReveal = 2,
+  Completed = 3,
+  Cancelled = 4,
+  Forfeited = 5,
+  Expired = 6,
+  Betting = 7,
+}
+
+// Every move the contract may make between two observations of a game's status
+const LEGAL_TRANSITIONS: Record<GameStatus, GameStatus[]> = {
+  [GameStatus.WaitingForPlayers]: [GameStatus.WaitingForRolls, GameStatus.Cancelled],
+  [GameStatus.WaitingForRolls]: [
+    GameStatus.AwaitingReveal,
+    GameStatus.Betting,
+    GameStatus.Forfeited,
+    GameStatus.Expired,
+  ],
+  [GameStatus.AwaitingReveal]: [GameStatus.WaitingForRolls, GameStatus.Completed, GameStatus.Expired],
+  [GameStatus.Betting]: [GameStatus.AwaitingReveal, GameStatus.Forfeited],
+  [GameStatus.Completed]: [],
+  [GameStatus.Cancelled]: [],
+  [GameStatus.Forfeited]: [],
+  [GameStatus.Expired]: [],
+};
+
+const MIN_STAKE = ethers.parseEther("0.0001");
+const MAX_STAKE = ethers.parseEther("1");
+const FEE_BPS = 250;
+
+// Override with FUZZ_SEED=<n> to replay a failing run. The seed picks every action and, through the harness, every
+// roll, so a run does not depend on the block timestamps and hashes the mock draws its randomness from.
+const SEED = Number(process.env.FUZZ_SEED ?? 20240601);
+const RUNS = Number(process.env.FUZZ_RUNS ?? 3);
+const STEPS = Number(process.env.FUZZ_STEPS ?? 60);
+
+type Action = "create" | "join" | "roll" | "reveal" | "claimReward" | "claimDrawRefund";
+type GameAction = Exclude<Action, "create">;
+
+const ACTION_WEIGHTS: [Action, number][] = [
+  ["create", 1],
+  ["join", 3],
+  ["roll", 3],
+  ["reveal", 2],
+  ["claimReward", 2],
+  ["claimDrawRefund", 1],
+];
+
+// mulberry32: small, fast and good enough to pick actions
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (max: number) => Math.floor(next() * max);
+  const pick = <T>(items: T[]) => items[int(items.length)];
+  return { next, int, pick };
+}
+
+type GameView = Awaited<ReturnType<SecretDiceHarness["getGame"]>>;
+
+// Whether `player` may take `action` in `game` right now, mirroring the contract's checks
+function isValid(action: GameAction, game: GameView, player: string) {
+  const seat = game.players.indexOf(player);
+  const status = Number(game.status);
+  const fullDraw = game.winners.length === game.players.length;
+
+  switch (action) {
+    case "join":
+      return status === GameStatus.WaitingForPlayers && game.players.length < game.capacity && seat === -1;
+    case "roll":
+      return status === GameStatus.WaitingForRolls && seat !== -1 && !game.rolled[seat];
+    case "reveal":
+      return status === GameStatus.AwaitingReveal && game.revealPending;
+    case "claimReward":
+      return (
+        (status === GameStatus.Completed || status === GameStatus.Forfeited) &&
+        !(status === GameStatus.Completed && fullDraw) &&
+        game.winners.includes(player) &&
+        !game.payoutClaimed[seat]
+      );
+    case "claimDrawRefund":
+      return status === GameStatus.Completed && fullDraw && seat !== -1 && !game.payoutClaimed[seat];
+  }
+}
+
+describe("SecretDice invariants", function () {
+  let deployer: HardhatEthersSigner;
+  let players: HardhatEthersSigner[];
+
+  before(async function () {
+    const available = await ethers.getSigners();
+    deployer = available[0];
+    players = available.slice(1, 7);
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("SecretDice invariant tests require the FHEVM mock environment");
+      this.skip();
+    }
+  });
+
+  for (let run = 0; run < RUNS; run++) {
+    const seed = SEED + run;
+
+    it(`keeps pots, balances and statuses consistent over random play (seed ${seed})`, async function () {
+      const random = createRandom(seed);
+      const diceRolls = await (await ethers.getContractFactory("DiceRolls")).deploy();
+      const playerRanking = await (await ethers.getContractFactory("PlayerRanking")).deploy();
+      const factory = (await ethers.getContractFactory("SecretDiceHarness", {
+        libraries: { DiceRolls: await diceRolls.getAddress(), PlayerRanking: await playerRanking.getAddress() },
+      })) as SecretDiceHarness__factory;
+      const contract = (await factory.deploy(MIN_STAKE, MAX_STAKE, [], FEE_BPS, deployer.address)) as SecretDiceHarness;
+      const contractAddress = await contract.getAddress();
+
+      const gameIds: bigint[] = [];
+      const statuses = new Map<bigint, GameStatus>();
+      const paid = new Set<string>();
+
+      // The contract holds every live pot, the fees owed to the treasury and every credited but unwithdrawn share
+      const checkInvariants = async (context: string) => {
+        const pots = await Promise.all(gameIds.map((gameId) => contract.getGamePot(gameId)));
+        const credited = await Promise.all(
+          [deployer, ...players].map((signer) => contract.balances(signer.address, ethers.ZeroAddress)),
+        );
+        const treasury = await contract.treasuryBalance(ethers.ZeroAddress);
+        const sum = (values: bigint[]) => values.reduce((total, value) => total + value, 0n);
+
+        expect(await ethers.provider.getBalance(contractAddress), `${context}: contract balance`).to.equal(
+          sum(pots) + treasury + sum(credited),
+        );
+
+        for (const [index, gameId] of gameIds.entries()) {
+          const status = Number(await contract.getGameStatus(gameId)) as GameStatus;
+          const previous = statuses.get(gameId);
+          if (previous !== undefined && previous !== status) {
+            expect(
+              LEGAL_TRANSITIONS[previous],
+              `${context}: game ${gameId} moved from ${GameStatus[previous]} to ${GameStatus[status]}`,
+            ).to.include(status);
+          }
+          statuses.set(gameId, status);
+
+          if (LEGAL_TRANSITIONS[status].length === 0) {
+            expect(pots[index], `${context}: game ${gameId} ended with a pot`).to.equal(0n);
+          }
+        }
+      };
+
+      const recordPayouts = async (tx: ContractTransactionResponse, context: string) => {
+        const receipt = await tx.wait();
+        for (const log of receipt!.logs) {
+          const parsed = contract.interface.parseLog(log);
+          if (parsed?.name !== "RewardClaimed" && parsed?.name !== "DrawRefundClaimed") {
+            continue;
+          }
+          const key = `${parsed.args[0]}:${parsed.args[1]}`;
+          expect(paid.has(key), `${context}: ${parsed.args[1]} paid twice for game ${parsed.args[0]}`).to.equal(false);
+          paid.add(key);
+        }
+      };
+
+      const send = (action: GameAction, gameId: bigint, player: HardhatEthersSigner, game: GameView) => {
+        const connected = contract.connect(player);
+        switch (action) {
+          case "join":
+            return connected.joinGame(gameId, { value: game.stake });
+          case "roll":
+            return (async () => {
+              if (isValid("roll", game, player.address)) {
+                const diceCount = Number(game.diceCount);
+                const total = diceCount + random.int(diceCount * (Number(game.faces) - 1) + 1);
+                const input = await fhevm.createEncryptedInput(contractAddress, player.address).add32(total).encrypt();
+                const seat = game.players.indexOf(player.address);
+                await connected.queueRoll(gameId, seat, input.handles[0], input.inputProof);
+              }
+              return connected.rollDice(gameId);
+            })();
+          case "reveal":
+            return (async () => {
+              if (!isValid("reveal", game, player.address)) {
+                return connected.finalizeReveal(gameId, "0x", "0x");
+              }
+              const decryption = await fhevm.publicDecrypt([...(await contract.getRevealHandles(gameId))]);
+              return connected.finalizeReveal(gameId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+            })();
+          case "claimReward":
+            return connected.claimReward(gameId);
+          case "claimDrawRefund":
+            return connected.claimDrawRefund(gameId);
+        }
+      };
+
+      const create = async () => {
+        const tx = await contract
+          .connect(random.pick(players))
+          .createGame(ethers.ZeroAddress, MIN_STAKE * BigInt(1 + random.int(3)), {
+            capacity: 2 + random.int(3),
+            diceCount: 1,
+            faces: random.pick([4, 6]),
+            sealedResult: random.next() < 0.25,
+            bestOf: random.pick([1, 3]),
+            maxTieRerolls: random.int(2),
+            maxBet: 0n,
+          });
+        await tx.wait();
+        gameIds.push((await contract.nextGameId()) - 1n);
+      };
+
+      // Runs the action, expecting it to go through when the model says it is allowed and to revert otherwise
+      const perform = async (
+        action: GameAction,
+        gameId: bigint,
+        player: HardhatEthersSigner,
+        game: GameView,
+        context: string,
+      ) => {
+        if (isValid(action, game, player.address)) {
+          await recordPayouts(await send(action, gameId, player, game), context);
+        } else {
+          await expect(send(action, gameId, player, game), `${context}: ${action} should revert`).to.be.reverted;
+        }
+      };
+
+      const validMoves = async (action: GameAction) => {
+        const moves: { gameId: bigint; player: HardhatEthersSigner; game: GameView }[] = [];
+        for (const gameId of gameIds) {
+          const game = await contract.getGame(gameId);
+          for (const player of players) {
+            if (isValid(action, game, player.address)) {
+              moves.push({ gameId, player, game });
+            }
+          }
+        }
+        return moves;
+      };
+
+      const totalWeight = ACTION_WEIGHTS.reduce((total, [, weight]) => total + weight, 0);
+      for (let step = 0; step < STEPS; step++) {
+        let roll = random.int(totalWeight);
+        let [action] = ACTION_WEIGHTS[0];
+        for (const [candidate, weight] of ACTION_WEIGHTS) {
+          action = candidate;
+          if (roll < weight) {
+            break;
+          }
+          roll -= weight;
+        }
+        const context = `seed ${seed} step ${step} (${action})`;
+
+        if (action === "create" || gameIds.length === 0) {
+          await create();
+        } else {
+          // Mostly legal moves to push games forward, with the occasional arbitrary one that must revert cleanly
+          const moves = await validMoves(action);
+          if (moves.length > 0 && random.next() < 0.8) {
+            const { gameId, player, game } = random.pick(moves);
+            await perform(action, gameId, player, game, context);
+          } else {
+            const gameId = random.pick(gameIds);
+            await perform(action, gameId, random.pick(players), await contract.getGame(gameId), context);
+          }
+        }
+
+        await checkInvariants(context);
+      }
+
+      // Play every game out and collect every payout so the final state can be checked as a whole
+      const drainOrder: GameAction[] = ["join", "roll", "reveal", "claimReward", "claimDrawRefund"];
+      for (let step = 0; ; step++) {
+        expect(step, `seed ${seed}: games did not settle`).to.be.below(1000);
+        let moved = false;
+        for (const action of drainOrder) {
+          const [move] = await validMoves(action);
+          if (move) {
+            const context = `seed ${seed} drain ${step} (${action})`;
+            await perform(action, move.gameId, move.player, move.game, context);
+            await checkInvariants(context);
+            moved = true;
+            break;
+          }
+        }
+        if (!moved) {
+          break;
+        }
+      }
+
+      for (const gameId of gameIds) {
+        expect(statuses.get(gameId), `seed ${seed}: game ${gameId}`).to.equal(GameStatus.Completed);
+      }
+      expect(await ethers.provider.getBalance(contractAddress)).to.equal(
+        await contract.treasuryBalance(ethers.ZeroAddress),
+      );
+    });
+  }
+});
@@ -0,0 +1,186 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { Signer } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import { SecretDice, SecretDice__factory, SecretDiceLens, SecretDiceLens__factory } from "../types";
+
+enum GameStatus {
+  WaitingForPlayers = 0,
+  Forfeited = 5,
+}
+
+enum LeaderboardOrder {
+  Wins = 0,
+  NetProfit = 1,
+}
+
+// Players kept in each on-chain ranking, PlayerRanking.MAX_RANKED
+const MAX_RANKED = 50;
+
+const STAKE = ethers.parseEther("0.0001");
+const BLUFF_RULES = {
+  capacity: 2,
+  diceCount: 1,
+  faces: 6,
+  sealedResult: false,
+  bestOf: 1,
+  maxTieRerolls: 0,
+  maxBet: STAKE,
+};
+
+async function deployFixture() {
+  const [deployer] = await ethers.getSigners();
+  const diceRolls = await (await ethers.getContractFactory("DiceRolls")).deploy();
+  const playerRanking = await (await ethers.getContractFactory("PlayerRanking")).deploy();
+  const diceFactory = (await ethers.getContractFactory("SecretDice", {
+    libraries: { DiceRolls: await diceRolls.getAddress(), PlayerRanking: await playerRanking.getAddress() },
+  })) as SecretDice__factory;
+  const contract = (await diceFactory.deploy(STAKE, ethers.parseEther("1"), [], 0, deployer.address)) as SecretDice;
+  const lensFactory = (await ethers.getContractFactory("SecretDiceLens")) as SecretDiceLens__factory;
+  const lens = (await lensFactory.deploy(await contract.getAddress())) as SecretDiceLens;
+  return { contract, lens };
+}
+
+async function increaseTime(seconds: bigint) {
+  await ethers.provider.send("evm_increaseTime", [Number(seconds)]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+describe("SecretDiceLens", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let contract: SecretDice;
+  let lens: SecretDiceLens;
+
+  before(async function () {
+    [, alice, bob, carol] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("SecretDiceLens tests require the FHEVM mock environment");
+      this.skip();
+    }
+
+    ({ contract, lens } = await deployFixture());
+  });
+
+  // Plays a bluff game that `loser` folds, so the result does not depend on the rolls
+  async function playFoldedGame(stake: bigint, first: Signer, second: Signer, loser: Signer) {
+    await contract.createGame(ethers.ZeroAddress, stake, BLUFF_RULES);
+    const gameId = (await contract.nextGameId()) - 1n;
+    await contract.connect(first).joinGame(gameId, { value: stake });
+    await contract.connect(second).joinGame(gameId, { value: stake });
+    await contract.connect(first).rollDice(gameId);
+    await contract.connect(second).rollDice(gameId);
+
+    if (loser === second) {
+      await contract.connect(first).callBet(gameId);
+    }
+    await contract.connect(loser).fold(gameId);
+  }
+
+  it("ranks players by wins or by net profit and pages through the ranking", async function () {
+    await playFoldedGame(STAKE * 4n, alice, bob, bob);
+    await playFoldedGame(STAKE, carol, bob, bob);
+    await playFoldedGame(STAKE, alice, carol, alice);
+
+    const [byWins, total] = await lens.getLeaderboard(ethers.ZeroAddress, LeaderboardOrder.Wins, 0, 10);
+    expect(total).to.equal(3n);
+    expect(byWins.map((entry) => entry.player)).to.deep.equal([carol.address, alice.address, bob.address]);
+    expect(byWins[0].stats.wins).to.equal(2n);
+
+    const [byProfit] = await lens.getLeaderboard(ethers.ZeroAddress, LeaderboardOrder.NetProfit, 0, 10);
+    expect(byProfit.map((entry) => entry.player)).to.deep.equal([alice.address, carol.address, bob.address]);
+    expect(byProfit.map((entry) => entry.stats.net)).to.deep.equal([STAKE * 3n, STAKE * 2n, -STAKE * 5n]);
+
+    const [page] = await lens.getLeaderboard(ethers.ZeroAddress, LeaderboardOrder.NetProfit, 1, 1);
+    expect(page.map((entry) => entry.player)).to.deep.equal([carol.address]);
+
+    const [beyond, stillTotal] = await lens.getLeaderboard(ethers.ZeroAddress, LeaderboardOrder.Wins, 5, 10);
+    expect(beyond).to.have.length(0);
+    expect(stillTotal).to.equal(3n);
+  });
+
+  it("keeps only the top players once the ranking is full", async function () {
+    const [deployer] = await ethers.getSigners();
+    const players: Signer[] = [];
+    for (let i = 0; i < MAX_RANKED + 4; i++) {
+      const wallet = ethers.Wallet.createRandom(ethers.provider);
+      await deployer.sendTransaction({ to: wallet.address, value: ethers.parseEther("0.1") });
+      players.push(wallet);
+    }
+    const addresses = await Promise.all(players.map((player) => player.getAddress()));
+
+    // Game k pits player 2k against 2k+1 for k+1 stakes, so every winner and every loser has a distinct net
+    const games = MAX_RANKED / 2;
+    for (let k = 0; k < games; k++) {
+      await playFoldedGame(STAKE * BigInt(k + 1), players[2 * k], players[2 * k + 1], players[2 * k + 1]);
+    }
+
+    const winners = Array.from({ length: games }, (_, k) => addresses[2 * (games - 1 - k)]);
+    const losers = Array.from({ length: games }, (_, k) => addresses[2 * k + 1]);
+    const ranked: string[] = [];
+    for (let offset = 0; offset < MAX_RANKED; offset += 20) {
+      const [page, total] = await lens.getLeaderboard(ethers.ZeroAddress, LeaderboardOrder.NetProfit, offset, 20);
+      expect(total).to.equal(BigInt(MAX_RANKED));
+      ranked.push(...page.map((entry) => entry.player));
+    }
+    expect(ranked).to.deep.equal([...winners, ...losers]);
+
+    // A big winner outranks the last entry and takes its place; their opponent ranks below everyone and stays out
+    const [first, second, third, fourth] = players.slice(MAX_RANKED);
+    await playFoldedGame(STAKE * BigInt(games + 5), first, second, second);
+    // Players tied on both keys rank below the players who got there first
+    await playFoldedGame(STAKE, third, fourth, fourth);
+
+    for (const order of [LeaderboardOrder.Wins, LeaderboardOrder.NetProfit]) {
+      const [entries, total] = await lens.getLeaderboard(ethers.ZeroAddress, order, 0, MAX_RANKED);
+      expect(total).to.equal(BigInt(MAX_RANKED));
+      expect(entries.map((entry) => entry.player)).to.deep.equal([
+        addresses[MAX_RANKED],
+        ...winners,
+        addresses[MAX_RANKED + 2],
+        losers[0],
+        addresses[MAX_RANKED + 3],
+        ...losers.slice(1, -3),
+      ]);
+    }
+  });
+
+  it("pages through games newest first and filters them by status and player", async function () {
+    await playFoldedGame(STAKE, alice, bob, bob);
+    await contract.createGame(ethers.ZeroAddress, STAKE, BLUFF_RULES);
+    await contract.connect(alice).joinGame(1, { value: STAKE });
+    await increaseTime((await contract.JOIN_TIMEOUT()) + 1n);
+    await contract.createGame(ethers.ZeroAddress, STAKE * 2n, BLUFF_RULES);
+    await contract.connect(carol).joinGame(2, { value: STAKE * 2n });
+
+    const [newest, total] = await lens.getGames(0, 2);
+    expect(total).to.equal(3n);
+    expect(newest.map((summary) => summary.gameId)).to.deep.equal([2n, 1n]);
+    expect(newest[0].pot).to.equal(STAKE * 2n);
+    expect(newest[1].game.players).to.deep.equal([alice.address]);
+    const [oldest] = await lens.getGames(2, 2);
+    expect(oldest.map((summary) => summary.gameId)).to.deep.equal([0n]);
+
+    const [waiting, waitingCursor] = await lens.getGamesByStatus(GameStatus.WaitingForPlayers, 0, 1);
+    expect(waiting.map((summary) => summary.gameId)).to.deep.equal([2n]);
+    expect(waitingCursor).to.equal(2n);
+    const [moreWaiting, endCursor] = await lens.getGamesByStatus(GameStatus.WaitingForPlayers, waitingCursor, 5);
+    expect(moreWaiting.map((summary) => summary.gameId)).to.deep.equal([1n]);
+    expect(endCursor).to.equal(0n);
+
+    const [folded] = await lens.getGamesByStatus(GameStatus.Forfeited, 0, 5);
+    expect(folded.map((summary) => summary.gameId)).to.deep.equal([0n]);
+
+    const [open] = await lens.getOpenLobbies(0, 5);
+    expect(open.map((summary) => summary.gameId)).to.deep.equal([2n]);
+
+    const [aliceGames, aliceTotal] = await lens.getPlayerGames(alice.address, 0, 5);
+    expect(aliceTotal).to.equal(2n);
+    expect(aliceGames.map((summary) => summary.gameId)).to.deep.equal([1n, 0n]);
+    expect(await contract.getPlayerGames(bob.address)).to.deep.equal([0n]);
+  });
+});
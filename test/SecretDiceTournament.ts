@@ -0,0 +1,264 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { SecretDiceTournament, SecretDiceTournament__factory } from "../types";
+
+enum TournamentStatus {
+  Registration = 0,
+  InProgress = 1,
+  Completed = 2,
+  Cancelled = 3,
+}
+
+const BUY_IN = ethers.parseEther("0.01");
+
+async function deployFixture() {
+  const diceRolls = await (await ethers.getContractFactory("DiceRolls")).deploy();
+  const factory = (await ethers.getContractFactory("SecretDiceTournament", {
+    libraries: { DiceRolls: await diceRolls.getAddress() },
+  })) as SecretDiceTournament__factory;
+  const contract = (await factory.deploy()) as SecretDiceTournament;
+  return { contract };
+}
+
+async function increaseTime(seconds: bigint) {
+  await ethers.provider.send("evm_increaseTime", [Number(seconds)]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+describe("SecretDiceTournament", function () {
+  let organizer: HardhatEthersSigner;
+  let players: HardhatEthersSigner[];
+  let contract: SecretDiceTournament;
+
+  before(async function () {
+    const available = await ethers.getSigners();
+    organizer = available[0];
+    players = available.slice(1, 5);
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("SecretDiceTournament tests require the FHEVM mock environment");
+      this.skip();
+    }
+
+    ({ contract } = await deployFixture());
+  });
+
+  async function openBracket(runnerUpBps = 0) {
+    await contract.connect(organizer).createTournament(4, BUY_IN, 1, 6, runnerUpBps);
+    const tournamentId = (await contract.nextTournamentId()) - 1n;
+    for (const player of players) {
+      await contract.connect(player).register(tournamentId, { value: BUY_IN });
+    }
+    return tournamentId;
+  }
+
+  function signerOf(address: string) {
+    return players.find((player) => player.address === address)!;
+  }
+
+  // Rolls and reveals a match until it has a winner, re-rolling ties
+  async function playMatch(tournamentId: bigint, matchId: number) {
+    for (;;) {
+      const match = (await contract.getBracket(tournamentId))[matchId];
+      await contract.connect(signerOf(match.players[0])).rollMatch(tournamentId, matchId);
+      await contract.connect(signerOf(match.players[1])).rollMatch(tournamentId, matchId);
+
+      const decryption = await fhevm.publicDecrypt(await contract.getMatchRevealHandles(tournamentId, matchId));
+      await contract.finalizeMatch(tournamentId, matchId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+
+      const decided = (await contract.getBracket(tournamentId))[matchId];
+      if (decided.winner !== ethers.ZeroAddress) {
+        return decided;
+      }
+    }
+  }
+
+  it("rejects unsupported bracket configurations", async function () {
+    await expect(contract.createTournament(6, BUY_IN, 1, 6, 0)).to.be.revertedWithCustomError(
+      contract,
+      "InvalidBracketSize",
+    );
+    await expect(contract.createTournament(4, 0, 1, 6, 0)).to.be.revertedWithCustomError(contract, "InvalidBuyIn");
+    await expect(contract.createTournament(4, BUY_IN, 1, 7, 0)).to.be.revertedWithCustomError(
+      contract,
+      "InvalidDiceConfig",
+    );
+    await expect(contract.createTournament(4, BUY_IN, 1, 6, 5001)).to.be.revertedWithCustomError(
+      contract,
+      "InvalidPayoutSplit",
+    );
+  });
+
+  it("collects buy-ins and seeds the bracket once full", async function () {
+    await contract.connect(organizer).createTournament(4, BUY_IN, 1, 6, 0);
+
+    await expect(contract.connect(players[0]).register(0n, { value: BUY_IN - 1n })).to.be.revertedWithCustomError(
+      contract,
+      "IncorrectBuyIn",
+    );
+    await contract.connect(players[0]).register(0n, { value: BUY_IN });
+    await expect(contract.connect(players[0]).register(0n, { value: BUY_IN })).to.be.revertedWithCustomError(
+      contract,
+      "AlreadyRegistered",
+    );
+    expect(await contract.getBracket(0n)).to.have.length(0);
+
+    await contract.connect(players[1]).register(0n, { value: BUY_IN });
+    await contract.connect(players[2]).register(0n, { value: BUY_IN });
+    await expect(contract.connect(players[3]).register(0n, { value: BUY_IN }))
+      .to.emit(contract, "TournamentStarted")
+      .and.to.emit(contract, "MatchReady")
+      .withArgs(0n, 1n, [players[2].address, players[3].address]);
+
+    const tournament = await contract.getTournament(0n);
+    expect(Number(tournament.status)).to.equal(TournamentStatus.InProgress);
+
+    const bracket = await contract.getBracket(0n);
+    expect(bracket).to.have.length(3);
+    expect(bracket[0].players).to.deep.equal([players[0].address, players[1].address]);
+    expect(bracket[2].players).to.deep.equal([ethers.ZeroAddress, ethers.ZeroAddress]);
+
+    await expect(contract.connect(players[0]).rollMatch(0n, 2)).to.be.revertedWithCustomError(
+      contract,
+      "MatchNotReady",
+    );
+    await expect(contract.connect(players[2]).rollMatch(0n, 0)).to.be.revertedWithCustomError(contract, "NotInMatch");
+  });
+
+  it("advances match winners and pays the champion and runner-up", async function () {
+    const tournamentId = await openBracket(2000);
+
+    const semiFinals = [await playMatch(tournamentId, 0), await playMatch(tournamentId, 1)];
+    const final = (await contract.getBracket(tournamentId))[2];
+    expect(final.players).to.deep.equal([semiFinals[0].winner, semiFinals[1].winner]);
+
+    const decided = await playMatch(tournamentId, 2);
+    const runnerUp = decided.players.find((player) => player !== decided.winner)!;
+
+    const tournament = await contract.getTournament(tournamentId);
+    expect(Number(tournament.status)).to.equal(TournamentStatus.Completed);
+    expect(tournament.champion).to.equal(decided.winner);
+    expect(tournament.runnerUp).to.equal(runnerUp);
+
+    const prizePool = BUY_IN * 4n;
+    expect(await contract.balances(decided.winner)).to.equal((prizePool * 8000n) / 10000n);
+    expect(await contract.balances(runnerUp)).to.equal((prizePool * 2000n) / 10000n);
+
+    await expect(contract.connect(signerOf(decided.winner)).withdraw()).to.changeEtherBalance(
+      signerOf(decided.winner),
+      (prizePool * 8000n) / 10000n,
+    );
+    await expect(contract.connect(signerOf(decided.winner)).withdraw()).to.be.revertedWithCustomError(
+      contract,
+      "NothingToWithdraw",
+    );
+  });
+
+  it("advances the player who rolled when the opponent misses the deadline", async function () {
+    const tournamentId = await openBracket();
+
+    await contract.connect(players[1]).rollMatch(tournamentId, 0);
+    await expect(contract.claimMatchForfeit(tournamentId, 0)).to.be.revertedWithCustomError(
+      contract,
+      "DeadlineNotReached",
+    );
+
+    await increaseTime((await contract.MATCH_TIMEOUT()) + 1n);
+    await expect(contract.connect(players[0]).rollMatch(tournamentId, 0)).to.be.revertedWithCustomError(
+      contract,
+      "DeadlinePassed",
+    );
+
+    await expect(contract.claimMatchForfeit(tournamentId, 0))
+      .to.emit(contract, "MatchForfeited")
+      .withArgs(tournamentId, 0n, players[1].address);
+
+    const final = (await contract.getBracket(tournamentId))[2];
+    expect(final.players).to.deep.equal([players[1].address, ethers.ZeroAddress]);
+  });
+
+  it("reopens a match neither player rolled instead of advancing a no-show", async function () {
+    const tournamentId = await openBracket();
+    const timeout = await contract.MATCH_TIMEOUT();
+
+    await increaseTime(timeout + 1n);
+    await expect(contract.claimMatchForfeit(tournamentId, 0))
+      .to.emit(contract, "MatchRollExpired")
+      .withArgs(tournamentId, 0n)
+      .and.not.to.emit(contract, "MatchWon");
+
+    let match = (await contract.getBracket(tournamentId))[0];
+    expect(match.winner).to.equal(ethers.ZeroAddress);
+    expect(match.rolled).to.deep.equal([false, false]);
+    await expect(contract.claimMatchForfeit(tournamentId, 0)).to.be.revertedWithCustomError(
+      contract,
+      "DeadlineNotReached",
+    );
+
+    await contract.connect(players[1]).rollMatch(tournamentId, 0);
+    await increaseTime(timeout + 1n);
+    await expect(contract.claimMatchForfeit(tournamentId, 0))
+      .to.emit(contract, "MatchForfeited")
+      .withArgs(tournamentId, 0n, players[1].address);
+
+    match = (await contract.getBracket(tournamentId))[0];
+    expect(match.winner).to.equal(players[1].address);
+  });
+
+  it("re-rolls a match whose reveal deadline passes without a decryption", async function () {
+    const tournamentId = await openBracket();
+
+    await contract.connect(players[0]).rollMatch(tournamentId, 0);
+    await contract.connect(players[1]).rollMatch(tournamentId, 0);
+    const decryption = await fhevm.publicDecrypt(await contract.getMatchRevealHandles(tournamentId, 0));
+
+    await expect(contract.rerollMatch(tournamentId, 0)).to.be.revertedWithCustomError(contract, "DeadlineNotReached");
+    await expect(contract.rerollMatch(tournamentId, 1)).to.be.revertedWithCustomError(contract, "RevealNotPending");
+
+    await increaseTime((await contract.REVEAL_TIMEOUT()) + 1n);
+    await expect(
+      contract.finalizeMatch(tournamentId, 0, decryption.abiEncodedClearValues, decryption.decryptionProof),
+    ).to.be.revertedWithCustomError(contract, "DeadlinePassed");
+    await expect(contract.claimMatchForfeit(tournamentId, 0)).to.be.revertedWithCustomError(
+      contract,
+      "RevealInProgress",
+    );
+
+    await expect(contract.rerollMatch(tournamentId, 0))
+      .to.emit(contract, "MatchRevealExpired")
+      .withArgs(tournamentId, 0n);
+
+    const reopened = (await contract.getBracket(tournamentId))[0];
+    expect(reopened.revealPending).to.equal(false);
+    expect(reopened.rolled).to.deep.equal([false, false]);
+    expect(reopened.tieRounds).to.equal(0);
+
+    // Both players roll again and the match is decided as usual
+    const decided = await playMatch(tournamentId, 0);
+    expect([players[0].address, players[1].address]).to.include(decided.winner);
+  });
+
+  it("refunds every buy-in when registration is cancelled", async function () {
+    await contract.connect(organizer).createTournament(4, BUY_IN, 1, 6, 0);
+    await contract.connect(players[0]).register(0n, { value: BUY_IN });
+    await contract.connect(players[1]).register(0n, { value: BUY_IN });
+
+    await expect(contract.connect(players[0]).cancelTournament(0n)).to.be.revertedWithCustomError(
+      contract,
+      "DeadlineNotReached",
+    );
+    await expect(contract.connect(organizer).cancelTournament(0n))
+      .to.emit(contract, "TournamentCancelled")
+      .withArgs(0n, organizer.address);
+
+    expect(await contract.balances(players[0].address)).to.equal(BUY_IN);
+    await expect(contract.connect(players[1]).withdraw()).to.changeEtherBalance(players[1], BUY_IN);
+    await expect(contract.connect(players[2]).register(0n, { value: BUY_IN })).to.be.revertedWithCustomError(
+      contract,
+      "RegistrationClosed",
+    );
+  });
+});